@@ -0,0 +1,275 @@
+import AdmZip from 'adm-zip';
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'node:path';
+import { decompress } from 'fzstd';
+
+// PackageMetadata.Version in Anki's `meta` entry
+const PACKAGE_VERSION_LEGACY_1 = 1; // collection.anki2
+const PACKAGE_VERSION_LATEST = 3; // zstd collection.anki21b, protobuf media manifest
+
+const PACKAGE_EXTENSIONS = new Set(['.apkg', '.colpkg']);
+
+export interface AnkiModel {
+  name: string;
+  flds: Array<{ name: string }>;
+  tmpls: Array<{ name: string; qfmt: string; afmt: string }>;
+  css?: string;
+  type?: number; // 1 = cloze
+}
+
+export interface AnkiPackage {
+  collectionPath: string;
+  mediaManifest: Record<string, string>; // archive entry name → media filename
+  mediaCompressed: boolean; // media entries are zstd frames
+}
+
+type ProtoFields = Map<number, Array<number | Buffer>>;
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let scale = 1;
+  let position = offset;
+  for (;;) {
+    if (position >= buffer.length) {
+      throw new Error('Truncated protobuf varint');
+    }
+    const byte = buffer[position++];
+    value += (byte & 0x7f) * scale;
+    if ((byte & 0x80) === 0) return [value, position];
+    scale *= 128;
+  }
+}
+
+/** Decodes one protobuf message level; nested messages and strings stay as buffers. */
+function decodeProto(buffer: Buffer): ProtoFields {
+  const fields: ProtoFields = new Map();
+  let offset = 0;
+  while (offset < buffer.length) {
+    const [key, afterKey] = readVarint(buffer, offset);
+    const fieldNumber = Math.floor(key / 8);
+    const wireType = key % 8;
+    let value: number | Buffer;
+    if (wireType === 0) {
+      [value, offset] = readVarint(buffer, afterKey);
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(buffer, afterKey);
+      value = buffer.subarray(start, start + length);
+      offset = start + length;
+    } else if (wireType === 1 || wireType === 5) {
+      const size = wireType === 1 ? 8 : 4;
+      value = buffer.subarray(afterKey, afterKey + size);
+      offset = afterKey + size;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+    const values = fields.get(fieldNumber) ?? [];
+    values.push(value);
+    fields.set(fieldNumber, values);
+  }
+  return fields;
+}
+
+function protoString(fields: ProtoFields, fieldNumber: number): string {
+  const value = fields.get(fieldNumber)?.[0];
+  return Buffer.isBuffer(value) ? value.toString('utf8') : '';
+}
+
+function protoNumber(fields: ProtoFields, fieldNumber: number): number | null {
+  const value = fields.get(fieldNumber)?.[0];
+  return typeof value === 'number' ? value : null;
+}
+
+function decompressZstd(data: Buffer, label: string): Buffer {
+  try {
+    return Buffer.from(decompress(data));
+  } catch (error) {
+    throw new Error(`${label} could not be decompressed: ${(error as Error).message}`);
+  }
+}
+
+function readPackageVersion(metaPath: string | null): number {
+  if (!metaPath) return PACKAGE_VERSION_LEGACY_1;
+  const version = protoNumber(decodeProto(fs.readFileSync(metaPath)), 1);
+  if (version === null || version < PACKAGE_VERSION_LEGACY_1) return PACKAGE_VERSION_LEGACY_1;
+  if (version > PACKAGE_VERSION_LATEST) {
+    throw new Error(
+      'This package was exported by a newer version of Anki. Export it again with "Support older Anki versions" checked.',
+    );
+  }
+  return version;
+}
+
+// MediaEntries { repeated MediaEntry entries = 1 }, where an entry's archive name is its index
+function readProtoMediaManifest(data: Buffer): Record<string, string> {
+  const manifest: Record<string, string> = {};
+  decodeProto(data)
+    .get(1)
+    ?.forEach((entry, index) => {
+      if (!Buffer.isBuffer(entry)) return;
+      const fields = decodeProto(entry);
+      const legacyName = protoNumber(fields, 255);
+      manifest[String(legacyName ?? index)] = protoString(fields, 1);
+    });
+  return manifest;
+}
+
+/**
+ * Extracts an .apkg or .colpkg into `tempDir` and finds its collection. Packages
+ * from Anki 2.1.50+ ship a zstd `collection.anki21b` next to a placeholder
+ * `collection.anki2`, so the newest collection in the archive always wins.
+ */
+export async function extractAnkiPackage(filePath: string, tempDir: string): Promise<AnkiPackage> {
+  const fileName = path.basename(filePath);
+  if (!PACKAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    throw new Error(`"${fileName}" is not an Anki package. Choose an .apkg or .colpkg file.`);
+  }
+
+  try {
+    new AdmZip(filePath).extractAllTo(tempDir, true);
+  } catch (error) {
+    throw new Error(`"${fileName}" is not a valid Anki package: ${(error as Error).message}`);
+  }
+
+  const entryPath = async (name: string) => {
+    const candidate = path.join(tempDir, name);
+    return (await fs.pathExists(candidate)) ? candidate : null;
+  };
+
+  const version = readPackageVersion(await entryPath('meta'));
+  const latestPath = await entryPath('collection.anki21b');
+  const legacy2Path = await entryPath('collection.anki21');
+  const legacy1Path = await entryPath('collection.anki2');
+
+  let collectionPath: string;
+  if (latestPath) {
+    collectionPath = path.join(tempDir, 'collection.sqlite');
+    const data = await fs.readFile(latestPath);
+    await fs.writeFile(collectionPath, decompressZstd(data, 'collection.anki21b'));
+  } else if (legacy2Path) {
+    collectionPath = legacy2Path;
+  } else if (legacy1Path && version < PACKAGE_VERSION_LATEST) {
+    collectionPath = legacy1Path;
+  } else {
+    throw new Error(`"${fileName}" does not contain an Anki collection this app can read.`);
+  }
+
+  const mediaPath = await entryPath('media');
+  let mediaManifest: Record<string, string> = {};
+  if (mediaPath) {
+    const data = await fs.readFile(mediaPath);
+    mediaManifest =
+      version >= PACKAGE_VERSION_LATEST
+        ? readProtoMediaManifest(decompressZstd(data, 'The media manifest'))
+        : (JSON.parse(data.toString('utf8')) as Record<string, string>);
+  }
+
+  return {
+    collectionPath,
+    mediaManifest,
+    mediaCompressed: version >= PACKAGE_VERSION_LATEST,
+  };
+}
+
+/** Reads a media entry from an extracted package, decompressing it when needed. */
+export async function readPackageMedia(
+  pkg: AnkiPackage,
+  tempDir: string,
+  entryName: string,
+): Promise<Buffer> {
+  const data = await fs.readFile(path.join(tempDir, entryName));
+  return pkg.mediaCompressed ? decompressZstd(data, entryName) : data;
+}
+
+/**
+ * Note types keyed by id. Schema 11 collections keep them as JSON in `col.models`;
+ * schema 18 (anki21b) moved them into tables with protobuf configs.
+ */
+export function readAnkiModels(collection: Database.Database): Map<number, AnkiModel> {
+  const modelMap = new Map<number, AnkiModel>();
+  const hasNotetypesTable = collection
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'notetypes'`)
+    .get();
+
+  if (!hasNotetypesTable) {
+    const modelsRow = collection.prepare(`SELECT models FROM col LIMIT 1`).get() as {
+      models: string;
+    };
+    const parsedModels = JSON.parse(modelsRow.models) as Record<string, AnkiModel & { id: number }>;
+    for (const [id, model] of Object.entries(parsedModels)) {
+      modelMap.set(Number(model.id ?? id), model);
+    }
+    return modelMap;
+  }
+
+  const notetypes = collection.prepare(`SELECT id, name, config FROM notetypes`).all() as Array<{
+    id: number;
+    name: string;
+    config: Buffer;
+  }>;
+  const fields = collection
+    .prepare(`SELECT ntid, name FROM fields ORDER BY ntid, ord`)
+    .all() as Array<{ ntid: number; name: string }>;
+  const templates = collection
+    .prepare(`SELECT ntid, name, config FROM templates ORDER BY ntid, ord`)
+    .all() as Array<{ ntid: number; name: string; config: Buffer }>;
+
+  for (const notetype of notetypes) {
+    // Notetype.Config: kind = 1, css = 3
+    const config = decodeProto(notetype.config);
+    modelMap.set(notetype.id, {
+      name: notetype.name,
+      flds: [],
+      tmpls: [],
+      css: protoString(config, 3),
+      type: protoNumber(config, 1) ?? 0,
+    });
+  }
+  for (const field of fields) {
+    modelMap.get(field.ntid)?.flds.push({ name: field.name });
+  }
+  for (const template of templates) {
+    // CardTemplate.Config: q_format = 1, a_format = 2
+    const config = decodeProto(template.config);
+    modelMap.get(template.ntid)?.tmpls.push({
+      name: template.name,
+      qfmt: protoString(config, 1),
+      afmt: protoString(config, 2),
+    });
+  }
+  return modelMap;
+}
+
+/**
+ * Deck names keyed by id, with subdecks joined by `::`. Schema 18 moved decks
+ * into their own table and separates the levels with \x1f instead.
+ */
+export function readAnkiDecks(collection: Database.Database): Map<number, string> {
+  const deckNames = new Map<number, string>();
+  const hasDecksTable = collection
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'decks'`)
+    .get();
+
+  if (!hasDecksTable) {
+    const decksRow = collection.prepare(`SELECT decks FROM col LIMIT 1`).get() as {
+      decks: string;
+    };
+    const parsedDecks = JSON.parse(decksRow.decks || '{}') as Record<
+      string,
+      { id?: number; name: string }
+    >;
+    for (const [id, deck] of Object.entries(parsedDecks)) {
+      deckNames.set(Number(deck.id ?? id), deck.name);
+    }
+    return deckNames;
+  }
+
+  const rows = collection.prepare(`SELECT id, name FROM decks`).all() as Array<{
+    id: number;
+    name: string;
+  }>;
+  for (const row of rows) {
+    deckNames.set(row.id, row.name.split('\u001f').join('::'));
+  }
+  return deckNames;
+}
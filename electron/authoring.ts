@@ -0,0 +1,205 @@
+import fs from 'fs-extra';
+import path from 'node:path';
+import { app } from 'electron';
+import { LANG_PATTERN, validateCodingExtra } from './cardEditor';
+import {
+  attachReviewRow,
+  ensureDeckPath,
+  findDeckByName,
+  getDeckName,
+  getNextNewPosition,
+  insertCard,
+  insertNote,
+  insertNoteType,
+  nextTimestampId,
+  runInTransaction,
+} from './db';
+import type { NewNoteTypeArgs } from './db';
+import { buildFieldMap, deriveCardFaces, extractAudioRefs } from './templates';
+import type { NewNoteInput } from './types';
+
+// Fixed ids in Anki's timestamp range, so the built-in note types never pile up
+const VOCAB_NOTE_TYPE: NewNoteTypeArgs = {
+  id: 1_700_000_000_001,
+  name: 'Anki Hero Vocab',
+  fieldNames: ['Word', 'Meaning', 'POS', 'Example', 'Audio'],
+  templates: [
+    {
+      name: 'Recognition',
+      qfmt: '<div class="word">{{Word}}</div>{{Audio}}',
+      afmt: '<div class="meaning">{{Meaning}}</div><div class="pos">{{POS}}</div><div class="example">{{Example}}</div>',
+    },
+  ],
+};
+
+const CODING_NOTE_TYPE: NewNoteTypeArgs = {
+  id: 1_700_000_000_002,
+  name: 'Anki Hero Coding',
+  fieldNames: ['Prompt', 'Code', 'Language', 'Expected Output', 'Context'],
+  templates: [
+    {
+      name: 'Predict the output',
+      qfmt: '<div class="prompt">{{Prompt}}</div><pre><code>{{Code}}</code></pre>',
+      afmt: '<pre>{{Expected Output}}</pre><div class="context">{{Context}}</div>',
+    },
+  ],
+};
+
+const AUDIO_EXTENSIONS = new Set(['.mp3', '.ogg', '.wav', '.m4a', '.aac', '.flac', '.webm']);
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))].map((tag) => {
+    if (/\s/.test(tag)) {
+      throw new Error('Tags must be a single word without spaces.');
+    }
+    return tag;
+  });
+}
+
+/** Creates a deck; a `Parent::Child` name also creates any missing parent decks. */
+export function createDeck(name: string): number {
+  const trimmed = name
+    .split('::')
+    .map((part) => part.trim())
+    .join('::');
+  if (!trimmed) {
+    throw new Error('Deck name is required.');
+  }
+  return runInTransaction((database) => {
+    if (findDeckByName(database, trimmed) !== null) {
+      throw new Error(`A deck named "${trimmed}" already exists.`);
+    }
+    return ensureDeckPath(database, { name: trimmed });
+  });
+}
+
+function deckMediaDir(deckId: number) {
+  return path.join(app.getPath('userData'), 'media', String(deckId));
+}
+
+/** Copies an audio file into the deck's media folder and returns the name to reference it by. */
+async function copyAudioIntoDeck(deckId: number, audioPath: string) {
+  const extension = path.extname(audioPath).toLowerCase();
+  if (!AUDIO_EXTENSIONS.has(extension)) {
+    throw new Error(`"${path.basename(audioPath)}" is not a supported audio file.`);
+  }
+  if (!(await fs.pathExists(audioPath))) {
+    throw new Error(`Audio file not found: ${audioPath}`);
+  }
+
+  const mediaDir = deckMediaDir(deckId);
+  await fs.ensureDir(mediaDir);
+  let filename = path.basename(audioPath);
+  if (await fs.pathExists(path.join(mediaDir, filename))) {
+    filename = `${Date.now()}-${filename}`;
+  }
+  await fs.copyFile(audioPath, path.join(mediaDir, filename));
+  return filename;
+}
+
+/**
+ * Adds a note with its single card to a deck, rendered through the built-in
+ * vocab or coding note type. The card joins the end of the deck's new queue.
+ */
+export async function addNote(
+  deckId: number,
+  input: NewNoteInput,
+): Promise<{ noteId: number; cardId: number }> {
+  getDeckName(deckId);
+  const tags = normalizeTags(input.tags ?? []);
+
+  let noteType: NewNoteTypeArgs;
+  let fields: string[];
+  let audioFile: string | null = null;
+  let card: {
+    targetLexeme: string;
+    lang: string;
+    pos: string | null;
+    senseHint: string | null;
+    kind: 'vocab' | 'coding';
+    extra: Record<string, unknown> | null;
+  };
+
+  if (input.kind === 'coding') {
+    const coding = validateCodingExtra(input.coding);
+    noteType = CODING_NOTE_TYPE;
+    fields = [
+      escapeHtml(coding.prompt),
+      escapeHtml(coding.code),
+      coding.language,
+      escapeHtml(coding.expectedOutput),
+      escapeHtml(coding.explainContext ?? ''),
+    ];
+    card = {
+      targetLexeme: coding.prompt.slice(0, 120),
+      lang: coding.language,
+      pos: null,
+      senseHint: null,
+      kind: 'coding',
+      extra: { ...coding },
+    };
+  } else {
+    const word = input.word?.trim();
+    const meaning = input.meaning?.trim();
+    if (!word || !meaning) {
+      throw new Error('Word and meaning are required.');
+    }
+    const lang = input.lang?.trim() ?? '';
+    if (!LANG_PATTERN.test(lang)) {
+      throw new Error(`"${lang}" is not a language code such as es or fr.`);
+    }
+    audioFile = input.audioPath ? await copyAudioIntoDeck(deckId, input.audioPath) : null;
+    noteType = VOCAB_NOTE_TYPE;
+    fields = [
+      escapeHtml(word),
+      escapeHtml(meaning),
+      escapeHtml(input.pos?.trim() ?? ''),
+      escapeHtml(input.example?.trim() ?? ''),
+      audioFile ? `[sound:${audioFile}]` : '',
+    ];
+    card = {
+      targetLexeme: word,
+      lang,
+      pos: input.pos?.trim().toLowerCase() || null,
+      senseHint: meaning,
+      kind: 'vocab',
+      extra: null,
+    };
+  }
+
+  const fieldMap = buildFieldMap(noteType.fieldNames, fields);
+  const { front, back } = deriveCardFaces(noteType.templates[0], fieldMap, fields);
+
+  try {
+    return runInTransaction((database) => {
+      insertNoteType(database, noteType);
+      const noteId = nextTimestampId(database, 'notes');
+      insertNote(database, { id: noteId, deckId, fields, tags, noteTypeId: noteType.id });
+
+      const cardId = nextTimestampId(database, 'cards');
+      insertCard(database, {
+        id: cardId,
+        noteId,
+        frontHtml: front,
+        backHtml: back,
+        audioRefs: extractAudioRefs(front, back, ...fields),
+        ...card,
+        newPosition: getNextNewPosition(database, deckId),
+        templateOrd: 0,
+      });
+      attachReviewRow(cardId, database);
+
+      return { noteId, cardId };
+    });
+  } catch (error) {
+    // Nothing refers to the copied audio once the note failed to save
+    if (audioFile) {
+      await fs.remove(path.join(deckMediaDir(deckId), audioFile));
+    }
+    throw error;
+  }
+}
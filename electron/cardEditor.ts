@@ -0,0 +1,155 @@
+import {
+  getCardEditSource,
+  listNoteCardTemplates,
+  runInTransaction,
+  updateCardMetadata,
+  updateNoteFields,
+  updateRenderedCard,
+} from './db';
+import type { CardEditSource } from './db';
+import { buildFieldMap, deriveCardFaces, extractAudioRefs, templateForCard } from './templates';
+import type { CardEditInput, CardEditor, CardPreview, CodingExtra } from './types';
+
+export const LANG_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+export const CODE_LANGUAGE_PATTERN = /^[a-z][a-z0-9+#.-]*$/i;
+
+// Notes without a stored note type only ever rendered their first two fields
+function fallbackFieldNames(fields: string[]) {
+  return fields.map((_, index) => {
+    if (index === 0) return 'Front';
+    if (index === 1) return 'Back';
+    return `Field ${index + 1}`;
+  });
+}
+
+function renderFaces(source: CardEditSource, fields: string[], templateOrd: number) {
+  const fieldMap = buildFieldMap(source.fieldNames, fields);
+  const { front, back } = deriveCardFaces(
+    templateForCard(source.templates, templateOrd, source.isCloze),
+    fieldMap,
+    fields,
+    source.isCloze ? templateOrd + 1 : null,
+  );
+  return { frontHtml: front, backHtml: back, audioRefs: extractAudioRefs(front, back, ...fields) };
+}
+
+function requireText(label: string, value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${label} is required.`);
+  }
+  return value;
+}
+
+export function validateCodingExtra(extra: CodingExtra | null): CodingExtra {
+  if (!extra || typeof extra !== 'object') {
+    throw new Error('Coding cards need a prompt, code, language and expected output.');
+  }
+  const language = requireText('Language', extra.language).trim();
+  if (!CODE_LANGUAGE_PATTERN.test(language)) {
+    throw new Error(`"${language}" is not a valid code language name.`);
+  }
+  if (extra.explainContext !== null && typeof extra.explainContext !== 'string') {
+    throw new Error('Explain context must be text.');
+  }
+  return {
+    prompt: requireText('Prompt', extra.prompt).trim(),
+    code: requireText('Code', extra.code),
+    language: language.toLowerCase(),
+    expectedOutput: requireText('Expected output', extra.expectedOutput),
+    explainContext: extra.explainContext?.trim() || null,
+  };
+}
+
+function validateInput(source: CardEditSource, input: CardEditInput) {
+  const expectedFields = (source.fieldNames ?? source.fields).length;
+  if (
+    !Array.isArray(input.fields) ||
+    input.fields.length !== expectedFields ||
+    input.fields.some((field) => typeof field !== 'string')
+  ) {
+    throw new Error(`Expected ${expectedFields} note fields.`);
+  }
+
+  // Coding cards are listed by their prompt and tagged with their code language, as on import
+  if (source.kind === 'coding') {
+    const coding = validateCodingExtra(input.coding);
+    return {
+      fields: input.fields,
+      targetLexeme: coding.prompt.slice(0, 120),
+      lang: coding.language,
+      pos: null,
+      senseHint: null,
+      coding,
+    };
+  }
+
+  const lang = requireText('Language', input.lang).trim();
+  if (!LANG_PATTERN.test(lang)) {
+    throw new Error(`"${lang}" is not a language code such as es or fr.`);
+  }
+
+  return {
+    fields: input.fields,
+    targetLexeme: requireText('Target', input.targetLexeme).trim(),
+    lang,
+    pos: input.pos?.trim().toLowerCase() || null,
+    senseHint: input.senseHint?.trim() || null,
+    coding: null,
+  };
+}
+
+export function getCardEditor(cardId: number): CardEditor {
+  const source = getCardEditSource(cardId);
+  return {
+    cardId: source.cardId,
+    noteId: source.noteId,
+    deckId: source.deckId,
+    kind: source.kind,
+    noteTypeName: source.noteTypeName,
+    fieldNames: source.fieldNames ?? fallbackFieldNames(source.fields),
+    fields: source.fieldNames
+      ? source.fieldNames.map((_, index) => source.fields[index] ?? '')
+      : source.fields,
+    targetLexeme: source.targetLexeme,
+    lang: source.lang,
+    pos: source.pos,
+    senseHint: source.senseHint,
+    coding: source.coding,
+  };
+}
+
+/** Renders unsaved edits exactly as saving would, without validating them. */
+export function previewCardEdit(cardId: number, input: CardEditInput): CardPreview {
+  const source = getCardEditSource(cardId);
+  const { frontHtml, backHtml } = renderFaces(source, input.fields, source.templateOrd);
+  return {
+    frontHtml,
+    backHtml,
+    css: source.css,
+    coding: source.kind === 'coding' ? input.coding : null,
+  };
+}
+
+/**
+ * Saves the note's fields and the card's own details. The fields are shared,
+ * so every card of the note is re-rendered through its template.
+ */
+export function saveCardEdit(cardId: number, input: CardEditInput) {
+  const source = getCardEditSource(cardId);
+  const edit = validateInput(source, input);
+
+  runInTransaction((database) => {
+    updateNoteFields(database, source.noteId, edit.fields);
+    for (const card of listNoteCardTemplates(database, source.noteId)) {
+      updateRenderedCard(database, card.cardId, renderFaces(source, edit.fields, card.templateOrd));
+    }
+    updateCardMetadata(database, cardId, {
+      kind: source.kind,
+      targetLexeme: edit.targetLexeme,
+      lang: edit.lang,
+      pos: edit.pos,
+      senseHint: edit.senseHint,
+      extra: edit.coding,
+    });
+  });
+}
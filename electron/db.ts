@@ -2,16 +2,55 @@ import Database from 'better-sqlite3';
 import fs from 'fs-extra';
 import path from 'node:path';
 import { app } from 'electron';
+import { LEECH_ACTIONS, SCHEDULER_ALGORITHMS } from './scheduler';
+import { compileSearch, toFtsPhrase } from './search';
+import type { CardTemplate } from './templates';
 import type {
+  LeechAction,
+  SchedulerAlgorithm,
+  SchedulerConfig,
+  SchedulerOptions,
+} from './scheduler';
+import type {
+  BrowseCard,
+  BrowsePage,
+  BrowseQuery,
+  BrowseSortColumn,
   CardDetail,
   CardForReview,
   CardExplainContext,
   CodingCardForReview,
+  CodingExtra,
   CardKind,
+  ImportFieldMapping,
+  CardStateCounts,
+  DeckRetention,
+  DistributionBucket,
+  FlaggedCard,
+  HeatmapDay,
+  JudgeScoreWeek,
+  LowNaturalnessCard,
+  ScoreAverages,
+  ScoreDimension,
+  ScoreWeek,
+  LeechCard,
+  LeechDetail,
+  NewCardOrder,
+  QuickSearchHit,
+  RatingSource,
+  ReviewOrder,
+  ReviewType,
 } from './types';
 
 const DB_FILENAME = 'anki-hero.sqlite';
 
+// Preset every deck falls back to; it cannot be deleted
+const DEFAULT_PRESET_ID = 1;
+
+const ONE_HOUR_MS = 3_600_000;
+const ONE_DAY_MS = 86_400_000;
+const DEFAULT_DAY_ROLLOVER_HOUR = 4;
+
 let db: Database.Database | null = null;
 
 export function getDatabase(): Database.Database {
@@ -31,12 +70,47 @@ export function initializeDatabase(): Database.Database {
   const instance = new Database(dbPath);
   instance.pragma('journal_mode = WAL');
   instance.pragma('foreign_keys = ON');
+  // Used by the full-text index triggers, so it must exist before any write
+  instance.function('strip_html', { deterministic: true }, (html: unknown) =>
+    typeof html === 'string' ? stripHtml(html) : '',
+  );
   applySchema(instance);
 
   db = instance;
   return instance;
 }
 
+function stripHtml(input: string): string {
+  return input
+    .replace(/\[sound:[^\]]+]/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .trim();
+}
+
+// (Re)builds the full-text rows of the cards matching `filter`, an expression over `c`
+function cardSearchInsertSql(filter: string) {
+  return `
+    INSERT INTO card_search (rowid, lexeme, front, back, fields, tags, sentences)
+    SELECT
+      c.id,
+      c.target_lexeme,
+      strip_html(c.front_html),
+      strip_html(c.back_html),
+      strip_html((SELECT group_concat(value, ' ') FROM json_each(n.fields_json))),
+      (SELECT group_concat(value, ' ') FROM json_each(n.tags_json)),
+      (SELECT group_concat(a.sentence, ' ') FROM attempts a WHERE a.card_id = c.id)
+    FROM cards c
+    JOIN notes n ON n.id = c.note_id
+    WHERE ${filter}`;
+}
+
 function applySchema(database: Database.Database) {
   const userVersion = Number(database.pragma('user_version', { simple: true }));
 
@@ -125,6 +199,312 @@ function applySchema(database: Database.Database) {
     `);
     database.pragma('user_version = 3');
   }
+
+  if (userVersion < 4) {
+    // FSRS memory state, seeded from the classic scheduler's interval and difficulty
+    database.exec(`
+      ALTER TABLE reviews ADD COLUMN stability REAL NOT NULL DEFAULT 0;
+      ALTER TABLE reviews ADD COLUMN fsrs_difficulty REAL NOT NULL DEFAULT 0;
+      ALTER TABLE reviews ADD COLUMN last_review_ts INTEGER;
+
+      ALTER TABLE decks ADD COLUMN scheduler TEXT NOT NULL DEFAULT 'classic';
+      ALTER TABLE decks ADD COLUMN desired_retention REAL NOT NULL DEFAULT 0.9;
+
+      UPDATE reviews
+      SET stability = MAX(ivl_days, 1),
+          fsrs_difficulty = MIN(10, MAX(1, 1 + difficulty * 9)),
+          last_review_ts = CASE
+            WHEN learning_stage > 0 THEN due_ts - 600000
+            ELSE due_ts - ivl_days * 86400000
+          END
+      WHERE reps > 0 OR learning_stage > 0;
+    `);
+    database.pragma('user_version = 4');
+  }
+
+  if (userVersion < 5) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS revlog (
+        id INTEGER PRIMARY KEY,
+        card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+        review_ts INTEGER NOT NULL,
+        rating INTEGER NOT NULL,
+        review_type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        prev_ivl_days INTEGER NOT NULL,
+        ivl_days INTEGER NOT NULL,
+        prev_ease REAL NOT NULL,
+        ease REAL NOT NULL,
+        prev_difficulty REAL NOT NULL,
+        difficulty REAL NOT NULL,
+        prev_due_ts INTEGER NOT NULL,
+        due_ts INTEGER NOT NULL,
+        time_ms INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_revlog_card_id ON revlog(card_id, review_ts);
+      CREATE INDEX IF NOT EXISTS idx_revlog_review_ts ON revlog(review_ts);
+    `);
+    database.pragma('user_version = 5');
+  }
+
+  if (userVersion < 6) {
+    // Snapshot of the review row before each rating so it can be undone
+    database.exec(`
+      ALTER TABLE revlog ADD COLUMN prev_state_json TEXT;
+      ALTER TABLE revlog ADD COLUMN new_shown_date TEXT;
+    `);
+    database.pragma('user_version = 6');
+  }
+
+  if (userVersion < 7) {
+    database.exec(`
+      ALTER TABLE decks ADD COLUMN fsrs_weights_json TEXT;
+    `);
+    database.pragma('user_version = 7');
+  }
+
+  if (userVersion < 8) {
+    // Options presets shared between decks; steps are stored in minutes like Anki
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS deck_presets (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        learning_steps_json TEXT NOT NULL DEFAULT '[10,60]',
+        relearning_steps_json TEXT NOT NULL DEFAULT '[10,60]',
+        graduating_ivl_days INTEGER NOT NULL DEFAULT 1,
+        easy_ivl_days INTEGER NOT NULL DEFAULT 0,
+        max_ivl_days INTEGER NOT NULL DEFAULT 36500,
+        new_per_day INTEGER NOT NULL DEFAULT 20,
+        reviews_per_day INTEGER NOT NULL DEFAULT 200,
+        leech_threshold INTEGER NOT NULL DEFAULT 8,
+        leech_action TEXT NOT NULL DEFAULT 'suspend'
+      );
+
+      INSERT OR IGNORE INTO deck_presets (id, name) VALUES (${DEFAULT_PRESET_ID}, 'Default');
+
+      ALTER TABLE decks ADD COLUMN preset_id INTEGER NOT NULL DEFAULT ${DEFAULT_PRESET_ID};
+    `);
+
+    // Decks with a customised new-card cap keep it through their own preset
+    const customCaps = database
+      .prepare('SELECT id, name, daily_new_cap AS cap FROM decks WHERE daily_new_cap != 20')
+      .all() as Array<{ id: number; name: string; cap: number }>;
+    const insertPreset = database.prepare(
+      'INSERT INTO deck_presets (name, new_per_day) VALUES (@name, @cap)',
+    );
+    const assignPreset = database.prepare('UPDATE decks SET preset_id = ? WHERE id = ?');
+    for (const deck of customCaps) {
+      const presetId = Number(insertPreset.run({ name: deck.name, cap: deck.cap }).lastInsertRowid);
+      assignPreset.run(presetId, deck.id);
+    }
+
+    database.pragma('user_version = 8');
+  }
+
+  if (userVersion < 9) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      ALTER TABLE daily_stats ADD COLUMN reviews_done INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE revlog ADD COLUMN review_counted_date TEXT;
+    `);
+    database.pragma('user_version = 9');
+  }
+
+  if (userVersion < 10) {
+    // Daily counters are kept per card kind; older rows were all vocab ratings
+    database.exec(`
+      CREATE TABLE daily_stats_by_kind (
+        deck_id INTEGER NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        date_ymd TEXT NOT NULL,
+        new_shown INTEGER NOT NULL DEFAULT 0,
+        reviews_done INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (deck_id, kind, date_ymd)
+      );
+
+      INSERT INTO daily_stats_by_kind (deck_id, kind, date_ymd, new_shown, reviews_done)
+      SELECT deck_id, 'vocab', date_ymd, new_shown, reviews_done FROM daily_stats;
+
+      DROP TABLE daily_stats;
+      ALTER TABLE daily_stats_by_kind RENAME TO daily_stats;
+    `);
+    database.pragma('user_version = 10');
+  }
+
+  if (userVersion < 11) {
+    // Authored order and frequency rank for new cards, plus per-preset queue order
+    database.exec(`
+      ALTER TABLE cards ADD COLUMN new_position INTEGER;
+      ALTER TABLE cards ADD COLUMN frequency_rank INTEGER;
+
+      ALTER TABLE deck_presets ADD COLUMN new_card_order TEXT NOT NULL DEFAULT 'due';
+      ALTER TABLE deck_presets ADD COLUMN review_order TEXT NOT NULL DEFAULT 'due';
+    `);
+    database.pragma('user_version = 11');
+  }
+
+  if (userVersion < 12) {
+    // Siblings of a rated card can be hidden until the next study day
+    database.exec(`
+      ALTER TABLE reviews ADD COLUMN buried_until INTEGER;
+
+      ALTER TABLE deck_presets ADD COLUMN bury_new INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE deck_presets ADD COLUMN bury_reviews INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE deck_presets ADD COLUMN bury_learning INTEGER NOT NULL DEFAULT 0;
+
+      ALTER TABLE revlog ADD COLUMN buried_siblings_json TEXT;
+    `);
+    database.pragma('user_version = 12');
+  }
+
+  if (userVersion < 13) {
+    // Anki-style colour flags: 0 = none, 1..7 = red, orange, green, blue, pink, turquoise, purple
+    database.exec(`
+      ALTER TABLE cards ADD COLUMN flag INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX IF NOT EXISTS idx_cards_flag ON cards(flag);
+    `);
+    database.pragma('user_version = 13');
+  }
+
+  if (userVersion < 14) {
+    // Review load multiplier per weekday, Sunday first: 1 = normal, 0.5 = reduced, 0 = minimum
+    database.exec(`
+      ALTER TABLE deck_presets ADD COLUMN easy_days_json TEXT NOT NULL DEFAULT '[1,1,1,1,1,1,1]';
+    `);
+    database.pragma('user_version = 14');
+  }
+
+  if (userVersion < 15) {
+    // Judge scores, 0..1; quality scores are only given for right or unsure verdicts
+    database.exec(`
+      ALTER TABLE attempts ADD COLUMN form_score REAL;
+      ALTER TABLE attempts ADD COLUMN mechanics_score REAL;
+      ALTER TABLE attempts ADD COLUMN grammar_score REAL;
+      ALTER TABLE attempts ADD COLUMN style_score REAL;
+      ALTER TABLE attempts ADD COLUMN sophistication_score REAL;
+      ALTER TABLE attempts ADD COLUMN naturalness_score REAL;
+      ALTER TABLE attempts ADD COLUMN quick_tip TEXT;
+      CREATE INDEX IF NOT EXISTS idx_attempts_when_ts ON attempts(when_ts);
+    `);
+    database.pragma('user_version = 15');
+  }
+
+  if (userVersion < 16) {
+    // Full-text index over card content, note fields, tags and the learner's own sentences,
+    // one row per card. Diacritics are folded so "nino" finds "niño" and "etre" finds "être".
+    database.exec(`
+      CREATE VIRTUAL TABLE card_search USING fts5(
+        lexeme, front, back, fields, tags, sentences,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER card_search_cards_insert AFTER INSERT ON cards BEGIN
+        ${cardSearchInsertSql('c.id = NEW.id')};
+      END;
+
+      CREATE TRIGGER card_search_cards_update
+      AFTER UPDATE OF target_lexeme, front_html, back_html, note_id ON cards BEGIN
+        DELETE FROM card_search WHERE rowid = OLD.id;
+        ${cardSearchInsertSql('c.id = NEW.id')};
+      END;
+
+      CREATE TRIGGER card_search_cards_delete AFTER DELETE ON cards BEGIN
+        DELETE FROM card_search WHERE rowid = OLD.id;
+      END;
+
+      CREATE TRIGGER card_search_notes_update AFTER UPDATE OF fields_json, tags_json ON notes BEGIN
+        DELETE FROM card_search WHERE rowid IN (SELECT id FROM cards WHERE note_id = NEW.id);
+        ${cardSearchInsertSql('c.note_id = NEW.id')};
+      END;
+
+      CREATE TRIGGER card_search_attempts_insert AFTER INSERT ON attempts BEGIN
+        DELETE FROM card_search WHERE rowid = NEW.card_id;
+        ${cardSearchInsertSql('c.id = NEW.card_id')};
+      END;
+
+      CREATE TRIGGER card_search_attempts_update AFTER UPDATE OF sentence ON attempts BEGIN
+        DELETE FROM card_search WHERE rowid = NEW.card_id;
+        ${cardSearchInsertSql('c.id = NEW.card_id')};
+      END;
+
+      CREATE TRIGGER card_search_attempts_delete AFTER DELETE ON attempts BEGIN
+        DELETE FROM card_search WHERE rowid = OLD.card_id;
+        ${cardSearchInsertSql('c.id = OLD.card_id')};
+      END;
+
+      ${cardSearchInsertSql('1')};
+    `);
+    database.pragma('user_version = 16');
+  }
+
+  if (userVersion < 17) {
+    // Anki note types, so edited fields can be re-rendered through the card's template
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS note_types (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        fields_json TEXT NOT NULL,
+        templates_json TEXT NOT NULL
+      );
+
+      ALTER TABLE notes ADD COLUMN note_type_id INTEGER REFERENCES note_types(id) ON DELETE SET NULL;
+      ALTER TABLE cards ADD COLUMN template_ord INTEGER NOT NULL DEFAULT 0;
+    `);
+    database.pragma('user_version = 17');
+  }
+
+  if (userVersion < 18) {
+    // Note type styling, and whether its cards are cloze deletions of one shared template
+    database.exec(`
+      ALTER TABLE note_types ADD COLUMN css TEXT NOT NULL DEFAULT '';
+      ALTER TABLE note_types ADD COLUMN is_cloze INTEGER NOT NULL DEFAULT 0;
+    `);
+    database.pragma('user_version = 18');
+  }
+
+  if (userVersion < 19) {
+    // Subdecks; names stay in full (`Parent::Child`) as Anki stores them
+    database.exec(`
+      ALTER TABLE decks ADD COLUMN parent_id INTEGER REFERENCES decks(id) ON DELETE CASCADE;
+      CREATE INDEX IF NOT EXISTS idx_decks_parent_id ON decks(parent_id);
+    `);
+    database.pragma('user_version = 19');
+  }
+
+  if (userVersion < 20) {
+    // Anki note guids for merge imports, and the fields as last imported so
+    // local edits can be told apart from changes made upstream
+    database.exec(`
+      ALTER TABLE notes ADD COLUMN guid TEXT;
+      ALTER TABLE notes ADD COLUMN source_fields_json TEXT;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_notes_guid ON notes(guid) WHERE guid IS NOT NULL;
+    `);
+    database.pragma('user_version = 20');
+  }
+
+  if (userVersion < 21) {
+    // How an Anki note type's fields map onto study cards, chosen when importing
+    database.exec(`ALTER TABLE note_types ADD COLUMN import_mapping_json TEXT;`);
+    database.pragma('user_version = 21');
+  }
+
+  if (userVersion < 22) {
+    // Undoing the lapse that made a card a leech also removes its leech tag
+    database.exec(`ALTER TABLE revlog ADD COLUMN became_leech INTEGER NOT NULL DEFAULT 0;`);
+    database.pragma('user_version = 22');
+  }
+
+  if (userVersion < 23) {
+    // The package each imported note last came from, so a re-import only
+    // removes notes that package itself brought in
+    database.exec(`ALTER TABLE notes ADD COLUMN import_source TEXT;`);
+    database.pragma('user_version = 23');
+  }
 }
 
 interface DeckModeStats {
@@ -138,6 +518,9 @@ interface DeckModeStats {
 type DeckSummaryRow = {
   id: number;
   name: string;
+  parentId: number | null;
+  scheduler: SchedulerAlgorithm;
+  presetId: number;
   totalCount: number;
   nextDue: number | null;
   vocabCount: number | null;
@@ -150,11 +533,24 @@ type DeckSummaryRow = {
   codingReviewCount: number | null;
   vocabCompletedCount: number | null;
   codingCompletedCount: number | null;
+  vocabLearningDueCount: number | null;
+  codingLearningDueCount: number | null;
+  vocabReviewDueCount: number | null;
+  codingReviewDueCount: number | null;
+  newPerDay: number;
+  reviewsPerDay: number;
+  vocabNewShown: number;
+  codingNewShown: number;
+  vocabReviewsDone: number;
+  codingReviewsDone: number;
 };
 
 export interface DeckSummary {
   id: number;
-  name: string;
+  name: string; // full `Parent::Child` path
+  parentId: number | null;
+  scheduler: SchedulerAlgorithm;
+  presetId: number;
   dueCount: number;
   totalCount: number;
   nextDue: number | null;
@@ -167,25 +563,149 @@ export interface DeckSummary {
   stats: Record<CardKind, DeckModeStats>;
 }
 
+/**
+ * Limits the due and in-review counts to what today's caps will actually
+ * show: learning cards always, day-scale reviews and new cards up to what is
+ * left of the daily limits.
+ */
+function capDueCounts(
+  stats: DeckModeStats,
+  learningDue: number,
+  reviewDue: number,
+  newLeft: number,
+  reviewsLeft: number,
+): DeckModeStats {
+  const newDue = Math.max(0, stats.dueCount - learningDue - reviewDue);
+  const shownReviews = Math.min(reviewDue, reviewsLeft);
+  return {
+    ...stats,
+    dueCount: learningDue + shownReviews + Math.min(newDue, newLeft),
+    reviewCount: stats.reviewCount - reviewDue + shownReviews,
+  };
+}
+
+// Ids of @deckId and every deck below it, for studying a parent with its subdecks
+const DECK_SUBTREE_SQL = `
+  WITH RECURSIVE subtree(id) AS (
+    SELECT @deckId
+    UNION ALL
+    SELECT d.id FROM decks d JOIN subtree s ON d.parent_id = s.id
+  )
+  SELECT id FROM subtree
+`;
+
+// Card counts and today's progress that a parent deck adds up from its subdecks
+const ROLLED_UP_FIELDS = [
+  'totalCount',
+  'vocabCount',
+  'codingCount',
+  'vocabNewCount',
+  'codingNewCount',
+  'vocabDueCount',
+  'codingDueCount',
+  'vocabReviewCount',
+  'codingReviewCount',
+  'vocabCompletedCount',
+  'codingCompletedCount',
+  'vocabLearningDueCount',
+  'codingLearningDueCount',
+  'vocabReviewDueCount',
+  'codingReviewDueCount',
+  'vocabNewShown',
+  'codingNewShown',
+  'vocabReviewsDone',
+  'codingReviewsDone',
+] as const satisfies ReadonlyArray<keyof DeckSummaryRow>;
+
+/** Caps a deck's due counts by its own limits, as the next-card queries do. */
+function capDeckRow(row: DeckSummaryRow): DeckSummaryRow {
+  const capped = { ...row };
+  for (const kind of ['vocab', 'coding'] as const) {
+    const reviewDue = row[`${kind}ReviewDueCount`] ?? 0;
+    const reviewsLeft = Math.max(0, row.reviewsPerDay - row[`${kind}ReviewsDone`]);
+    const stats = capDueCounts(
+      {
+        totalCount: 0,
+        dueCount: row[`${kind}DueCount`] ?? 0,
+        reviewCount: row[`${kind}ReviewCount`] ?? 0,
+        completedCount: 0,
+        newCount: 0,
+      },
+      row[`${kind}LearningDueCount`] ?? 0,
+      reviewDue,
+      Math.max(0, row.newPerDay - row[`${kind}NewShown`]),
+      reviewsLeft,
+    );
+    capped[`${kind}DueCount`] = stats.dueCount;
+    capped[`${kind}ReviewCount`] = stats.reviewCount;
+    capped[`${kind}ReviewDueCount`] = Math.min(reviewDue, reviewsLeft);
+  }
+  return capped;
+}
+
+/**
+ * Adds each deck's descendants into its row. Every subdeck's due counts are
+ * first capped by its own limits; the deck's own limits apply on top.
+ */
+function rollUpDeckRows(rows: DeckSummaryRow[]): DeckSummaryRow[] {
+  const children = new Map<number, DeckSummaryRow[]>();
+  for (const row of rows) {
+    if (row.parentId === null) continue;
+    children.set(row.parentId, [...(children.get(row.parentId) ?? []), row]);
+  }
+
+  const rollUp = (row: DeckSummaryRow): DeckSummaryRow =>
+    (children.get(row.id) ?? [])
+      .map((child) => capDeckRow(rollUp(child)))
+      .reduce((total, child) => {
+        const next = { ...total };
+        for (const field of ROLLED_UP_FIELDS) {
+          next[field] = (total[field] ?? 0) + (child[field] ?? 0);
+        }
+        if (child.nextDue !== null && (next.nextDue === null || child.nextDue < next.nextDue)) {
+          next.nextDue = child.nextDue;
+        }
+        return next;
+      }, row);
+
+  return rows.map(rollUp);
+}
+
 export function getDeckSummaries(): DeckSummary[] {
   const database = getDatabase();
   const stmt = database.prepare(`
     SELECT
       d.id,
       d.name,
+      d.parent_id AS parentId,
+      d.scheduler,
+      d.preset_id AS presetId,
       COUNT(c.id) AS totalCount,
       MIN(r.due_ts) AS nextDue,
       COALESCE(SUM(CASE WHEN c.kind = 'vocab' THEN 1 ELSE 0 END), 0) AS vocabCount,
       COALESCE(SUM(CASE WHEN c.kind = 'coding' THEN 1 ELSE 0 END), 0) AS codingCount,
       COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND (r.reps = 0 OR r.reps IS NULL) THEN 1 ELSE 0 END), 0) AS vocabNewCount,
       COALESCE(SUM(CASE WHEN c.kind = 'coding' AND (r.reps = 0 OR r.reps IS NULL) THEN 1 ELSE 0 END), 0) AS codingNewCount,
-      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.due_ts <= @now THEN 1 ELSE 0 END), 0) AS vocabDueCount,
-      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.due_ts <= @now THEN 1 ELSE 0 END), 0) AS codingDueCount,
-      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.reps > 0 AND r.due_ts <= @now THEN 1 ELSE 0 END), 0) AS vocabReviewCount,
-      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.reps > 0 AND r.due_ts <= @now THEN 1 ELSE 0 END), 0) AS codingReviewCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS vocabDueCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS codingDueCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.reps > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS vocabReviewCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.reps > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS codingReviewCount,
       COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.reps > 0 AND r.due_ts > @now THEN 1 ELSE 0 END), 0) AS vocabCompletedCount,
-      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.reps > 0 AND r.due_ts > @now THEN 1 ELSE 0 END), 0) AS codingCompletedCount
+      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.reps > 0 AND r.due_ts > @now THEN 1 ELSE 0 END), 0) AS codingCompletedCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.learning_stage > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS vocabLearningDueCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.learning_stage > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS codingLearningDueCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'vocab' AND r.learning_stage = 0 AND r.reps > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS vocabReviewDueCount,
+      COALESCE(SUM(CASE WHEN c.kind = 'coding' AND r.learning_stage = 0 AND r.reps > 0 AND r.due_ts <= @now AND COALESCE(r.buried_until, 0) <= @now THEN 1 ELSE 0 END), 0) AS codingReviewDueCount,
+      p.new_per_day AS newPerDay,
+      p.reviews_per_day AS reviewsPerDay,
+      COALESCE(vs.new_shown, 0) AS vocabNewShown,
+      COALESCE(cs.new_shown, 0) AS codingNewShown,
+      COALESCE(vs.reviews_done, 0) AS vocabReviewsDone,
+      COALESCE(cs.reviews_done, 0) AS codingReviewsDone
     FROM decks d
+    JOIN deck_presets p ON p.id = d.preset_id
+    LEFT JOIN daily_stats vs ON vs.deck_id = d.id AND vs.kind = 'vocab' AND vs.date_ymd = @today
+    LEFT JOIN daily_stats cs ON cs.deck_id = d.id AND cs.kind = 'coding' AND cs.date_ymd = @today
     LEFT JOIN notes n ON n.deck_id = d.id
     LEFT JOIN cards c ON c.note_id = n.id
     LEFT JOIN reviews r ON r.card_id = c.id
@@ -193,24 +713,36 @@ export function getDeckSummaries(): DeckSummary[] {
     ORDER BY d.name ASC
   `);
 
-  const rows = stmt.all({ now: Date.now() }) as DeckSummaryRow[];
+  const rows = rollUpDeckRows(stmt.all({ now: Date.now(), today: todayYMD() }) as DeckSummaryRow[]);
 
   return rows.map((row) => {
     const stats: Record<CardKind, DeckModeStats> = {
-      vocab: {
-        totalCount: row.vocabCount ?? 0,
-        dueCount: row.vocabDueCount ?? 0,
-        reviewCount: row.vocabReviewCount ?? 0,
-        completedCount: row.vocabCompletedCount ?? 0,
-        newCount: row.vocabNewCount ?? 0,
-      },
-      coding: {
-        totalCount: row.codingCount ?? 0,
-        dueCount: row.codingDueCount ?? 0,
-        reviewCount: row.codingReviewCount ?? 0,
-        completedCount: row.codingCompletedCount ?? 0,
-        newCount: row.codingNewCount ?? 0,
-      },
+      vocab: capDueCounts(
+        {
+          totalCount: row.vocabCount ?? 0,
+          dueCount: row.vocabDueCount ?? 0,
+          reviewCount: row.vocabReviewCount ?? 0,
+          completedCount: row.vocabCompletedCount ?? 0,
+          newCount: row.vocabNewCount ?? 0,
+        },
+        row.vocabLearningDueCount ?? 0,
+        row.vocabReviewDueCount ?? 0,
+        Math.max(0, row.newPerDay - row.vocabNewShown),
+        Math.max(0, row.reviewsPerDay - row.vocabReviewsDone),
+      ),
+      coding: capDueCounts(
+        {
+          totalCount: row.codingCount ?? 0,
+          dueCount: row.codingDueCount ?? 0,
+          reviewCount: row.codingReviewCount ?? 0,
+          completedCount: row.codingCompletedCount ?? 0,
+          newCount: row.codingNewCount ?? 0,
+        },
+        row.codingLearningDueCount ?? 0,
+        row.codingReviewDueCount ?? 0,
+        Math.max(0, row.newPerDay - row.codingNewShown),
+        Math.max(0, row.reviewsPerDay - row.codingReviewsDone),
+      ),
     };
 
     const vocabCount = stats.vocab.totalCount;
@@ -222,6 +754,9 @@ export function getDeckSummaries(): DeckSummary[] {
     return {
       id: row.id,
       name: row.name,
+      parentId: row.parentId,
+      scheduler: row.scheduler,
+      presetId: row.presetId,
       totalCount: row.totalCount ?? vocabCount + codingCount,
       nextDue: row.nextDue,
       vocabCount,
@@ -236,27 +771,136 @@ export function getDeckSummaries(): DeckSummary[] {
   });
 }
 
+/** Deletes a deck together with its subdecks and their media. */
 export async function deleteDeck(deckId: number): Promise<void> {
   const database = getDatabase();
+  const deckIds = (database.prepare(DECK_SUBTREE_SQL).all({ deckId }) as Array<{ id: number }>).map(
+    (row) => row.id,
+  );
   const result = database.prepare('DELETE FROM decks WHERE id = ?').run(deckId);
   if (result.changes === 0) {
     throw new Error(`Deck ${deckId} not found.`);
   }
 
-  const mediaDir = path.join(app.getPath('userData'), 'media', String(deckId));
-  try {
-    await fs.remove(mediaDir);
-  } catch (error) {
-    console.warn('[db] failed to remove media directory', { deckId, error });
+  for (const id of deckIds) {
+    const mediaDir = path.join(app.getPath('userData'), 'media', String(id));
+    try {
+      await fs.remove(mediaDir);
+    } catch (error) {
+      console.warn('[db] failed to remove media directory', { deckId: id, error });
+    }
+  }
+}
+
+export const NEW_CARD_ORDERS: readonly NewCardOrder[] = ['due', 'random', 'tag', 'frequency'];
+export const REVIEW_ORDERS: readonly ReviewOrder[] = ['due', 'overdueness', 'retrievability'];
+
+// ORDER BY clauses for the new-card queue; cards without the sort key go last
+const NEW_CARD_ORDER_SQL: Record<NewCardOrder, string> = {
+  due: 'c.new_position IS NULL, c.new_position ASC, c.id ASC',
+  random: 'RANDOM()',
+  tag: `json_extract(n.tags_json, '$[0]') IS NULL, json_extract(n.tags_json, '$[0]') ASC,
+    c.new_position IS NULL, c.new_position ASC, c.id ASC`,
+  frequency:
+    'c.frequency_rank IS NULL, c.frequency_rank ASC, c.new_position IS NULL, c.new_position ASC, c.id ASC',
+};
+
+// Elapsed time over stability (or the last interval for classic cards). Recall
+// probability falls monotonically as this grows, so sorting on the ratio
+// avoids evaluating the forgetting curve in SQL.
+const ELAPSED_OVER_STABILITY_SQL = `
+  (@now - COALESCE(r.last_review_ts, r.due_ts - MAX(r.ivl_days, 1) * 86400000)) * 1.0
+  / (CASE WHEN @useStability AND r.stability > 0 THEN r.stability ELSE MAX(r.ivl_days, 1) END * 86400000)
+`;
+
+// Learning cards keep their minute-scale steps ahead of reordered reviews
+const REVIEW_ORDER_SQL: Record<ReviewOrder, string> = {
+  due: 'r.due_ts ASC, c.id ASC',
+  overdueness:
+    'r.learning_stage > 0 DESC, (@now - r.due_ts) * 1.0 / (MAX(r.ivl_days, 1) * 86400000) DESC, c.id ASC',
+  retrievability: `r.learning_stage > 0 DESC, ${ELAPSED_OVER_STABILITY_SQL} DESC, c.id ASC`,
+};
+
+function getDeckQueueOrder(deckId: number) {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `SELECT p.new_card_order AS newCardOrder, p.review_order AS reviewOrder, d.scheduler AS scheduler
+       FROM decks d JOIN deck_presets p ON p.id = d.preset_id
+       WHERE d.id = ?`,
+    )
+    .get(deckId) as
+    | { newCardOrder: NewCardOrder; reviewOrder: ReviewOrder; scheduler: SchedulerAlgorithm }
+    | undefined;
+  return {
+    newOrderSql: NEW_CARD_ORDER_SQL[row?.newCardOrder ?? 'due'] ?? NEW_CARD_ORDER_SQL.due,
+    reviewOrderSql: REVIEW_ORDER_SQL[row?.reviewOrder ?? 'due'] ?? REVIEW_ORDER_SQL.due,
+    useStability: row?.scheduler === 'fsrs' ? 1 : 0,
+  };
+}
+
+const DAILY_LIMIT_COLUMNS = {
+  new: { cap: 'p.new_per_day', done: 'new_shown' },
+  review: { cap: 'p.reviews_per_day', done: 'reviews_done' },
+} as const;
+
+/**
+ * Decks in the subtree of `deckId` that may still show new cards (or
+ * day-scale reviews) of `kind` today. A deck's limit covers its subdecks, so
+ * a deck is open only while it and every deck above it, up to `deckId`, have
+ * some of their limit left.
+ */
+function getOpenDeckIds(
+  database: Database.Database,
+  deckId: number,
+  kind: CardKind,
+  limit: keyof typeof DAILY_LIMIT_COLUMNS,
+): number[] {
+  const columns = DAILY_LIMIT_COLUMNS[limit];
+  const rows = database
+    .prepare(
+      `
+      SELECT d.id, d.parent_id AS parentId, ${columns.cap} AS cap, COALESCE(s.${columns.done}, 0) AS done
+      FROM decks d
+      JOIN deck_presets p ON p.id = d.preset_id
+      LEFT JOIN daily_stats s ON s.deck_id = d.id AND s.kind = @kind AND s.date_ymd = @date
+      WHERE d.id IN (${DECK_SUBTREE_SQL})
+    `,
+    )
+    .all({ deckId, kind, date: todayYMD() }) as Array<{
+    id: number;
+    parentId: number | null;
+    cap: number;
+    done: number;
+  }>;
+
+  const children = new Map<number, typeof rows>();
+  for (const row of rows) {
+    if (row.parentId === null || row.id === deckId) continue;
+    children.set(row.parentId, [...(children.get(row.parentId) ?? []), row]);
   }
+  const doneInSubtree = (row: (typeof rows)[number]): number =>
+    (children.get(row.id) ?? []).reduce((total, child) => total + doneInSubtree(child), row.done);
+
+  const open: number[] = [];
+  const visit = (row: (typeof rows)[number]) => {
+    if (doneInSubtree(row) >= row.cap) return;
+    open.push(row.id);
+    (children.get(row.id) ?? []).forEach(visit);
+  };
+  const root = rows.find((row) => row.id === deckId);
+  if (root) visit(root);
+  return open;
 }
 
 export function getNextReviewCard(deckId: number): CardForReview | null {
   const database = getDatabase();
   const now = Date.now();
-  const cap = getDeckDailyNewCap(deckId);
-  const newShown = getNewShownToday(deckId);
-  const canShowNew = newShown < cap;
+  const { newOrderSql, reviewOrderSql, useStability } = getDeckQueueOrder(deckId);
+  // Learning steps are always shown; new cards and day-scale reviews only come
+  // from decks whose daily limits, and those of the decks above them, are not used up
+  const newDeckIds = getOpenDeckIds(database, deckId, 'vocab', 'new');
+  const reviewDeckIds = JSON.stringify(getOpenDeckIds(database, deckId, 'vocab', 'review'));
 
   // 1) Learning/review due now
   const dueStmt = database.prepare(`
@@ -264,6 +908,7 @@ export function getNextReviewCard(deckId: number): CardForReview | null {
       c.id AS id,
       c.front_html AS frontHtml,
       c.back_html AS backHtml,
+      NULLIF(t.css, '') AS css,
       c.audio_refs_json AS audioRefs,
       c.target_lexeme AS targetLexeme,
       c.lang AS lang,
@@ -273,30 +918,37 @@ export function getNextReviewCard(deckId: number): CardForReview | null {
       r.ivl_days AS ivlDays,
       r.ease AS ease,
       r.reps AS reps,
-      r.lapses AS lapses
+      r.lapses AS lapses,
+      c.flag AS flag
     FROM cards c
     JOIN notes n ON n.id = c.note_id
+    LEFT JOIN note_types t ON t.id = n.note_type_id
     JOIN reviews r ON r.card_id = c.id
-    WHERE n.deck_id = @deckId
+    WHERE n.deck_id IN (${DECK_SUBTREE_SQL})
       AND r.suspended = 0
+      AND COALESCE(r.buried_until, 0) <= @now
       AND r.due_ts <= @now
-      AND (r.learning_stage > 0 OR r.reps > 0)
+      AND (
+        r.learning_stage > 0
+        OR (r.reps > 0 AND n.deck_id IN (SELECT value FROM json_each(@reviewDeckIds)))
+      )
       AND c.kind = 'vocab'
-    ORDER BY r.due_ts ASC, c.id ASC
+    ORDER BY ${reviewOrderSql}
     LIMIT 1
   `);
 
-  let row = dueStmt.get({ deckId, now }) as
+  let row = dueStmt.get({ deckId, now, reviewDeckIds, useStability }) as
     | (Omit<CardForReview, 'audioRefs'> & { audioRefs: string })
     | undefined;
 
-  if (!row && canShowNew) {
+  if (!row && newDeckIds.length > 0) {
     // 2) New card (reps = 0), subject to daily cap
     const newStmt = database.prepare(`
       SELECT
         c.id AS id,
         c.front_html AS frontHtml,
         c.back_html AS backHtml,
+        NULLIF(t.css, '') AS css,
         c.audio_refs_json AS audioRefs,
         c.target_lexeme AS targetLexeme,
         c.lang AS lang,
@@ -306,18 +958,21 @@ export function getNextReviewCard(deckId: number): CardForReview | null {
         r.ivl_days AS ivlDays,
         r.ease AS ease,
         r.reps AS reps,
-        r.lapses AS lapses
+        r.lapses AS lapses,
+        c.flag AS flag
       FROM cards c
       JOIN notes n ON n.id = c.note_id
+      LEFT JOIN note_types t ON t.id = n.note_type_id
       JOIN reviews r ON r.card_id = c.id
-      WHERE n.deck_id = @deckId
+      WHERE n.deck_id IN (SELECT value FROM json_each(@newDeckIds))
         AND r.suspended = 0
+        AND COALESCE(r.buried_until, 0) <= @now
         AND r.reps = 0
         AND c.kind = 'vocab'
-      ORDER BY RANDOM()
+      ORDER BY ${newOrderSql}
       LIMIT 1
     `);
-    row = newStmt.get({ deckId }) as
+    row = newStmt.get({ newDeckIds: JSON.stringify(newDeckIds), now }) as
       | (Omit<CardForReview, 'audioRefs'> & { audioRefs: string })
       | undefined;
   }
@@ -330,6 +985,44 @@ export function getNextReviewCard(deckId: number): CardForReview | null {
   };
 }
 
+export function getReviewCardById(cardId: number): CardForReview | null {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT
+        c.id AS id,
+        c.front_html AS frontHtml,
+        c.back_html AS backHtml,
+        NULLIF(t.css, '') AS css,
+        c.audio_refs_json AS audioRefs,
+        c.target_lexeme AS targetLexeme,
+        c.lang AS lang,
+        c.pos AS pos,
+        c.sense_hint AS senseHint,
+        r.due_ts AS dueTs,
+        r.ivl_days AS ivlDays,
+        r.ease AS ease,
+        r.reps AS reps,
+        r.lapses AS lapses,
+        c.flag AS flag
+      FROM cards c
+      JOIN notes n ON n.id = c.note_id
+      LEFT JOIN note_types t ON t.id = n.note_type_id
+      JOIN reviews r ON r.card_id = c.id
+      WHERE c.id = ? AND c.kind = 'vocab'
+    `,
+    )
+    .get(cardId) as (Omit<CardForReview, 'audioRefs'> & { audioRefs: string }) | undefined;
+
+  if (!row) return null;
+
+  return {
+    ...row,
+    audioRefs: JSON.parse(row.audioRefs) as string[],
+  };
+}
+
 function parseCodingExtra(
   extraJson: string,
   fallback: { prompt: string; code: string; expected: string },
@@ -357,9 +1050,26 @@ function parseCodingExtra(
   }
 }
 
+type CodingCardRow = {
+  id: number;
+  deckId: number;
+  frontHtml: string;
+  backHtml: string;
+  extraJson: string;
+  dueTs: number;
+  ivlDays: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  flag: number;
+};
+
 export function getNextCodingCard(deckId: number): CodingCardForReview | null {
   const database = getDatabase();
   const now = Date.now();
+  const { newOrderSql, reviewOrderSql, useStability } = getDeckQueueOrder(deckId);
+  const newDeckIds = getOpenDeckIds(database, deckId, 'coding', 'new');
+  const reviewDeckIds = JSON.stringify(getOpenDeckIds(database, deckId, 'coding', 'review'));
 
   const dueStmt = database.prepare(`
     SELECT
@@ -372,35 +1082,27 @@ export function getNextCodingCard(deckId: number): CodingCardForReview | null {
       r.ivl_days AS ivlDays,
       r.ease AS ease,
       r.reps AS reps,
-      r.lapses AS lapses
+      r.lapses AS lapses,
+      c.flag AS flag
     FROM cards c
     JOIN notes n ON n.id = c.note_id
     JOIN reviews r ON r.card_id = c.id
-    WHERE n.deck_id = @deckId
+    WHERE n.deck_id IN (${DECK_SUBTREE_SQL})
       AND c.kind = 'coding'
       AND r.suspended = 0
+      AND COALESCE(r.buried_until, 0) <= @now
       AND r.due_ts <= @now
-      AND (r.learning_stage > 0 OR r.reps > 0)
-    ORDER BY r.due_ts ASC, c.id ASC
+      AND (
+        r.learning_stage > 0
+        OR (r.reps > 0 AND n.deck_id IN (SELECT value FROM json_each(@reviewDeckIds)))
+      )
+    ORDER BY ${reviewOrderSql}
     LIMIT 1
   `);
 
-  let row = dueStmt.get({ deckId, now }) as
-    | {
-        id: number;
-        deckId: number;
-        frontHtml: string;
-        backHtml: string;
-        extraJson: string;
-        dueTs: number;
-        ivlDays: number;
-        ease: number;
-        reps: number;
-        lapses: number;
-      }
-    | undefined;
+  let row = dueStmt.get({ deckId, now, reviewDeckIds, useStability }) as CodingCardRow | undefined;
 
-  if (!row) {
+  if (!row && newDeckIds.length > 0) {
     const newStmt = database.prepare(`
       SELECT
         c.id AS id,
@@ -412,35 +1114,56 @@ export function getNextCodingCard(deckId: number): CodingCardForReview | null {
         r.ivl_days AS ivlDays,
         r.ease AS ease,
         r.reps AS reps,
-        r.lapses AS lapses
+        r.lapses AS lapses,
+        c.flag AS flag
       FROM cards c
       JOIN notes n ON n.id = c.note_id
       JOIN reviews r ON r.card_id = c.id
-      WHERE n.deck_id = @deckId
+      WHERE n.deck_id IN (SELECT value FROM json_each(@newDeckIds))
         AND c.kind = 'coding'
         AND r.suspended = 0
+        AND COALESCE(r.buried_until, 0) <= @now
         AND r.reps = 0
-      ORDER BY RANDOM()
+      ORDER BY ${newOrderSql}
       LIMIT 1
     `);
-    row = newStmt.get({ deckId }) as
-      | {
-          id: number;
-          deckId: number;
-          frontHtml: string;
-          backHtml: string;
-          extraJson: string;
-          dueTs: number;
-          ivlDays: number;
-          ease: number;
-          reps: number;
-          lapses: number;
-        }
-      | undefined;
+    row = newStmt.get({ newDeckIds: JSON.stringify(newDeckIds), now }) as CodingCardRow | undefined;
   }
 
   if (!row) return null;
 
+  return toCodingCard(row);
+}
+
+export function getCodingCardById(cardId: number): CodingCardForReview | null {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT
+        c.id AS id,
+        n.deck_id AS deckId,
+        c.front_html AS frontHtml,
+        c.back_html AS backHtml,
+        c.extra_json AS extraJson,
+        r.due_ts AS dueTs,
+        r.ivl_days AS ivlDays,
+        r.ease AS ease,
+        r.reps AS reps,
+        r.lapses AS lapses,
+        c.flag AS flag
+      FROM cards c
+      JOIN notes n ON n.id = c.note_id
+      JOIN reviews r ON r.card_id = c.id
+      WHERE c.id = ? AND c.kind = 'coding'
+    `,
+    )
+    .get(cardId) as CodingCardRow | undefined;
+
+  return row ? toCodingCard(row) : null;
+}
+
+function toCodingCard(row: CodingCardRow): CodingCardForReview {
   const fallback = {
     prompt: row.frontHtml.replace(/<[^>]*>/g, '').trim(),
     code: row.frontHtml.replace(/<[^>]*>/g, '').trim(),
@@ -461,6 +1184,7 @@ export function getNextCodingCard(deckId: number): CodingCardForReview | null {
     ease: row.ease,
     reps: row.reps,
     lapses: row.lapses,
+    flag: row.flag,
   };
 }
 
@@ -495,13 +1219,24 @@ export function insertAttempt(params: {
   verdict: string;
   feedback: string;
   example?: string | null;
+  scores?: { form: number; mechanics: number; grammar: number } | null;
+  qualityScores?: { style: number; sophistication: number; naturalness: number } | null;
+  quickTip?: string | null;
 }) {
   const database = getDatabase();
   database
     .prepare(
       `
-      INSERT INTO attempts (card_id, when_ts, step, sentence, verdict, feedback, example)
-      VALUES (@cardId, @whenTs, @step, @sentence, @verdict, @feedback, @example)
+      INSERT INTO attempts (
+        card_id, when_ts, step, sentence, verdict, feedback, example,
+        form_score, mechanics_score, grammar_score,
+        style_score, sophistication_score, naturalness_score, quick_tip
+      )
+      VALUES (
+        @cardId, @whenTs, @step, @sentence, @verdict, @feedback, @example,
+        @formScore, @mechanicsScore, @grammarScore,
+        @styleScore, @sophisticationScore, @naturalnessScore, @quickTip
+      )
     `,
     )
     .run({
@@ -512,6 +1247,13 @@ export function insertAttempt(params: {
       verdict: params.verdict,
       feedback: params.feedback,
       example: params.example ?? null,
+      formScore: params.scores?.form ?? null,
+      mechanicsScore: params.scores?.mechanics ?? null,
+      grammarScore: params.scores?.grammar ?? null,
+      styleScore: params.qualityScores?.style ?? null,
+      sophisticationScore: params.qualityScores?.sophistication ?? null,
+      naturalnessScore: params.qualityScores?.naturalness ?? null,
+      quickTip: params.quickTip ?? null,
     });
 }
 
@@ -525,6 +1267,9 @@ export interface ReviewUpdate {
   learningStage?: number;
   difficulty?: number;
   suspended?: number;
+  stability?: number;
+  fsrsDifficulty?: number;
+  lastReviewTs?: number | null;
 }
 
 export function updateReviewState(update: ReviewUpdate) {
@@ -540,32 +1285,236 @@ export function updateReviewState(update: ReviewUpdate) {
           lapses = @lapses,
           learning_stage = COALESCE(@learningStage, learning_stage),
           difficulty = COALESCE(@difficulty, difficulty),
-          suspended = COALESCE(@suspended, suspended)
+          suspended = COALESCE(@suspended, suspended),
+          stability = COALESCE(@stability, stability),
+          fsrs_difficulty = COALESCE(@fsrsDifficulty, fsrs_difficulty),
+          last_review_ts = COALESCE(@lastReviewTs, last_review_ts)
       WHERE card_id = @cardId
     `,
     )
-    .run(update);
+    .run({
+      learningStage: null,
+      difficulty: null,
+      suspended: null,
+      stability: null,
+      fsrsDifficulty: null,
+      lastReviewTs: null,
+      ...update,
+    });
 }
 
-export interface ReviewState {
-  due_ts: number;
-  ivl_days: number;
+export interface RevlogEntry {
+  cardId: number;
+  reviewTs: number;
+  rating: number;
+  reviewType: ReviewType;
+  source: RatingSource;
+  prevIvlDays: number;
+  ivlDays: number;
+  prevEase: number;
   ease: number;
-  reps: number;
-  lapses: number;
-  learning_stage: number;
+  prevDifficulty: number;
   difficulty: number;
-  suspended: number;
+  prevDueTs: number;
+  dueTs: number;
+  timeMs: number;
+  prevState: ReviewState;
+  newShownDate: string | null;
+  reviewCountedDate: string | null;
+  buriedSiblingIds: number[];
+  becameLeech: boolean;
 }
 
-export function getReviewState(cardId: number): ReviewState {
-  const database = getDatabase();
-  const row = database
-    .prepare(
-      `
-      SELECT due_ts, ivl_days, ease, reps, lapses, learning_stage, difficulty, suspended
-      FROM reviews
-      WHERE card_id = ?
+export type ImportedRevlogEntry = Omit<
+  RevlogEntry,
+  'source' | 'prevState' | 'newShownDate' | 'reviewCountedDate' | 'buriedSiblingIds' | 'becameLeech'
+>;
+
+/**
+ * Adds review history from another app. The entries carry no previous state,
+ * so they cannot be undone, and they do not count towards today's limits.
+ */
+export function insertImportedRevlog(
+  database: Database.Database,
+  entries: ImportedRevlogEntry[],
+): number {
+  const insert = database.prepare(
+    `
+      INSERT INTO revlog (
+        card_id, review_ts, rating, review_type, source,
+        prev_ivl_days, ivl_days, prev_ease, ease, prev_difficulty, difficulty,
+        prev_due_ts, due_ts, time_ms
+      )
+      VALUES (
+        @cardId, @reviewTs, @rating, @reviewType, 'manual',
+        @prevIvlDays, @ivlDays, @prevEase, @ease, @prevDifficulty, @difficulty,
+        @prevDueTs, @dueTs, @timeMs
+      )
+    `,
+  );
+  for (const entry of entries) {
+    insert.run(entry);
+  }
+  return entries.length;
+}
+
+export function insertRevlogEntry(database: Database.Database, entry: RevlogEntry): number {
+  const result = database
+    .prepare(
+      `
+      INSERT INTO revlog (
+        card_id, review_ts, rating, review_type, source,
+        prev_ivl_days, ivl_days, prev_ease, ease, prev_difficulty, difficulty,
+        prev_due_ts, due_ts, time_ms, prev_state_json, new_shown_date, review_counted_date,
+        buried_siblings_json, became_leech
+      )
+      VALUES (
+        @cardId, @reviewTs, @rating, @reviewType, @source,
+        @prevIvlDays, @ivlDays, @prevEase, @ease, @prevDifficulty, @difficulty,
+        @prevDueTs, @dueTs, @timeMs, @prevStateJson, @newShownDate, @reviewCountedDate,
+        @buriedSiblingsJson, @becameLeech
+      )
+    `,
+    )
+    .run({
+      cardId: entry.cardId,
+      reviewTs: entry.reviewTs,
+      rating: entry.rating,
+      reviewType: entry.reviewType,
+      source: entry.source,
+      prevIvlDays: entry.prevIvlDays,
+      ivlDays: entry.ivlDays,
+      prevEase: entry.prevEase,
+      ease: entry.ease,
+      prevDifficulty: entry.prevDifficulty,
+      difficulty: entry.difficulty,
+      prevDueTs: entry.prevDueTs,
+      dueTs: entry.dueTs,
+      timeMs: entry.timeMs,
+      prevStateJson: JSON.stringify(entry.prevState),
+      newShownDate: entry.newShownDate,
+      reviewCountedDate: entry.reviewCountedDate,
+      buriedSiblingsJson:
+        entry.buriedSiblingIds.length > 0 ? JSON.stringify(entry.buriedSiblingIds) : null,
+      becameLeech: entry.becameLeech ? 1 : 0,
+    });
+
+  return Number(result.lastInsertRowid);
+}
+
+export interface UndoableRevlog {
+  id: number;
+  cardId: number;
+  prevState: ReviewState | null;
+  newShownDate: string | null;
+  reviewCountedDate: string | null;
+  buriedSiblingIds: number[];
+  becameLeech: boolean;
+  isLatest: boolean;
+}
+
+export function getUndoableRevlog(revlogId: number): UndoableRevlog | null {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT
+        r.id,
+        r.card_id AS cardId,
+        r.prev_state_json AS prevStateJson,
+        r.new_shown_date AS newShownDate,
+        r.review_counted_date AS reviewCountedDate,
+        r.buried_siblings_json AS buriedSiblingsJson,
+        r.became_leech AS becameLeech,
+        NOT EXISTS (
+          SELECT 1 FROM revlog later
+          WHERE later.card_id = r.card_id
+            AND (later.review_ts > r.review_ts OR (later.review_ts = r.review_ts AND later.id > r.id))
+        ) AS isLatest
+      FROM revlog r
+      WHERE r.id = ?
+    `,
+    )
+    .get(revlogId) as
+    | {
+        id: number;
+        cardId: number;
+        prevStateJson: string | null;
+        newShownDate: string | null;
+        reviewCountedDate: string | null;
+        buriedSiblingsJson: string | null;
+        becameLeech: number;
+        isLatest: number;
+      }
+    | undefined;
+
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    cardId: row.cardId,
+    prevState: row.prevStateJson ? (JSON.parse(row.prevStateJson) as ReviewState) : null,
+    newShownDate: row.newShownDate,
+    reviewCountedDate: row.reviewCountedDate,
+    buriedSiblingIds: row.buriedSiblingsJson
+      ? (JSON.parse(row.buriedSiblingsJson) as number[])
+      : [],
+    becameLeech: Boolean(row.becameLeech),
+    isLatest: Boolean(row.isLatest),
+  };
+}
+
+export function deleteRevlogEntry(revlogId: number) {
+  const database = getDatabase();
+  database.prepare('DELETE FROM revlog WHERE id = ?').run(revlogId);
+}
+
+export function restoreReviewState(cardId: number, state: ReviewState) {
+  const database = getDatabase();
+  database
+    .prepare(
+      `
+      UPDATE reviews
+      SET due_ts = @due_ts,
+          ivl_days = @ivl_days,
+          ease = @ease,
+          reps = @reps,
+          lapses = @lapses,
+          learning_stage = @learning_stage,
+          difficulty = @difficulty,
+          suspended = @suspended,
+          stability = @stability,
+          fsrs_difficulty = @fsrs_difficulty,
+          last_review_ts = @last_review_ts
+      WHERE card_id = @cardId
+    `,
+    )
+    .run({ ...state, cardId });
+}
+
+export interface ReviewState {
+  due_ts: number;
+  ivl_days: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  learning_stage: number;
+  difficulty: number;
+  suspended: number;
+  stability: number;
+  fsrs_difficulty: number;
+  last_review_ts: number | null;
+}
+
+export function getReviewState(cardId: number): ReviewState {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT due_ts, ivl_days, ease, reps, lapses, learning_stage, difficulty, suspended,
+             stability, fsrs_difficulty, last_review_ts
+      FROM reviews
+      WHERE card_id = ?
     `,
     )
     .get(cardId) as ReviewState | undefined;
@@ -577,11 +1526,37 @@ export function getReviewState(cardId: number): ReviewState {
   return row;
 }
 
-export function attachReviewRow(cardId: number, database: Database.Database) {
+export interface ReviewRowState {
+  dueTs: number;
+  ivlDays: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  difficulty: number;
+  learningStage: number;
+  suspended: boolean;
+  stability: number;
+  fsrsDifficulty: number;
+  lastReviewTs: number | null;
+  buriedUntil: number | null;
+}
+
+/** Creates a card's review row; new cards are due now unless `state` carries progress over. */
+export function attachReviewRow(
+  cardId: number,
+  database: Database.Database,
+  state?: ReviewRowState,
+) {
   const insert = database.prepare(
     `
-      INSERT OR IGNORE INTO reviews (card_id, due_ts, ivl_days, ease, reps, lapses, difficulty, learning_stage, suspended)
-      VALUES (@cardId, @dueTs, @ivlDays, @ease, @reps, @lapses, @difficulty, @learningStage, @suspended)
+      INSERT OR IGNORE INTO reviews (
+        card_id, due_ts, ivl_days, ease, reps, lapses, difficulty, learning_stage, suspended,
+        stability, fsrs_difficulty, last_review_ts, buried_until
+      )
+      VALUES (
+        @cardId, @dueTs, @ivlDays, @ease, @reps, @lapses, @difficulty, @learningStage, @suspended,
+        @stability, @fsrsDifficulty, @lastReviewTs, @buriedUntil
+      )
     `,
   );
 
@@ -594,45 +1569,131 @@ export function attachReviewRow(cardId: number, database: Database.Database) {
     lapses: 0,
     difficulty: 0.5,
     learningStage: 0,
-    suspended: 0,
+    stability: 0,
+    fsrsDifficulty: 0,
+    lastReviewTs: null,
+    buriedUntil: null,
+    ...state,
+    suspended: state?.suspended ? 1 : 0,
   });
 }
 
 export interface NewDeckArgs {
   name: string;
   sourcePath?: string | null;
+  parentId?: number | null;
 }
 
 export function insertDeck(database: Database.Database, args: NewDeckArgs): number {
   const result = database
     .prepare(
       `
-      INSERT INTO decks (name, source_path, imported_at)
-      VALUES (@name, @sourcePath, @importedAt)
+      INSERT INTO decks (name, source_path, imported_at, parent_id)
+      VALUES (@name, @sourcePath, @importedAt, @parentId)
     `,
     )
     .run({
       name: args.name,
       sourcePath: args.sourcePath ?? null,
       importedAt: Date.now(),
+      parentId: args.parentId ?? null,
     });
 
   return Number(result.lastInsertRowid);
 }
 
+export function findDeckByName(database: Database.Database, name: string): number | null {
+  const row = database.prepare('SELECT id FROM decks WHERE name = ?').get(name) as
+    | { id: number }
+    | undefined;
+  return row?.id ?? null;
+}
+
+/** The file each of the named decks was imported from; null for decks made here. */
+export function getDeckSources(
+  database: Database.Database,
+  names: string[],
+): Map<string, string | null> {
+  const rows = database
+    .prepare(
+      `SELECT name, source_path AS sourcePath FROM decks
+       WHERE name IN (SELECT value FROM json_each(?))`,
+    )
+    .all(JSON.stringify(names)) as Array<{ name: string; sourcePath: string | null }>;
+  return new Map(rows.map((row) => [row.name, row.sourcePath]));
+}
+
+/**
+ * Finds or creates every deck along a `Parent::Child` path and returns the
+ * id of the last one.
+ */
+export function ensureDeckPath(database: Database.Database, args: NewDeckArgs): number {
+  const parts = args.name.split('::').map((part) => part.trim());
+  if (parts.some((part) => !part)) {
+    throw new Error(`"${args.name}" is not a valid deck name.`);
+  }
+
+  let parentId: number | null = null;
+  for (let depth = 1; depth <= parts.length; depth += 1) {
+    const name = parts.slice(0, depth).join('::');
+    parentId = findDeckByName(database, name) ?? insertDeck(database, { ...args, name, parentId });
+  }
+  return parentId as number;
+}
+
+export interface NewNoteTypeArgs {
+  id: number;
+  name: string;
+  fieldNames: string[];
+  templates: CardTemplate[];
+  css?: string;
+  isCloze?: boolean;
+}
+
+export function insertNoteType(database: Database.Database, noteType: NewNoteTypeArgs) {
+  database
+    .prepare(
+      `
+      INSERT INTO note_types (id, name, fields_json, templates_json, css, is_cloze)
+      VALUES (@id, @name, @fieldsJson, @templatesJson, @css, @isCloze)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        fields_json = excluded.fields_json,
+        templates_json = excluded.templates_json,
+        css = excluded.css,
+        is_cloze = excluded.is_cloze
+    `,
+    )
+    .run({
+      id: noteType.id,
+      name: noteType.name,
+      fieldsJson: JSON.stringify(noteType.fieldNames),
+      templatesJson: JSON.stringify(noteType.templates),
+      css: noteType.css ?? '',
+      isCloze: noteType.isCloze ? 1 : 0,
+    });
+}
+
 export interface NewNoteArgs {
   id: number;
   deckId: number;
   fields: unknown[];
   tags: string[];
+  noteTypeId?: number | null;
+  guid?: string | null; // Anki's note guid, for imported notes
+  importSource?: string | null; // file name of the package it came from
 }
 
 export function insertNote(database: Database.Database, note: NewNoteArgs) {
   database
     .prepare(
       `
-      INSERT OR REPLACE INTO notes (id, deck_id, fields_json, tags_json)
-      VALUES (@id, @deckId, @fieldsJson, @tagsJson)
+      INSERT INTO notes (
+        id, deck_id, fields_json, tags_json, note_type_id, guid, source_fields_json, import_source
+      )
+      VALUES (
+        @id, @deckId, @fieldsJson, @tagsJson, @noteTypeId, @guid, @sourceFieldsJson, @importSource
+      )
     `,
     )
     .run({
@@ -640,6 +1701,10 @@ export function insertNote(database: Database.Database, note: NewNoteArgs) {
       deckId: note.deckId,
       fieldsJson: JSON.stringify(note.fields),
       tagsJson: JSON.stringify(note.tags),
+      noteTypeId: note.noteTypeId ?? null,
+      guid: note.guid ?? null,
+      sourceFieldsJson: note.guid ? JSON.stringify(note.fields) : null,
+      importSource: note.importSource ?? null,
     });
 }
 
@@ -655,14 +1720,17 @@ export interface NewCardArgs {
   senseHint?: string | null;
   kind?: CardKind;
   extra?: Record<string, unknown> | null;
+  newPosition?: number | null;
+  frequencyRank?: number | null;
+  templateOrd?: number;
 }
 
 export function insertCard(database: Database.Database, card: NewCardArgs) {
   database
     .prepare(
       `
-      INSERT OR REPLACE INTO cards (id, note_id, front_html, back_html, audio_refs_json, target_lexeme, lang, pos, sense_hint, kind, extra_json)
-      VALUES (@id, @noteId, @frontHtml, @backHtml, @audioRefsJson, @targetLexeme, @lang, @pos, @senseHint, @kind, @extraJson)
+      INSERT INTO cards (id, note_id, front_html, back_html, audio_refs_json, target_lexeme, lang, pos, sense_hint, kind, extra_json, new_position, frequency_rank, template_ord)
+      VALUES (@id, @noteId, @frontHtml, @backHtml, @audioRefsJson, @targetLexeme, @lang, @pos, @senseHint, @kind, @extraJson, @newPosition, @frequencyRank, @templateOrd)
     `,
     )
     .run({
@@ -677,6 +1745,9 @@ export function insertCard(database: Database.Database, card: NewCardArgs) {
       senseHint: card.senseHint ?? null,
       kind: card.kind ?? 'vocab',
       extraJson: JSON.stringify(card.extra ?? {}),
+      newPosition: card.newPosition ?? null,
+      frequencyRank: card.frequencyRank ?? null,
+      templateOrd: card.templateOrd ?? 0,
     });
 }
 
@@ -686,53 +1757,1067 @@ export function runInTransaction<T>(fn: (database: Database.Database) => T): T {
   return trx();
 }
 
-// Daily new-card cap helpers
-function todayYMD(): string {
-  const d = new Date();
+export function getDayRolloverHour(): number {
+  const database = getDatabase();
+  const row = database
+    .prepare("SELECT value FROM settings WHERE key = 'day_rollover_hour'")
+    .get() as { value: string } | undefined;
+  return row ? Number(row.value) : DEFAULT_DAY_ROLLOVER_HOUR;
+}
+
+export function setDayRolloverHour(hour: number) {
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error('The next day must start at a whole hour between 0 and 23.');
+  }
+  const database = getDatabase();
+  database
+    .prepare(
+      `INSERT INTO settings (key, value) VALUES ('day_rollover_hour', @value)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    )
+    .run({ value: String(hour) });
+}
+
+export function getLoadBalancing(): boolean {
+  const database = getDatabase();
+  const row = database.prepare("SELECT value FROM settings WHERE key = 'load_balancing'").get() as
+    | { value: string }
+    | undefined;
+  return row ? row.value === '1' : false;
+}
+
+export function setLoadBalancing(enabled: boolean) {
+  const database = getDatabase();
+  database
+    .prepare(
+      `INSERT INTO settings (key, value) VALUES ('load_balancing', @value)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    )
+    .run({ value: enabled ? '1' : '0' });
+}
+
+// Daily cap helpers. A study day starts at the rollover hour rather than at
+// midnight, so a late-night session stays on the same day.
+export function todayYMD(): string {
+  const d = new Date(Date.now() - getDayRolloverHour() * ONE_HOUR_MS);
   const y = d.getFullYear();
   const m = String(d.getMonth() + 1).padStart(2, '0');
   const day = String(d.getDate()).padStart(2, '0');
   return `${y}-${m}-${day}`;
 }
 
-export function getDeckDailyNewCap(deckId: number): number {
-  const database = getDatabase();
-  const row = database
-    .prepare('SELECT daily_new_cap AS cap FROM decks WHERE id = ?')
-    .get(deckId) as { cap?: number } | undefined;
-  return row?.cap ?? 20;
+/** Start of the next study day, honouring the rollover hour. */
+export function nextDayStartTs(now: number = Date.now()): number {
+  const rolloverHour = getDayRolloverHour();
+  const day = new Date(now - rolloverHour * ONE_HOUR_MS);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, rolloverHour).getTime();
+}
+
+/**
+ * Day-scale reviews due across all decks on each of `days` consecutive study
+ * days, starting with the one that contains `fromTs`. Feeds load balancing.
+ */
+export function getReviewLoad(fromTs: number, days: number): number[] {
+  const startTs = nextDayStartTs(fromTs) - ONE_DAY_MS;
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT CAST((due_ts - @startTs) / ${ONE_DAY_MS} AS INTEGER) AS day, COUNT(*) AS count
+      FROM reviews
+      WHERE suspended = 0 AND learning_stage = 0 AND reps > 0
+        AND due_ts >= @startTs AND due_ts < @endTs
+      GROUP BY day
+    `,
+    )
+    .all({ startTs, endTs: startTs + days * ONE_DAY_MS }) as Array<{ day: number; count: number }>;
+
+  const load = new Array<number>(days).fill(0);
+  for (const row of rows) {
+    load[row.day] = row.count;
+  }
+  return load;
+}
+
+export interface BuryOptions {
+  buryNew: boolean;
+  buryReviews: boolean;
+  buryLearning: boolean;
+}
+
+/**
+ * Buries the other cards of a card's note until the next study day, limited
+ * to the queues enabled in `options`. Returns the ids it buried; siblings
+ * that were already buried are left alone so undo can simply unbury these.
+ */
+export function burySiblings(
+  database: Database.Database,
+  cardId: number,
+  options: BuryOptions,
+  now: number = Date.now(),
+): number[] {
+  if (!options.buryNew && !options.buryReviews && !options.buryLearning) {
+    return [];
+  }
+  const rows = database
+    .prepare(
+      `
+      UPDATE reviews
+      SET buried_until = @until
+      WHERE card_id IN (
+          SELECT sibling.id
+          FROM cards card
+          JOIN cards sibling ON sibling.note_id = card.note_id AND sibling.id != card.id
+          WHERE card.id = @cardId
+        )
+        AND suspended = 0
+        AND COALESCE(buried_until, 0) <= @now
+        AND (
+          (@buryNew AND reps = 0 AND learning_stage = 0)
+          OR (@buryReviews AND reps > 0 AND learning_stage = 0)
+          OR (@buryLearning AND learning_stage > 0)
+        )
+      RETURNING card_id AS cardId
+    `,
+    )
+    .all({
+      cardId,
+      now,
+      until: nextDayStartTs(now),
+      buryNew: options.buryNew ? 1 : 0,
+      buryReviews: options.buryReviews ? 1 : 0,
+      buryLearning: options.buryLearning ? 1 : 0,
+    }) as Array<{ cardId: number }>;
+  return rows.map((row) => row.cardId);
+}
+
+export function unburyCards(cardIds: number[]) {
+  const database = getDatabase();
+  const unbury = database.prepare('UPDATE reviews SET buried_until = NULL WHERE card_id = ?');
+  for (const cardId of cardIds) {
+    unbury.run(cardId);
+  }
+}
+
+export interface DeckPreset {
+  id: number;
+  name: string;
+  learningSteps: number[]; // minutes
+  relearningSteps: number[]; // minutes
+  graduatingIvlDays: number;
+  easyIvlDays: number; // 0 = 2 + 2 × ease, as before presets
+  maxIvlDays: number;
+  newPerDay: number;
+  reviewsPerDay: number;
+  leechThreshold: number;
+  leechAction: LeechAction;
+  newCardOrder: NewCardOrder;
+  reviewOrder: ReviewOrder;
+  buryNew: boolean; // bury new siblings of a rated card until the next day
+  buryReviews: boolean;
+  buryLearning: boolean;
+  easyDays: number[]; // review load multiplier per weekday, Sunday first
+  deckCount: number;
+}
+
+type DeckPresetRow = Omit<
+  DeckPreset,
+  'learningSteps' | 'relearningSteps' | 'buryNew' | 'buryReviews' | 'buryLearning' | 'easyDays'
+> & {
+  learningStepsJson: string;
+  relearningStepsJson: string;
+  easyDaysJson: string;
+  buryNew: number;
+  buryReviews: number;
+  buryLearning: number;
+};
+
+const DECK_PRESET_COLUMNS = `
+  p.id AS id,
+  p.name AS name,
+  p.learning_steps_json AS learningStepsJson,
+  p.relearning_steps_json AS relearningStepsJson,
+  p.graduating_ivl_days AS graduatingIvlDays,
+  p.easy_ivl_days AS easyIvlDays,
+  p.max_ivl_days AS maxIvlDays,
+  p.new_per_day AS newPerDay,
+  p.reviews_per_day AS reviewsPerDay,
+  p.leech_threshold AS leechThreshold,
+  p.leech_action AS leechAction,
+  p.new_card_order AS newCardOrder,
+  p.review_order AS reviewOrder,
+  p.bury_new AS buryNew,
+  p.bury_reviews AS buryReviews,
+  p.bury_learning AS buryLearning,
+  p.easy_days_json AS easyDaysJson,
+  (SELECT COUNT(*) FROM decks d WHERE d.preset_id = p.id) AS deckCount
+`;
+
+function toDeckPreset(row: DeckPresetRow): DeckPreset {
+  const { learningStepsJson, relearningStepsJson, easyDaysJson, ...rest } = row;
+  return {
+    ...rest,
+    learningSteps: JSON.parse(learningStepsJson) as number[],
+    relearningSteps: JSON.parse(relearningStepsJson) as number[],
+    easyDays: JSON.parse(easyDaysJson) as number[],
+    buryNew: Boolean(row.buryNew),
+    buryReviews: Boolean(row.buryReviews),
+    buryLearning: Boolean(row.buryLearning),
+  };
+}
+
+export function listDeckPresets(): DeckPreset[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `SELECT ${DECK_PRESET_COLUMNS} FROM deck_presets p ORDER BY p.id = ${DEFAULT_PRESET_ID} DESC, p.name ASC`,
+    )
+    .all() as DeckPresetRow[];
+  return rows.map(toDeckPreset);
+}
+
+export function getDeckPreset(presetId: number): DeckPreset {
+  const database = getDatabase();
+  const row = database
+    .prepare(`SELECT ${DECK_PRESET_COLUMNS} FROM deck_presets p WHERE p.id = ?`)
+    .get(presetId) as DeckPresetRow | undefined;
+  if (!row) throw new Error(`Preset ${presetId} not found.`);
+  return toDeckPreset(row);
+}
+
+function validateSteps(label: string, steps: unknown) {
+  if (
+    !Array.isArray(steps) ||
+    steps.length === 0 ||
+    steps.some((step) => typeof step !== 'number' || !Number.isFinite(step) || step <= 0)
+  ) {
+    throw new Error(`${label} must be one or more positive numbers of minutes.`);
+  }
+}
+
+function validateWholeNumber(label: string, value: number, min: number, max: number) {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${label} must be a whole number between ${min} and ${max}.`);
+  }
+}
+
+export type DeckPresetInput = Omit<DeckPreset, 'id' | 'deckCount'>;
+
+function validatePreset(preset: DeckPresetInput) {
+  if (!preset.name.trim()) {
+    throw new Error('Preset name cannot be empty.');
+  }
+  validateSteps('Learning steps', preset.learningSteps);
+  validateSteps('Relearning steps', preset.relearningSteps);
+  validateWholeNumber('Maximum interval', preset.maxIvlDays, 1, 36_500);
+  validateWholeNumber('Graduating interval', preset.graduatingIvlDays, 1, preset.maxIvlDays);
+  validateWholeNumber('Easy interval', preset.easyIvlDays, 0, preset.maxIvlDays);
+  validateWholeNumber('New cards per day', preset.newPerDay, 0, 9999);
+  validateWholeNumber('Reviews per day', preset.reviewsPerDay, 0, 9999);
+  validateWholeNumber('Leech threshold', preset.leechThreshold, 1, 99);
+  if (!LEECH_ACTIONS.includes(preset.leechAction)) {
+    throw new Error(`Unknown leech action "${preset.leechAction}".`);
+  }
+  if (!NEW_CARD_ORDERS.includes(preset.newCardOrder)) {
+    throw new Error(`Unknown new card order "${preset.newCardOrder}".`);
+  }
+  if (!REVIEW_ORDERS.includes(preset.reviewOrder)) {
+    throw new Error(`Unknown review order "${preset.reviewOrder}".`);
+  }
+  if (
+    !Array.isArray(preset.easyDays) ||
+    preset.easyDays.length !== 7 ||
+    preset.easyDays.some((value) => !Number.isFinite(value) || value < 0 || value > 1)
+  ) {
+    throw new Error('Easy days need a multiplier between 0 and 1 for each day of the week.');
+  }
+  if (preset.easyDays.every((value) => value === 0)) {
+    throw new Error('At least one day of the week must allow reviews.');
+  }
+}
+
+function presetParams(preset: DeckPresetInput) {
+  return {
+    name: preset.name.trim(),
+    learningStepsJson: JSON.stringify(preset.learningSteps),
+    relearningStepsJson: JSON.stringify(preset.relearningSteps),
+    graduatingIvlDays: preset.graduatingIvlDays,
+    easyIvlDays: preset.easyIvlDays,
+    maxIvlDays: preset.maxIvlDays,
+    newPerDay: preset.newPerDay,
+    reviewsPerDay: preset.reviewsPerDay,
+    leechThreshold: preset.leechThreshold,
+    leechAction: preset.leechAction,
+    newCardOrder: preset.newCardOrder,
+    reviewOrder: preset.reviewOrder,
+    buryNew: preset.buryNew ? 1 : 0,
+    buryReviews: preset.buryReviews ? 1 : 0,
+    buryLearning: preset.buryLearning ? 1 : 0,
+    easyDaysJson: JSON.stringify(preset.easyDays),
+  };
+}
+
+export function createDeckPreset(preset: DeckPresetInput): number {
+  validatePreset(preset);
+  const database = getDatabase();
+  const result = database
+    .prepare(
+      `
+      INSERT INTO deck_presets (
+        name, learning_steps_json, relearning_steps_json, graduating_ivl_days, easy_ivl_days,
+        max_ivl_days, new_per_day, reviews_per_day, leech_threshold, leech_action,
+        new_card_order, review_order, bury_new, bury_reviews, bury_learning, easy_days_json
+      )
+      VALUES (
+        @name, @learningStepsJson, @relearningStepsJson, @graduatingIvlDays, @easyIvlDays,
+        @maxIvlDays, @newPerDay, @reviewsPerDay, @leechThreshold, @leechAction,
+        @newCardOrder, @reviewOrder, @buryNew, @buryReviews, @buryLearning, @easyDaysJson
+      )
+    `,
+    )
+    .run(presetParams(preset));
+  return Number(result.lastInsertRowid);
+}
+
+export function updateDeckPreset(presetId: number, preset: DeckPresetInput) {
+  validatePreset(preset);
+  const database = getDatabase();
+  const result = database
+    .prepare(
+      `
+      UPDATE deck_presets SET
+        name = @name,
+        learning_steps_json = @learningStepsJson,
+        relearning_steps_json = @relearningStepsJson,
+        graduating_ivl_days = @graduatingIvlDays,
+        easy_ivl_days = @easyIvlDays,
+        max_ivl_days = @maxIvlDays,
+        new_per_day = @newPerDay,
+        reviews_per_day = @reviewsPerDay,
+        leech_threshold = @leechThreshold,
+        leech_action = @leechAction,
+        new_card_order = @newCardOrder,
+        review_order = @reviewOrder,
+        bury_new = @buryNew,
+        bury_reviews = @buryReviews,
+        bury_learning = @buryLearning,
+        easy_days_json = @easyDaysJson
+      WHERE id = @presetId
+    `,
+    )
+    .run({ ...presetParams(preset), presetId });
+  if (result.changes === 0) {
+    throw new Error(`Preset ${presetId} not found.`);
+  }
+}
+
+/** Deletes a preset; decks using it fall back to the default preset. */
+export function deleteDeckPreset(presetId: number) {
+  if (presetId === DEFAULT_PRESET_ID) {
+    throw new Error('The default preset cannot be deleted.');
+  }
+  runInTransaction((database) => {
+    database
+      .prepare('UPDATE decks SET preset_id = ? WHERE preset_id = ?')
+      .run(DEFAULT_PRESET_ID, presetId);
+    const result = database.prepare('DELETE FROM deck_presets WHERE id = ?').run(presetId);
+    if (result.changes === 0) {
+      throw new Error(`Preset ${presetId} not found.`);
+    }
+  });
+}
+
+export function setDeckPreset(deckId: number, presetId: number) {
+  getDeckPreset(presetId);
+  const database = getDatabase();
+  const result = database
+    .prepare('UPDATE decks SET preset_id = ? WHERE id = ?')
+    .run(presetId, deckId);
+  if (result.changes === 0) {
+    throw new Error(`Deck ${deckId} not found.`);
+  }
+}
+
+export function getPresetForDeck(deckId: number): DeckPreset {
+  const database = getDatabase();
+  const row = database
+    .prepare('SELECT preset_id AS presetId FROM decks WHERE id = ?')
+    .get(deckId) as { presetId: number } | undefined;
+  if (!row) throw new Error(`Deck ${deckId} not found.`);
+  return getDeckPreset(row.presetId);
+}
+
+export function getDeckSchedulerOptions(deckId: number): SchedulerOptions {
+  const preset = getPresetForDeck(deckId);
+  return {
+    learningStepsMs: preset.learningSteps.map((minutes) => minutes * 60_000),
+    relearningStepsMs: preset.relearningSteps.map((minutes) => minutes * 60_000),
+    graduatingIvlDays: preset.graduatingIvlDays,
+    easyIvlDays: preset.easyIvlDays,
+    maxIvlDays: preset.maxIvlDays,
+    leechThreshold: preset.leechThreshold,
+    leechAction: preset.leechAction,
+  };
+}
+
+export function getDeckSchedulerConfig(deckId: number): SchedulerConfig {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `SELECT scheduler AS algorithm, desired_retention AS desiredRetention, fsrs_weights_json AS weightsJson
+       FROM decks WHERE id = ?`,
+    )
+    .get(deckId) as
+    | { algorithm: SchedulerAlgorithm; desiredRetention: number; weightsJson: string | null }
+    | undefined;
+  if (!row) throw new Error(`Deck ${deckId} not found.`);
+  return {
+    algorithm: row.algorithm,
+    desiredRetention: row.desiredRetention,
+    weights: row.weightsJson ? (JSON.parse(row.weightsJson) as number[]) : null,
+  };
+}
+
+export function setDeckSchedulerConfig(
+  deckId: number,
+  config: Pick<SchedulerConfig, 'algorithm' | 'desiredRetention'>,
+) {
+  if (!SCHEDULER_ALGORITHMS.includes(config.algorithm)) {
+    throw new Error(`Unknown scheduler "${config.algorithm}".`);
+  }
+  if (
+    !Number.isFinite(config.desiredRetention) ||
+    config.desiredRetention < 0.7 ||
+    config.desiredRetention > 0.99
+  ) {
+    throw new Error('Desired retention must be between 0.70 and 0.99.');
+  }
+
+  const database = getDatabase();
+  const result = database
+    .prepare(
+      'UPDATE decks SET scheduler = @algorithm, desired_retention = @desiredRetention WHERE id = @deckId',
+    )
+    .run({ deckId, algorithm: config.algorithm, desiredRetention: config.desiredRetention });
+  if (result.changes === 0) {
+    throw new Error(`Deck ${deckId} not found.`);
+  }
+}
+
+/** Stores optimizer weights for one deck, or for every deck when `deckId` is null. */
+/** Sets the weights of one deck, or of every deck that uses FSRS when `deckId` is null. */
+export function setFsrsWeights(deckId: number | null, weights: number[] | null) {
+  const database = getDatabase();
+  const weightsJson = weights ? JSON.stringify(weights) : null;
+  if (deckId === null) {
+    database
+      .prepare("UPDATE decks SET fsrs_weights_json = ? WHERE scheduler = 'fsrs'")
+      .run(weightsJson);
+    return;
+  }
+  const result = database
+    .prepare('UPDATE decks SET fsrs_weights_json = ? WHERE id = ?')
+    .run(weightsJson, deckId);
+  if (result.changes === 0) {
+    throw new Error(`Deck ${deckId} not found.`);
+  }
+}
+
+export interface RevlogHistoryRow {
+  cardId: number;
+  reviewTs: number;
+  rating: number;
+  reviewType: ReviewType;
+}
+
+/** Ratings ordered per card, for one deck or across all decks when `deckId` is null. */
+export function getRevlogHistory(deckId: number | null): RevlogHistoryRow[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        rl.card_id AS cardId,
+        rl.review_ts AS reviewTs,
+        rl.rating AS rating,
+        rl.review_type AS reviewType
+      FROM revlog rl
+      JOIN cards c ON c.id = rl.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE @deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL})
+      ORDER BY rl.card_id ASC, rl.review_ts ASC, rl.id ASC
+    `,
+    )
+    .all({ deckId }) as RevlogHistoryRow[];
+}
+
+export interface ForecastCardRow extends ReviewState {
+  cardId: number;
+  deckId: number;
+  kind: CardKind;
+}
+
+/** Review state of every unsuspended card, for one deck or across all decks when `deckId` is null. */
+export function getForecastCards(deckId: number | null): ForecastCardRow[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        r.card_id AS cardId,
+        n.deck_id AS deckId,
+        c.kind AS kind,
+        r.due_ts, r.ivl_days, r.ease, r.reps, r.lapses, r.learning_stage, r.difficulty,
+        r.suspended, r.stability, r.fsrs_difficulty, r.last_review_ts
+      FROM reviews r
+      JOIN cards c ON c.id = r.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE r.suspended = 0 AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      ORDER BY n.deck_id ASC, c.new_position IS NULL, c.new_position ASC, c.id ASC
+    `,
+    )
+    .all({ deckId }) as ForecastCardRow[];
+}
+
+// Statistics. Every query covers one deck, or all decks when `deckId` is null.
+
+const HEATMAP_DAYS = 365;
+const JUDGE_SCORE_WEEKS = 52;
+// Cards whose interval reached this many days count as mature
+const MATURE_IVL_DAYS = 21;
+
+const INTERVAL_BUCKETS: ReadonlyArray<{ label: string; below: number }> = [
+  { label: '1 d', below: 2 },
+  { label: '2 d', below: 3 },
+  { label: '3–6 d', below: 7 },
+  { label: '1–2 wk', below: 14 },
+  { label: '2–4 wk', below: 30 },
+  { label: '1–3 mo', below: 90 },
+  { label: '3–6 mo', below: 180 },
+  { label: '6–12 mo', below: 365 },
+  { label: '1 yr+', below: Infinity },
+];
+
+// SQLite date modifier that shifts a timestamp back onto its study day
+function rolloverModifier() {
+  return `-${getDayRolloverHour()} hours`;
+}
+
+/** Ratings per study day over the last year. */
+export function getReviewHeatmap(deckId: number | null): HeatmapDay[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        date(rl.review_ts / 1000, 'unixepoch', 'localtime', @rollover) AS date,
+        COUNT(*) AS count
+      FROM revlog rl
+      JOIN cards c ON c.id = rl.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE rl.review_ts >= @sinceTs AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY date
+      ORDER BY date ASC
+    `,
+    )
+    .all({
+      deckId,
+      rollover: rolloverModifier(),
+      sinceTs: nextDayStartTs() - HEATMAP_DAYS * ONE_DAY_MS,
+    }) as HeatmapDay[];
+}
+
+/** Share of day-scale reviews not rated Again, per deck and card kind. */
+export function getTrueRetention(deckId: number | null): DeckRetention[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        d.id AS deckId,
+        d.name AS deckName,
+        c.kind AS kind,
+        SUM(CASE WHEN rl.review_ts >= @monthAgo THEN 1 ELSE 0 END) AS monthReviews,
+        SUM(CASE WHEN rl.review_ts >= @monthAgo AND rl.rating > 0 THEN 1 ELSE 0 END) AS monthPassed,
+        COUNT(*) AS totalReviews,
+        SUM(CASE WHEN rl.rating > 0 THEN 1 ELSE 0 END) AS totalPassed
+      FROM revlog rl
+      JOIN cards c ON c.id = rl.card_id
+      JOIN notes n ON n.id = c.note_id
+      JOIN decks d ON d.id = n.deck_id
+      WHERE rl.review_type = 'review' AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY d.id, c.kind
+      ORDER BY d.name ASC, c.kind ASC
+    `,
+    )
+    .all({ deckId, monthAgo: nextDayStartTs() - 30 * ONE_DAY_MS }) as DeckRetention[];
+}
+
+/** Current intervals of cards in review, bucketed from days to years. */
+export function getIntervalDistribution(deckId: number | null): DistributionBucket[] {
+  const bucketSql = INTERVAL_BUCKETS.map((bucket, index) =>
+    Number.isFinite(bucket.below) ? `WHEN r.ivl_days < ${bucket.below} THEN ${index}` : '',
+  ).join(' ');
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT CASE ${bucketSql} ELSE ${INTERVAL_BUCKETS.length - 1} END AS bucket, COUNT(*) AS count
+      FROM reviews r
+      JOIN cards c ON c.id = r.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE r.suspended = 0 AND r.reps > 0 AND r.learning_stage = 0
+        AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY bucket
+    `,
+    )
+    .all({ deckId }) as Array<{ bucket: number; count: number }>;
+
+  const counts = new Map(rows.map((row) => [row.bucket, row.count]));
+  return INTERVAL_BUCKETS.map((bucket, index) => ({
+    label: bucket.label,
+    count: counts.get(index) ?? 0,
+  }));
+}
+
+/** Ease factors of cards that have been reviewed, rounded to one decimal. */
+export function getEaseDistribution(deckId: number | null): DistributionBucket[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT ROUND(r.ease, 1) AS ease, COUNT(*) AS count
+      FROM reviews r
+      JOIN cards c ON c.id = r.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE r.suspended = 0 AND r.reps > 0 AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY ROUND(r.ease, 1)
+      ORDER BY ease ASC
+    `,
+    )
+    .all({ deckId }) as Array<{ ease: number; count: number }>;
+
+  return rows.map((row) => ({ label: row.ease.toFixed(1), count: row.count }));
+}
+
+export function getCardStateCounts(deckId: number | null): CardStateCounts {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        COALESCE(SUM(CASE WHEN r.suspended = 0 AND r.reps = 0 AND r.learning_stage = 0 THEN 1 ELSE 0 END), 0) AS new,
+        COALESCE(SUM(CASE WHEN r.suspended = 0 AND r.learning_stage > 0 THEN 1 ELSE 0 END), 0) AS learning,
+        COALESCE(SUM(CASE WHEN r.suspended = 0 AND r.reps > 0 AND r.learning_stage = 0 AND r.ivl_days < @matureDays THEN 1 ELSE 0 END), 0) AS young,
+        COALESCE(SUM(CASE WHEN r.suspended = 0 AND r.reps > 0 AND r.learning_stage = 0 AND r.ivl_days >= @matureDays THEN 1 ELSE 0 END), 0) AS mature,
+        COALESCE(SUM(CASE WHEN r.suspended = 1 THEN 1 ELSE 0 END), 0) AS suspended
+      FROM reviews r
+      JOIN cards c ON c.id = r.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE @deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL})
+    `,
+    )
+    .get({ deckId, matureDays: MATURE_IVL_DAYS }) as CardStateCounts;
+}
+
+/** Weekly average of sentence judge verdicts: right = 1, unsure = 0.5, wrong = 0. */
+export function getJudgeScoreTrend(deckId: number | null): JudgeScoreWeek[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        date(a.when_ts / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days') AS weekStart,
+        COUNT(*) AS attempts,
+        AVG(CASE a.verdict WHEN 'right' THEN 1.0 WHEN 'unsure' THEN 0.5 ELSE 0.0 END) AS averageScore
+      FROM attempts a
+      JOIN cards c ON c.id = a.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE a.when_ts >= @sinceTs AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY weekStart
+      ORDER BY weekStart ASC
+    `,
+    )
+    .all({ deckId, sinceTs: Date.now() - JUDGE_SCORE_WEEKS * 7 * ONE_DAY_MS }) as JudgeScoreWeek[];
+}
+
+export const SCORE_DIMENSIONS: readonly ScoreDimension[] = [
+  'form',
+  'mechanics',
+  'grammar',
+  'style',
+  'sophistication',
+  'naturalness',
+];
+
+// How many of a card's latest scored attempts count towards "stays low"
+const NATURALNESS_WINDOW = 3;
+const NATURALNESS_MIN_ATTEMPTS = 2;
+
+/** Average of every judge score dimension over attempts made in [fromTs, toTs). */
+export function getScoreAverages(
+  deckId: number | null,
+  fromTs: number,
+  toTs: number,
+): ScoreAverages {
+  const columns = SCORE_DIMENSIONS.map(
+    (dimension) =>
+      `AVG(a.${dimension}_score) AS ${dimension}Average, COUNT(a.${dimension}_score) AS ${dimension}Count`,
+  ).join(',\n        ');
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT
+        ${columns}
+      FROM attempts a
+      JOIN cards c ON c.id = a.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE a.when_ts >= @fromTs AND a.when_ts < @toTs
+        AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+    `,
+    )
+    .get({ deckId, fromTs, toTs }) as Record<string, number | null>;
+
+  return Object.fromEntries(
+    SCORE_DIMENSIONS.map((dimension) => [
+      dimension,
+      {
+        average: row[`${dimension}Average`] ?? null,
+        count: row[`${dimension}Count`] ?? 0,
+      },
+    ]),
+  ) as ScoreAverages;
+}
+
+/** Weekly averages of every judge score dimension over the last year. */
+export function getWeeklyScoreTrend(deckId: number | null): ScoreWeek[] {
+  const columns = SCORE_DIMENSIONS.map(
+    (dimension) => `AVG(a.${dimension}_score) AS ${dimension}`,
+  ).join(', ');
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        date(a.when_ts / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days') AS weekStart,
+        COUNT(*) AS attempts,
+        ${columns}
+      FROM attempts a
+      JOIN cards c ON c.id = a.card_id
+      JOIN notes n ON n.id = c.note_id
+      WHERE a.when_ts >= @sinceTs AND a.form_score IS NOT NULL
+        AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      GROUP BY weekStart
+      ORDER BY weekStart ASC
+    `,
+    )
+    .all({ deckId, sinceTs: Date.now() - JUDGE_SCORE_WEEKS * 7 * ONE_DAY_MS }) as Array<
+    Record<ScoreDimension, number | null> & { weekStart: string; attempts: number }
+  >;
+
+  return rows.map((row) => ({
+    weekStart: row.weekStart,
+    attempts: row.attempts,
+    averages: Object.fromEntries(
+      SCORE_DIMENSIONS.map((dimension) => [dimension, row[dimension]]),
+    ) as Record<ScoreDimension, number | null>,
+  }));
+}
+
+/** Cards whose latest sentences keep scoring below `threshold` on naturalness. */
+export function getLowNaturalnessCards(
+  deckId: number | null,
+  threshold: number,
+): LowNaturalnessCard[] {
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      WITH ranked AS (
+        SELECT
+          a.card_id,
+          a.naturalness_score,
+          a.quick_tip,
+          ROW_NUMBER() OVER (PARTITION BY a.card_id ORDER BY a.when_ts DESC, a.id DESC) AS position
+        FROM attempts a
+        JOIN cards c ON c.id = a.card_id
+        JOIN notes n ON n.id = c.note_id
+        WHERE a.naturalness_score IS NOT NULL AND (@deckId IS NULL OR n.deck_id IN (${DECK_SUBTREE_SQL}))
+      )
+      SELECT
+        c.id AS cardId,
+        d.name AS deckName,
+        c.target_lexeme AS targetLexeme,
+        COUNT(*) AS attempts,
+        AVG(r.naturalness_score) AS averageNaturalness,
+        MAX(CASE WHEN r.position = 1 THEN r.quick_tip END) AS latestQuickTip
+      FROM ranked r
+      JOIN cards c ON c.id = r.card_id
+      JOIN notes n ON n.id = c.note_id
+      JOIN decks d ON d.id = n.deck_id
+      WHERE r.position <= @window
+      GROUP BY c.id
+      HAVING COUNT(*) >= @minAttempts AND AVG(r.naturalness_score) < @threshold
+      ORDER BY averageNaturalness ASC, c.id ASC
+      LIMIT 50
+    `,
+    )
+    .all({
+      deckId,
+      threshold,
+      window: NATURALNESS_WINDOW,
+      minAttempts: NATURALNESS_MIN_ATTEMPTS,
+    }) as LowNaturalnessCard[];
+}
+
+export function incrementReviewsDoneToday(deckId: number, kind: CardKind): string {
+  const database = getDatabase();
+  const date = todayYMD();
+  database
+    .prepare(
+      `INSERT INTO daily_stats (deck_id, kind, date_ymd, reviews_done)
+       VALUES (@deckId, @kind, @date, 1)
+       ON CONFLICT(deck_id, kind, date_ymd) DO UPDATE SET reviews_done = reviews_done + 1`,
+    )
+    .run({ deckId, kind, date });
+  return date;
+}
+
+export function decrementReviewsDone(deckId: number, kind: CardKind, date: string) {
+  const database = getDatabase();
+  database
+    .prepare(
+      `UPDATE daily_stats SET reviews_done = MAX(0, reviews_done - 1)
+       WHERE deck_id = @deckId AND kind = @kind AND date_ymd = @date`,
+    )
+    .run({ deckId, kind, date });
+}
+
+export function incrementNewShownToday(deckId: number, kind: CardKind): string {
+  const database = getDatabase();
+  const date = todayYMD();
+  database
+    .prepare(
+      `INSERT INTO daily_stats (deck_id, kind, date_ymd, new_shown)
+       VALUES (@deckId, @kind, @date, 1)
+       ON CONFLICT(deck_id, kind, date_ymd) DO UPDATE SET new_shown = new_shown + 1`,
+    )
+    .run({ deckId, kind, date });
+  return date;
+}
+
+export function decrementNewShown(deckId: number, kind: CardKind, date: string) {
+  const database = getDatabase();
+  database
+    .prepare(
+      `UPDATE daily_stats SET new_shown = MAX(0, new_shown - 1)
+       WHERE deck_id = @deckId AND kind = @kind AND date_ymd = @date`,
+    )
+    .run({ deckId, kind, date });
+}
+
+export function getDeckIdForCard(cardId: number): number {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `SELECT n.deck_id AS deckId
+       FROM cards c JOIN notes n ON n.id = c.note_id
+       WHERE c.id = ?`,
+    )
+    .get(cardId) as { deckId?: number } | undefined;
+  if (!row?.deckId) throw new Error(`Deck not found for card ${cardId}`);
+  return row.deckId;
+}
+
+/** Adds a tag to the note behind a card; no-op when the note already has it. */
+export function addNoteTagForCard(database: Database.Database, cardId: number, tag: string) {
+  const row = database
+    .prepare(
+      `SELECT n.id AS noteId, n.tags_json AS tagsJson
+       FROM cards c JOIN notes n ON n.id = c.note_id
+       WHERE c.id = ?`,
+    )
+    .get(cardId) as { noteId: number; tagsJson: string } | undefined;
+  if (!row) throw new Error(`Card ${cardId} not found.`);
+
+  const tags = JSON.parse(row.tagsJson) as string[];
+  if (tags.includes(tag)) return;
+  database
+    .prepare('UPDATE notes SET tags_json = ? WHERE id = ?')
+    .run(JSON.stringify([...tags, tag]), row.noteId);
+}
+
+/** Cards over their preset's leech threshold or tagged as leeches, across all decks. */
+export function listLeechCards(): LeechCard[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        c.id AS id,
+        d.id AS deckId,
+        d.name AS deckName,
+        c.kind AS kind,
+        c.target_lexeme AS targetLexeme,
+        c.front_html AS frontHtml,
+        c.back_html AS backHtml,
+        r.lapses AS lapses,
+        r.suspended AS suspended
+      FROM cards c
+      JOIN notes n ON n.id = c.note_id
+      JOIN decks d ON d.id = n.deck_id
+      JOIN deck_presets p ON p.id = d.preset_id
+      JOIN reviews r ON r.card_id = c.id
+      WHERE r.lapses >= p.leech_threshold
+        OR EXISTS (SELECT 1 FROM json_each(n.tags_json) WHERE json_each.value = 'leech')
+      ORDER BY r.lapses DESC, d.name ASC, c.id ASC
+    `,
+    )
+    .all() as Array<Omit<LeechCard, 'suspended'> & { suspended: number }>;
+
+  return rows.map((row) => ({ ...row, suspended: Boolean(row.suspended) }));
+}
+
+export function getLeechDetail(cardId: number): LeechDetail {
+  const database = getDatabase();
+  const lapses = database
+    .prepare(
+      `
+      SELECT review_ts AS reviewTs, prev_ivl_days AS prevIvlDays
+      FROM revlog
+      WHERE card_id = ? AND rating = 0 AND review_type = 'review'
+      ORDER BY review_ts ASC
+    `,
+    )
+    .all(cardId) as LeechDetail['lapses'];
+  const attempts = database
+    .prepare(
+      `
+      SELECT when_ts AS whenTs, sentence, verdict, feedback
+      FROM attempts
+      WHERE card_id = ?
+      ORDER BY when_ts DESC
+    `,
+    )
+    .all(cardId) as LeechDetail['attempts'];
+
+  return { lapses, attempts };
+}
+
+export function setCardSuspended(cardId: number, suspended: boolean) {
+  const database = getDatabase();
+  const result = database
+    .prepare('UPDATE reviews SET suspended = ? WHERE card_id = ?')
+    .run(suspended ? 1 : 0, cardId);
+  if (result.changes === 0) {
+    throw new Error(`Card ${cardId} not found.`);
+  }
+}
+
+export const MAX_CARD_FLAG = 7;
+
+export function setCardFlag(cardId: number, flag: number) {
+  if (!Number.isInteger(flag) || flag < 0 || flag > MAX_CARD_FLAG) {
+    throw new Error(`Flag must be between 0 and ${MAX_CARD_FLAG}.`);
+  }
+  const database = getDatabase();
+  const result = database.prepare('UPDATE cards SET flag = ? WHERE id = ?').run(flag, cardId);
+  if (result.changes === 0) {
+    throw new Error(`Card ${cardId} not found.`);
+  }
+}
+
+/** Flagged cards, optionally narrowed to a single flag colour. */
+export function listFlaggedCards(flag: number | null): FlaggedCard[] {
+  const database = getDatabase();
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        c.id AS id,
+        d.id AS deckId,
+        d.name AS deckName,
+        c.kind AS kind,
+        c.target_lexeme AS targetLexeme,
+        c.front_html AS frontHtml,
+        c.flag AS flag,
+        r.suspended AS suspended
+      FROM cards c
+      JOIN notes n ON n.id = c.note_id
+      JOIN decks d ON d.id = n.deck_id
+      JOIN reviews r ON r.card_id = c.id
+      WHERE c.flag > 0 AND (@flag IS NULL OR c.flag = @flag)
+      ORDER BY c.flag ASC, d.name ASC, c.id ASC
+    `,
+    )
+    .all({ flag }) as Array<Omit<FlaggedCard, 'suspended'> & { suspended: number }>;
+
+  return rows.map((row) => ({ ...row, suspended: Boolean(row.suspended) }));
 }
 
-export function getNewShownToday(deckId: number): number {
+/** Hides a card until the next study day. */
+export function buryCard(cardId: number) {
   const database = getDatabase();
-  const row = database
-    .prepare('SELECT new_shown AS n FROM daily_stats WHERE deck_id = ? AND date_ymd = ? LIMIT 1')
-    .get(deckId, todayYMD()) as { n?: number } | undefined;
-  return row?.n ?? 0;
+  const result = database
+    .prepare('UPDATE reviews SET buried_until = ? WHERE card_id = ?')
+    .run(nextDayStartTs(), cardId);
+  if (result.changes === 0) {
+    throw new Error(`Card ${cardId} not found.`);
+  }
 }
 
-export function incrementNewShownToday(deckId: number) {
-  const database = getDatabase();
-  database
+/** Forgets all scheduling state so the card returns to the new queue. */
+export function resetCardToNew(database: Database.Database, cardId: number) {
+  const result = database
     .prepare(
-      `INSERT INTO daily_stats (deck_id, date_ymd, new_shown)
-       VALUES (@deckId, @date, 1)
-       ON CONFLICT(deck_id, date_ymd) DO UPDATE SET new_shown = new_shown + 1`,
+      `
+      UPDATE reviews
+      SET due_ts = @now,
+          ivl_days = 0,
+          ease = 2.5,
+          reps = 0,
+          lapses = 0,
+          learning_stage = 0,
+          difficulty = 0.5,
+          suspended = 0,
+          stability = 0,
+          fsrs_difficulty = 0,
+          last_review_ts = NULL,
+          buried_until = NULL
+      WHERE card_id = @cardId
+    `,
     )
-    .run({ deckId, date: todayYMD() });
+    .run({ cardId, now: Date.now() });
+  if (result.changes === 0) {
+    throw new Error(`Card ${cardId} not found.`);
+  }
 }
 
-export function getDeckIdForCard(cardId: number): number {
-  const database = getDatabase();
+export function removeNoteTagForCard(database: Database.Database, cardId: number, tag: string) {
   const row = database
     .prepare(
-      `SELECT n.deck_id AS deckId
+      `SELECT n.id AS noteId, n.tags_json AS tagsJson
        FROM cards c JOIN notes n ON n.id = c.note_id
        WHERE c.id = ?`,
     )
-    .get(cardId) as { deckId?: number } | undefined;
-  if (!row?.deckId) throw new Error(`Deck not found for card ${cardId}`);
-  return row.deckId;
+    .get(cardId) as { noteId: number; tagsJson: string } | undefined;
+  if (!row) throw new Error(`Card ${cardId} not found.`);
+
+  const tags = JSON.parse(row.tagsJson) as string[];
+  if (!tags.includes(tag)) return;
+  database
+    .prepare('UPDATE notes SET tags_json = ? WHERE id = ?')
+    .run(JSON.stringify(tags.filter((existing) => existing !== tag)), row.noteId);
+}
+
+export function getCardKind(cardId: number): CardKind {
+  const database = getDatabase();
+  const row = database.prepare('SELECT kind FROM cards WHERE id = ?').get(cardId) as
+    | { kind: CardKind }
+    | undefined;
+  if (!row) throw new Error(`Card ${cardId} not found.`);
+  return row.kind;
 }
 
 export function getCardDetail(cardId: number): CardDetail {
@@ -876,3 +2961,594 @@ export function getCardMediaRefs(cardId: number): { deckId: number; audioRefs: s
     audioRefs: JSON.parse(row.audioRefs) as string[],
   };
 }
+
+const BROWSE_SORT_SQL: Record<BrowseSortColumn, string> = {
+  lexeme: 'c.target_lexeme COLLATE NOCASE',
+  deck: 'd.name COLLATE NOCASE',
+  kind: 'c.kind',
+  due: 'r.due_ts',
+  interval: 'r.ivl_days',
+  ease: 'r.ease',
+  lapses: 'r.lapses',
+  created: 'c.id',
+};
+
+const MAX_BROWSE_PAGE_SIZE = 500;
+
+/** One page of the cards matching a browser search, with the total match count. */
+export function browseCards(query: BrowseQuery): BrowsePage {
+  const sortSql = BROWSE_SORT_SQL[query.sort];
+  if (!sortSql) {
+    throw new Error(`Cannot sort by "${query.sort}".`);
+  }
+  validateWholeNumber('Page', query.page, 0, Number.MAX_SAFE_INTEGER);
+  validateWholeNumber('Page size', query.pageSize, 1, MAX_BROWSE_PAGE_SIZE);
+
+  const now = Date.now();
+  const { where, params } = compileSearch(query.search, {
+    now,
+    todayStartTs: nextDayStartTs(now) - ONE_DAY_MS,
+  });
+  const from = `
+    FROM cards c
+    JOIN notes n ON n.id = c.note_id
+    JOIN decks d ON d.id = n.deck_id
+    JOIN reviews r ON r.card_id = c.id
+    WHERE ${where}
+  `;
+  const direction = query.descending ? 'DESC' : 'ASC';
+
+  const database = getDatabase();
+  const { total } = database.prepare(`SELECT COUNT(*) AS total ${from}`).get(params) as {
+    total: number;
+  };
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        c.id AS id,
+        n.id AS noteId,
+        d.id AS deckId,
+        d.name AS deckName,
+        c.kind AS kind,
+        c.target_lexeme AS targetLexeme,
+        c.front_html AS frontHtml,
+        r.due_ts AS dueTs,
+        r.ivl_days AS ivlDays,
+        r.ease AS ease,
+        r.reps AS reps,
+        r.lapses AS lapses,
+        r.learning_stage AS learningStage,
+        n.tags_json AS tagsJson,
+        c.flag AS flag,
+        r.suspended AS suspended,
+        COALESCE(r.buried_until, 0) > @now AS buried
+      ${from}
+      ORDER BY ${sortSql} ${direction}, c.id ${direction}
+      LIMIT @limit OFFSET @offset
+    `,
+    )
+    .all({ ...params, limit: query.pageSize, offset: query.page * query.pageSize }) as Array<
+    Omit<BrowseCard, 'tags' | 'suspended' | 'buried'> & {
+      tagsJson: string;
+      suspended: number;
+      buried: number;
+    }
+  >;
+
+  return {
+    cards: rows.map(({ tagsJson, ...row }) => ({
+      ...row,
+      tags: JSON.parse(tagsJson) as string[],
+      suspended: Boolean(row.suspended),
+      buried: Boolean(row.buried),
+    })),
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+export function setCardsSuspended(cardIds: number[], suspended: boolean): number {
+  const database = getDatabase();
+  return database
+    .prepare('UPDATE reviews SET suspended = ? WHERE card_id IN (SELECT value FROM json_each(?))')
+    .run(suspended ? 1 : 0, JSON.stringify(cardIds)).changes;
+}
+
+// Anki separates tags with spaces, so a tag cannot contain one
+function normalizeTag(tag: string) {
+  const trimmed = tag.trim();
+  if (!trimmed || /\s/.test(trimmed)) {
+    throw new Error('Tags must be a single word without spaces.');
+  }
+  return trimmed;
+}
+
+/** Tags the notes behind the cards; siblings share the note and so the tag. */
+export function addTagToCards(cardIds: number[], tag: string) {
+  const normalized = normalizeTag(tag);
+  runInTransaction((database) => {
+    for (const cardId of cardIds) {
+      addNoteTagForCard(database, cardId, normalized);
+    }
+  });
+}
+
+export function removeTagFromCards(cardIds: number[], tag: string) {
+  const normalized = normalizeTag(tag);
+  runInTransaction((database) => {
+    for (const cardId of cardIds) {
+      removeNoteTagForCard(database, cardId, normalized);
+    }
+  });
+}
+
+/**
+ * Moves the notes behind the cards, with all their sibling cards, to another
+ * deck. Audio is served from the deck's media folder, so it is copied along;
+ * the originals stay in place because other notes may still use them.
+ */
+export async function moveCardsToDeck(cardIds: number[], deckId: number): Promise<number> {
+  const database = getDatabase();
+  if (!database.prepare('SELECT 1 FROM decks WHERE id = ?').get(deckId)) {
+    throw new Error(`Deck ${deckId} not found.`);
+  }
+
+  const ids = JSON.stringify(cardIds);
+  const noteFilter =
+    'n.id IN (SELECT note_id FROM cards WHERE id IN (SELECT value FROM json_each(@ids)))';
+  const moving = database
+    .prepare(
+      `
+      SELECT n.deck_id AS fromDeckId, c.audio_refs_json AS audioRefs
+      FROM notes n
+      JOIN cards c ON c.note_id = n.id
+      WHERE ${noteFilter} AND n.deck_id <> @deckId
+    `,
+    )
+    .all({ ids, deckId }) as Array<{ fromDeckId: number; audioRefs: string }>;
+  const moved = database
+    .prepare(`UPDATE notes AS n SET deck_id = @deckId WHERE ${noteFilter} AND n.deck_id <> @deckId`)
+    .run({ ids, deckId }).changes;
+
+  const mediaRoot = path.join(app.getPath('userData'), 'media');
+  for (const row of moving) {
+    for (const file of JSON.parse(row.audioRefs) as string[]) {
+      const sourcePath = path.join(mediaRoot, String(row.fromDeckId), file);
+      try {
+        if (await fs.pathExists(sourcePath)) {
+          await fs.copy(sourcePath, path.join(mediaRoot, String(deckId), file), {
+            overwrite: false,
+          });
+        }
+      } catch (error) {
+        console.warn('[db] failed to copy media to the new deck', { file, deckId, error });
+      }
+    }
+  }
+
+  return moved;
+}
+
+/** Deletes the cards and any notes left without cards; reviews and history cascade. */
+export function deleteCards(cardIds: number[]): number {
+  return runInTransaction((database) => {
+    const ids = JSON.stringify(cardIds);
+    const noteIds = database
+      .prepare(
+        'SELECT DISTINCT note_id AS noteId FROM cards WHERE id IN (SELECT value FROM json_each(?))',
+      )
+      .all(ids) as Array<{ noteId: number }>;
+    const deleted = database
+      .prepare('DELETE FROM cards WHERE id IN (SELECT value FROM json_each(?))')
+      .run(ids).changes;
+    database
+      .prepare(
+        `DELETE FROM notes
+         WHERE id IN (SELECT value FROM json_each(?))
+           AND NOT EXISTS (SELECT 1 FROM cards WHERE cards.note_id = notes.id)`,
+      )
+      .run(JSON.stringify(noteIds.map((row) => row.noteId)));
+    return deleted;
+  });
+}
+
+const QUICK_SEARCH_LIMIT = 20;
+
+/**
+ * Cards whose content, tags or the learner's sentences contain every word of
+ * the query, each as a word prefix, best matches first.
+ */
+export function quickSearch(query: string): QuickSearchHit[] {
+  const words = query.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const database = getDatabase();
+  return database
+    .prepare(
+      `
+      SELECT
+        c.id AS cardId,
+        d.id AS deckId,
+        d.name AS deckName,
+        c.kind AS kind,
+        c.target_lexeme AS targetLexeme,
+        snippet(card_search, -1, char(2), char(3), '…', 12) AS snippet
+      FROM card_search
+      JOIN cards c ON c.id = card_search.rowid
+      JOIN notes n ON n.id = c.note_id
+      JOIN decks d ON d.id = n.deck_id
+      WHERE card_search MATCH ?
+      ORDER BY card_search.rank
+      LIMIT ?
+    `,
+    )
+    .all(words.map(toFtsPhrase).join(' '), QUICK_SEARCH_LIMIT) as QuickSearchHit[];
+}
+
+export interface CardEditSource {
+  cardId: number;
+  noteId: number;
+  deckId: number;
+  kind: CardKind;
+  noteTypeName: string | null;
+  fieldNames: string[] | null;
+  templates: CardTemplate[] | null;
+  templateOrd: number;
+  css: string | null;
+  isCloze: boolean;
+  fields: string[];
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  coding: CodingExtra | null;
+}
+
+/** A card with its note's fields and, when known, the note type it renders through. */
+export function getCardEditSource(cardId: number): CardEditSource {
+  const database = getDatabase();
+  const row = database
+    .prepare(
+      `
+      SELECT
+        c.id AS cardId,
+        n.id AS noteId,
+        n.deck_id AS deckId,
+        c.kind AS kind,
+        t.name AS noteTypeName,
+        t.fields_json AS fieldNamesJson,
+        t.templates_json AS templatesJson,
+        c.template_ord AS templateOrd,
+        t.css AS css,
+        t.is_cloze AS isCloze,
+        n.fields_json AS fieldsJson,
+        c.target_lexeme AS targetLexeme,
+        c.lang AS lang,
+        c.pos AS pos,
+        c.sense_hint AS senseHint,
+        c.front_html AS frontHtml,
+        c.back_html AS backHtml,
+        c.extra_json AS extraJson
+      FROM cards c
+      JOIN notes n ON n.id = c.note_id
+      LEFT JOIN note_types t ON t.id = n.note_type_id
+      WHERE c.id = ?
+    `,
+    )
+    .get(cardId) as
+    | {
+        cardId: number;
+        noteId: number;
+        deckId: number;
+        kind: CardKind;
+        noteTypeName: string | null;
+        fieldNamesJson: string | null;
+        templatesJson: string | null;
+        templateOrd: number;
+        css: string | null;
+        isCloze: number | null;
+        fieldsJson: string;
+        targetLexeme: string;
+        lang: string;
+        pos: string | null;
+        senseHint: string | null;
+        frontHtml: string;
+        backHtml: string;
+        extraJson: string;
+      }
+    | undefined;
+  if (!row) throw new Error(`Card ${cardId} not found.`);
+
+  const coding =
+    row.kind === 'coding'
+      ? parseCodingExtra(row.extraJson, {
+          prompt: row.frontHtml.replace(/<[^>]*>/g, '').trim(),
+          code: row.frontHtml.replace(/<[^>]*>/g, '').trim(),
+          expected: row.backHtml.replace(/<[^>]*>/g, '').trim(),
+        })
+      : null;
+
+  return {
+    cardId: row.cardId,
+    noteId: row.noteId,
+    deckId: row.deckId,
+    kind: row.kind,
+    noteTypeName: row.noteTypeName,
+    fieldNames: row.fieldNamesJson ? (JSON.parse(row.fieldNamesJson) as string[]) : null,
+    templates: row.templatesJson ? (JSON.parse(row.templatesJson) as CardTemplate[]) : null,
+    templateOrd: row.templateOrd,
+    css: row.css || null,
+    isCloze: row.isCloze === 1,
+    fields: (JSON.parse(row.fieldsJson) as unknown[]).map((field) =>
+      typeof field === 'string' ? field : '',
+    ),
+    targetLexeme: row.targetLexeme,
+    lang: row.lang,
+    pos: row.pos,
+    senseHint: row.senseHint,
+    coding,
+  };
+}
+
+export function listNoteCardTemplates(
+  database: Database.Database,
+  noteId: number,
+): Array<{ cardId: number; templateOrd: number }> {
+  return database
+    .prepare('SELECT id AS cardId, template_ord AS templateOrd FROM cards WHERE note_id = ?')
+    .all(noteId) as Array<{ cardId: number; templateOrd: number }>;
+}
+
+export function updateNoteFields(database: Database.Database, noteId: number, fields: string[]) {
+  const result = database
+    .prepare('UPDATE notes SET fields_json = ? WHERE id = ?')
+    .run(JSON.stringify(fields), noteId);
+  if (result.changes === 0) {
+    throw new Error(`Note ${noteId} not found.`);
+  }
+}
+
+export function updateRenderedCard(
+  database: Database.Database,
+  cardId: number,
+  rendered: { frontHtml: string; backHtml: string; audioRefs: string[] },
+) {
+  database
+    .prepare(
+      'UPDATE cards SET front_html = @frontHtml, back_html = @backHtml, audio_refs_json = @audioRefsJson WHERE id = @cardId',
+    )
+    .run({
+      cardId,
+      frontHtml: rendered.frontHtml,
+      backHtml: rendered.backHtml,
+      audioRefsJson: JSON.stringify(rendered.audioRefs),
+    });
+}
+
+export interface CardMetadataUpdate {
+  kind: CardKind;
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  extra: CodingExtra | null;
+}
+
+export function updateCardMetadata(
+  database: Database.Database,
+  cardId: number,
+  update: CardMetadataUpdate,
+) {
+  const result = database
+    .prepare(
+      `
+      UPDATE cards
+      SET kind = @kind,
+          target_lexeme = @targetLexeme,
+          lang = @lang,
+          pos = @pos,
+          sense_hint = @senseHint,
+          -- Only coding cards keep anything in extra
+          extra_json = CASE WHEN @kind = 'vocab' THEN '{}' ELSE COALESCE(@extraJson, extra_json) END
+      WHERE id = @cardId
+    `,
+    )
+    .run({
+      cardId,
+      kind: update.kind,
+      targetLexeme: update.targetLexeme,
+      lang: update.lang,
+      pos: update.pos,
+      senseHint: update.senseHint,
+      extraJson: update.extra ? JSON.stringify(update.extra) : null,
+    });
+  if (result.changes === 0) {
+    throw new Error(`Card ${cardId} not found.`);
+  }
+}
+
+export function isIdTaken(database: Database.Database, table: 'notes' | 'cards', id: number) {
+  return database.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+}
+
+/**
+ * A new note or card id in Anki's range: creation time in milliseconds,
+ * bumped past the newest existing id so ids created in a burst stay unique.
+ */
+export function nextTimestampId(database: Database.Database, table: 'notes' | 'cards'): number {
+  const row = database.prepare(`SELECT MAX(id) AS maxId FROM ${table}`).get() as {
+    maxId: number | null;
+  };
+  return Math.max(Date.now(), (row.maxId ?? 0) + 1);
+}
+
+/** The position after the deck's last new card, so added cards are studied last. */
+export function getNextNewPosition(database: Database.Database, deckId: number): number {
+  const row = database
+    .prepare(
+      `SELECT MAX(c.new_position) AS maxPosition
+       FROM cards c JOIN notes n ON n.id = c.note_id
+       WHERE n.deck_id = ?`,
+    )
+    .get(deckId) as { maxPosition: number | null };
+  return (row.maxPosition ?? -1) + 1;
+}
+
+export function getDeckName(deckId: number): string {
+  const database = getDatabase();
+  const row = database.prepare('SELECT name FROM decks WHERE id = ?').get(deckId) as
+    | { name: string }
+    | undefined;
+  if (!row) throw new Error(`Deck ${deckId} not found.`);
+  return row.name;
+}
+
+export interface ImportMatchNote {
+  id: number;
+  deckId: number;
+  guid: string | null;
+  fields: string[];
+  tags: string[];
+  sourceFields: string[] | null; // null for notes imported before guids were kept
+}
+
+/**
+ * Local notes an Anki package may update: those with one of its guids, and
+ * notes imported before guids were kept, which still carry their Anki id.
+ */
+export function findImportMatches(
+  database: Database.Database,
+  guids: string[],
+  legacyIds: number[],
+): ImportMatchNote[] {
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        id,
+        deck_id AS deckId,
+        guid,
+        fields_json AS fieldsJson,
+        tags_json AS tagsJson,
+        source_fields_json AS sourceFieldsJson
+      FROM notes
+      WHERE guid IN (SELECT value FROM json_each(@guids))
+         OR (guid IS NULL AND id IN (SELECT value FROM json_each(@legacyIds)))
+    `,
+    )
+    .all({ guids: JSON.stringify(guids), legacyIds: JSON.stringify(legacyIds) }) as Array<{
+    id: number;
+    deckId: number;
+    guid: string | null;
+    fieldsJson: string;
+    tagsJson: string;
+    sourceFieldsJson: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    deckId: row.deckId,
+    guid: row.guid,
+    fields: JSON.parse(row.fieldsJson) as string[],
+    tags: JSON.parse(row.tagsJson) as string[],
+    sourceFields: row.sourceFieldsJson ? (JSON.parse(row.sourceFieldsJson) as string[]) : null,
+  }));
+}
+
+/**
+ * Notes a package brought in, by the file name recorded when they were last
+ * imported. Notes imported before sources were kept have none and are left out.
+ */
+export function listImportedNotes(
+  database: Database.Database,
+  importSource: string,
+): Array<{ id: number; guid: string; fields: string[] }> {
+  const rows = database
+    .prepare(
+      `
+      SELECT id, guid, fields_json AS fieldsJson
+      FROM notes
+      WHERE guid IS NOT NULL AND import_source = ?
+    `,
+    )
+    .all(importSource) as Array<{ id: number; guid: string; fieldsJson: string }>;
+  return rows.map((row) => ({
+    id: row.id,
+    guid: row.guid,
+    fields: JSON.parse(row.fieldsJson) as string[],
+  }));
+}
+
+export interface ImportedNoteUpdate {
+  fields: string[];
+  tags: string[];
+  noteTypeId: number | null;
+  guid: string;
+  sourceFields: string[];
+  importSource: string;
+}
+
+export function updateImportedNote(
+  database: Database.Database,
+  noteId: number,
+  update: ImportedNoteUpdate,
+) {
+  database
+    .prepare(
+      `
+      UPDATE notes
+      SET fields_json = @fieldsJson,
+          tags_json = @tagsJson,
+          note_type_id = COALESCE(@noteTypeId, note_type_id),
+          guid = @guid,
+          source_fields_json = @sourceFieldsJson,
+          import_source = @importSource
+      WHERE id = @noteId
+    `,
+    )
+    .run({
+      noteId,
+      fieldsJson: JSON.stringify(update.fields),
+      tagsJson: JSON.stringify(update.tags),
+      noteTypeId: update.noteTypeId,
+      guid: update.guid,
+      sourceFieldsJson: JSON.stringify(update.sourceFields),
+      importSource: update.importSource,
+    });
+}
+
+/** Deletes notes together with their cards and review history. */
+export function deleteNotes(database: Database.Database, noteIds: number[]): number {
+  return database
+    .prepare('DELETE FROM notes WHERE id IN (SELECT value FROM json_each(?))')
+    .run(JSON.stringify(noteIds)).changes;
+}
+
+/** Field mappings remembered from earlier imports, keyed by note type id. */
+export function getImportMappings(
+  database: Database.Database,
+  noteTypeIds: number[],
+): Map<number, ImportFieldMapping> {
+  const rows = database
+    .prepare(
+      `
+      SELECT id, import_mapping_json AS mappingJson
+      FROM note_types
+      WHERE import_mapping_json IS NOT NULL AND id IN (SELECT value FROM json_each(?))
+    `,
+    )
+    .all(JSON.stringify(noteTypeIds)) as Array<{ id: number; mappingJson: string }>;
+  return new Map(rows.map((row) => [row.id, JSON.parse(row.mappingJson) as ImportFieldMapping]));
+}
+
+export function saveImportMapping(
+  database: Database.Database,
+  noteTypeId: number,
+  mapping: ImportFieldMapping,
+) {
+  database
+    .prepare('UPDATE note_types SET import_mapping_json = ? WHERE id = ?')
+    .run(JSON.stringify(mapping), noteTypeId);
+}
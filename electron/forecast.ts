@@ -0,0 +1,253 @@
+import {
+  getDeckSchedulerConfig,
+  getDeckSchedulerOptions,
+  getForecastCards,
+  getLoadBalancing,
+  getPresetForDeck,
+  nextDayStartTs,
+} from './db';
+import type { ForecastCardRow } from './db';
+import { mulberry32 } from './random';
+import { createScheduler } from './scheduler';
+import type { IntervalSpread, Rating, Scheduler, SchedulerState } from './scheduler';
+
+const ONE_DAY_MS = 86_400_000;
+
+export const MAX_FORECAST_DAYS = 365;
+
+// How successful recalls split between Hard, Good and Easy in a simulation
+const SUCCESS_RATINGS: ReadonlyArray<readonly [Rating, number]> = [
+  [1, 0.15],
+  [2, 0.75],
+  [3, 0.1],
+];
+
+// Learning steps can bring a card back several times a day; stop a runaway loop
+const MAX_RATINGS_PER_CARD_PER_DAY = 10;
+
+// Fixed so the same inputs always draw the same chart
+const SIMULATION_SEED = 1;
+
+export interface ForecastDay {
+  dayOffset: number; // 0 = today; overdue cards count towards today
+  dayStartTs: number;
+  vocab: number;
+  coding: number;
+}
+
+export interface WorkloadForecast {
+  deckId: number | null;
+  days: ForecastDay[];
+}
+
+export interface SimulationInput {
+  deckId: number | null;
+  days: number;
+  recallRate: number; // chance a due card is remembered, i.e. not rated Again
+  newPerDay: number | null; // null keeps each deck's preset limit
+}
+
+export interface SimulationDay {
+  dayOffset: number;
+  dayStartTs: number;
+  reviews: number; // every rating except the first look at a new card
+  newCards: number;
+}
+
+export interface SimulationResult {
+  deckId: number | null;
+  days: SimulationDay[];
+  totalReviews: number;
+  peakReviews: number;
+  newCardsRemaining: number;
+}
+
+interface SimulatedDeck {
+  scheduler: Scheduler;
+  easyDays: number[];
+  newPerDay: number;
+  newQueue: SchedulerState[];
+}
+
+interface SimulatedCard {
+  deck: SimulatedDeck;
+  state: SchedulerState;
+}
+
+function validateDays(days: number) {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+    throw new Error(`Forecast length must be between 1 and ${MAX_FORECAST_DAYS} days.`);
+  }
+}
+
+function isNew(row: Pick<SchedulerState, 'reps' | 'learning_stage'>) {
+  return row.reps === 0 && row.learning_stage === 0;
+}
+
+function toState(row: ForecastCardRow): SchedulerState {
+  return {
+    ivl_days: row.ivl_days,
+    ease: row.ease,
+    reps: row.reps,
+    lapses: row.lapses,
+    due_ts: row.due_ts,
+    learning_stage: row.learning_stage,
+    difficulty: row.difficulty,
+    suspended: row.suspended,
+    stability: row.stability,
+    fsrs_difficulty: row.fsrs_difficulty,
+    last_review_ts: row.last_review_ts,
+  };
+}
+
+function dayOffsetOf(dueTs: number, todayStartTs: number) {
+  return Math.max(0, Math.floor((dueTs - todayStartTs) / ONE_DAY_MS));
+}
+
+/**
+ * Cards coming due on each of the next `days` study days, split by card kind.
+ * New cards are left out since they only appear once introduced.
+ */
+export function forecastWorkload(deckId: number | null, days: number): WorkloadForecast {
+  validateDays(days);
+  const todayStartTs = nextDayStartTs() - ONE_DAY_MS;
+  const forecast: ForecastDay[] = Array.from({ length: days }, (_, dayOffset) => ({
+    dayOffset,
+    dayStartTs: todayStartTs + dayOffset * ONE_DAY_MS,
+    vocab: 0,
+    coding: 0,
+  }));
+
+  for (const row of getForecastCards(deckId)) {
+    if (isNew(row)) continue;
+    const offset = dayOffsetOf(row.due_ts, todayStartTs);
+    if (offset < days) {
+      forecast[offset][row.kind] += 1;
+    }
+  }
+
+  return { deckId, days: forecast };
+}
+
+/**
+ * Replays each deck's scheduler day by day with a fixed recall rate and new
+ * card limit, to show the review load those settings lead to. Review limits
+ * are ignored on purpose: the point is to see the backlog they would hide.
+ */
+export function simulateWorkload(input: SimulationInput): SimulationResult {
+  validateDays(input.days);
+  if (!Number.isFinite(input.recallRate) || input.recallRate < 0.5 || input.recallRate > 1) {
+    throw new Error('Recall rate must be between 50% and 100%.');
+  }
+  if (input.newPerDay !== null && (!Number.isInteger(input.newPerDay) || input.newPerDay < 0)) {
+    throw new Error('New cards per day must be a whole number of 0 or more.');
+  }
+
+  const random = mulberry32(SIMULATION_SEED);
+  const todayStartTs = nextDayStartTs() - ONE_DAY_MS;
+  const decks = new Map<number, SimulatedDeck>();
+  const buckets: SimulatedCard[][] = Array.from({ length: input.days }, () => []);
+
+  for (const row of getForecastCards(input.deckId)) {
+    let deck = decks.get(row.deckId);
+    if (!deck) {
+      const preset = getPresetForDeck(row.deckId);
+      deck = {
+        scheduler: createScheduler(
+          getDeckSchedulerConfig(row.deckId),
+          getDeckSchedulerOptions(row.deckId),
+        ),
+        easyDays: preset.easyDays,
+        newPerDay: input.newPerDay ?? preset.newPerDay,
+        newQueue: [],
+      };
+      decks.set(row.deckId, deck);
+    }
+    if (isNew(row)) {
+      deck.newQueue.push(toState(row));
+    } else {
+      const offset = dayOffsetOf(row.due_ts, todayStartTs);
+      if (offset < input.days) {
+        buckets[offset].push({ deck, state: toState(row) });
+      }
+    }
+  }
+
+  // Load balancing looks at the simulated queue rather than the real one
+  const reviewLoad = getLoadBalancing()
+    ? (fromTs: number, count: number) =>
+        Array.from(
+          { length: count },
+          (_, index) =>
+            buckets[dayOffsetOf(fromTs + index * ONE_DAY_MS, todayStartTs)]?.length ?? 0,
+        )
+    : null;
+
+  const pickRating = (): Rating => {
+    if (random() >= input.recallRate) return 0;
+    let roll = random();
+    for (const [rating, share] of SUCCESS_RATINGS) {
+      if (roll < share) return rating;
+      roll -= share;
+    }
+    return 2;
+  };
+
+  // Rates a card until it leaves the day, then files it under its next due day
+  const study = (card: SimulatedCard, day: number, dayStartTs: number) => {
+    const dayEndTs = dayStartTs + ONE_DAY_MS;
+    let now = Math.min(Math.max(dayStartTs, card.state.due_ts), dayEndTs - 1);
+    let ratings = 0;
+    while (ratings < MAX_RATINGS_PER_CARD_PER_DAY) {
+      const spread: IntervalSpread = {
+        seed: Math.floor(random() * 2 ** 32),
+        easyDays: card.deck.easyDays,
+        reviewLoad,
+      };
+      card.state = card.deck.scheduler.schedule(card.state, pickRating(), now, spread);
+      ratings += 1;
+      if (card.state.suspended || card.state.due_ts >= dayEndTs) break;
+      now = Math.max(now + 1, card.state.due_ts);
+    }
+    if (card.state.suspended) return ratings;
+    const offset = Math.max(day + 1, dayOffsetOf(card.state.due_ts, todayStartTs));
+    if (offset < input.days) {
+      buckets[offset].push(card);
+    }
+    return ratings;
+  };
+
+  const days: SimulationDay[] = [];
+  for (let day = 0; day < input.days; day += 1) {
+    const dayStartTs = todayStartTs + day * ONE_DAY_MS;
+    const result: SimulationDay = { dayOffset: day, dayStartTs, reviews: 0, newCards: 0 };
+
+    for (const card of buckets[day]) {
+      result.reviews += study(card, day, dayStartTs);
+    }
+    buckets[day] = [];
+
+    for (const deck of decks.values()) {
+      const introduced = deck.newQueue.splice(0, deck.newPerDay);
+      for (const state of introduced) {
+        result.newCards += 1;
+        result.reviews += study({ deck, state }, day, dayStartTs) - 1;
+      }
+    }
+
+    days.push(result);
+  }
+
+  let newCardsRemaining = 0;
+  for (const deck of decks.values()) {
+    newCardsRemaining += deck.newQueue.length;
+  }
+
+  return {
+    deckId: input.deckId,
+    days,
+    totalReviews: days.reduce((sum, day) => sum + day.reviews, 0),
+    peakReviews: days.reduce((peak, day) => Math.max(peak, day.reviews), 0),
+    newCardsRemaining,
+  };
+}
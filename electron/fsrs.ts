@@ -0,0 +1,222 @@
+import type { Rating, Scheduler, SchedulerOptions, SchedulerState } from './scheduler';
+
+// FSRS-5 default parameters (trained on the open-spaced-repetition benchmark set)
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192, 1.01925,
+  1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // chosen so that R(t = S) = 0.9
+
+const ONE_DAY_MS = 86_400_000;
+
+const MIN_STABILITY = 0.01;
+
+export interface FsrsConfig {
+  desiredRetention?: number;
+  weights?: readonly number[];
+}
+
+function clamp(n: number, lo: number, hi: number) {
+  return Math.min(hi, Math.max(lo, n));
+}
+
+/** Probability of recall after `elapsedDays` for a memory of stability `stability`. */
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+/** Interval (in days) at which recall probability decays to `desiredRetention`. */
+export function intervalForRetention(stability: number, desiredRetention: number): number {
+  return (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+}
+
+export function initialStability(w: readonly number[], grade: number): number {
+  return Math.max(MIN_STABILITY, w[grade - 1]);
+}
+
+export function initialDifficulty(w: readonly number[], grade: number): number {
+  return clamp(w[4] - Math.exp(w[5] * (grade - 1)) + 1, 1, 10);
+}
+
+export function nextDifficulty(w: readonly number[], difficulty: number, grade: number): number {
+  const delta = -w[6] * (grade - 3);
+  // Linear damping keeps difficulty from saturating at the bounds
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  // Mean reversion towards the difficulty of a first "easy" rating
+  const reverted = w[7] * initialDifficulty(w, 4) + (1 - w[7]) * damped;
+  return clamp(reverted, 1, 10);
+}
+
+export function recallStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  r: number,
+  grade: number,
+): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  const growth =
+    Math.exp(w[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -w[9]) *
+    (Math.exp(w[10] * (1 - r)) - 1) *
+    hardPenalty *
+    easyBonus;
+  return Math.max(MIN_STABILITY, stability * (growth + 1));
+}
+
+export function forgetStability(
+  w: readonly number[],
+  difficulty: number,
+  stability: number,
+  r: number,
+): number {
+  const next =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - r));
+  return clamp(next, MIN_STABILITY, stability);
+}
+
+export function shortTermStability(w: readonly number[], stability: number, grade: number): number {
+  return Math.max(MIN_STABILITY, stability * Math.exp(w[17] * (grade - 3 + w[18])));
+}
+
+/**
+ * Memory state for cards that were last scheduled by the classic algorithm
+ * (or migrated from it): stability ≈ interval, difficulty rescaled to 1..10.
+ */
+export function seedMemoryState(state: SchedulerState): { stability: number; difficulty: number } {
+  if (state.stability > 0 && state.fsrs_difficulty > 0) {
+    return { stability: state.stability, difficulty: state.fsrs_difficulty };
+  }
+  return {
+    stability: Math.max(1, state.ivl_days),
+    difficulty: clamp(1 + state.difficulty * 9, 1, 10),
+  };
+}
+
+/**
+ * When the card was last reviewed. Cards without a recorded review are taken
+ * to have been reviewed one interval before they fell due, as migration 4 does.
+ */
+function lastReviewTs(state: SchedulerState): number {
+  return state.last_review_ts ?? state.due_ts - state.ivl_days * ONE_DAY_MS;
+}
+
+function easeFromFsrsDifficulty(difficulty: number) {
+  // Same [1.3 .. 2.5] range the classic scheduler exposes, for display only
+  return clamp(2.5 - ((difficulty - 1) / 9) * 1.2, 1.3, 2.6);
+}
+
+export function createFsrsScheduler(config: FsrsConfig, options: SchedulerOptions): Scheduler {
+  const w = config.weights ?? DEFAULT_FSRS_WEIGHTS;
+  const desiredRetention = config.desiredRetention ?? DEFAULT_DESIRED_RETENTION;
+
+  const intervalDays = (stability: number) =>
+    clamp(Math.round(intervalForRetention(stability, desiredRetention)), 1, options.maxIvlDays);
+
+  function schedule(state: SchedulerState, rating: Rating, now: number = Date.now()) {
+    if (state.suspended) {
+      return { ...state };
+    }
+    if (rating < 0 || rating > 3) {
+      throw new Error(`Unknown rating ${String(rating)}`);
+    }
+
+    const grade = rating + 1;
+    const isNew = state.reps === 0 && state.learning_stage === 0;
+    const inLearning = state.learning_stage > 0;
+    let { reps, lapses, suspended, learning_stage } = state;
+    let stability: number;
+    let difficulty: number;
+
+    if (isNew) {
+      stability = initialStability(w, grade);
+      difficulty = initialDifficulty(w, grade);
+    } else {
+      const seeded = seedMemoryState(state);
+      const elapsedDays = Math.max(0, (now - lastReviewTs(state)) / ONE_DAY_MS);
+      const r = retrievability(elapsedDays, seeded.stability);
+
+      if (elapsedDays < 1) {
+        stability = shortTermStability(w, seeded.stability, grade);
+      } else if (grade === 1) {
+        stability = forgetStability(w, seeded.difficulty, seeded.stability, r);
+      } else {
+        stability = recallStability(w, seeded.difficulty, seeded.stability, r, grade);
+      }
+      difficulty = nextDifficulty(w, seeded.difficulty, grade);
+    }
+
+    const memory = {
+      stability,
+      fsrs_difficulty: difficulty,
+      difficulty: (difficulty - 1) / 9,
+      ease: easeFromFsrsDifficulty(difficulty),
+      last_review_ts: now,
+    };
+
+    const isRelearning = inLearning && reps > 0;
+    const steps = isRelearning ? options.relearningStepsMs : options.learningStepsMs;
+
+    if (rating === 0) {
+      if (!isNew && !inLearning) {
+        // Lapse from review: relearn, keeping the reduced stability
+        lapses += 1;
+        if (lapses >= options.leechThreshold && options.leechAction === 'suspend') {
+          suspended = 1;
+        }
+      }
+      return {
+        ...state,
+        ...memory,
+        ivl_days: 1,
+        reps,
+        lapses,
+        suspended,
+        learning_stage: 1,
+        due_ts: now + (reps > 0 ? options.relearningStepsMs[0] : options.learningStepsMs[0]),
+      };
+    }
+
+    if (isNew || inLearning) {
+      if (rating !== 3) {
+        if (learning_stage === 0) learning_stage = 1;
+        if (rating === 2) learning_stage += 1;
+        if (learning_stage <= steps.length) {
+          return {
+            ...state,
+            ...memory,
+            ivl_days: 1,
+            learning_stage,
+            due_ts: now + steps[learning_stage - 1],
+          };
+        }
+      }
+      // Graduate (finished steps or Easy) into day-scale review
+    }
+
+    const ivl_days = intervalDays(stability);
+    reps = Math.max(0, reps) + 1;
+    return {
+      ...state,
+      ...memory,
+      ivl_days,
+      reps,
+      lapses,
+      suspended,
+      learning_stage: 0,
+      due_ts: now + ivl_days * ONE_DAY_MS,
+    };
+  }
+
+  return { algorithm: 'fsrs', schedule };
+}
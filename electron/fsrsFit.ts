@@ -0,0 +1,223 @@
+import type { RevlogHistoryRow } from './db';
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  forgetStability,
+  initialDifficulty,
+  initialStability,
+  nextDifficulty,
+  recallStability,
+  retrievability,
+  shortTermStability,
+} from './fsrs';
+import { mulberry32 } from './random';
+
+const ONE_DAY_MS = 86_400_000;
+
+// Below this many long-term predictions the fit is mostly noise
+const MIN_REVIEWS = 100;
+
+const ITERATIONS = 200;
+const BATCH_SIZE = 256; // card sequences per gradient step
+const LEARNING_RATE = 0.04;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+// Keeps weights near the defaults unless the history clearly says otherwise
+const REGULARIZATION = 0.002;
+
+// Parameter bounds, matching the reference FSRS implementation
+export const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.001, 100],
+  [0.001, 100],
+  [0.001, 100],
+  [0.001, 100],
+  [1, 10],
+  [0.001, 4],
+  [0.001, 4],
+  [0.001, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.001, 3.5],
+  [0.001, 5],
+  [0.001, 0.25],
+  [0.001, 0.9],
+  [0, 4],
+  [0, 1],
+  [1, 6],
+  [0, 2],
+  [0, 2],
+];
+
+export interface FitMetrics {
+  logLoss: number;
+  rmse: number;
+}
+
+export interface FitResult {
+  cardCount: number;
+  reviewCount: number;
+  before: FitMetrics;
+  after: FitMetrics;
+  weights: number[];
+}
+
+interface Review {
+  elapsedDays: number; // days since the previous rating of the card (0 for the first)
+  grade: number; // 1..4
+}
+
+function clamp(n: number, lo: number, hi: number) {
+  return Math.min(hi, Math.max(lo, n));
+}
+
+/**
+ * Groups the review log into per-card sequences. Cards whose history starts
+ * mid-way (reviewed before the log existed) are skipped since their initial
+ * memory state is unknown.
+ */
+function buildSequences(rows: RevlogHistoryRow[]): Review[][] {
+  const sequences: Review[][] = [];
+  let current: Review[] = [];
+  let currentCard: number | null = null;
+  let lastTs = 0;
+  let skipCard = false;
+
+  for (const row of rows) {
+    if (row.cardId !== currentCard) {
+      if (current.length > 1) sequences.push(current);
+      current = [];
+      currentCard = row.cardId;
+      skipCard = row.reviewType !== 'learn';
+      lastTs = row.reviewTs;
+    }
+    if (skipCard) continue;
+
+    current.push({
+      elapsedDays: current.length === 0 ? 0 : (row.reviewTs - lastTs) / ONE_DAY_MS,
+      grade: clamp(row.rating + 1, 1, 4),
+    });
+    lastTs = row.reviewTs;
+  }
+  if (current.length > 1) sequences.push(current);
+
+  return sequences;
+}
+
+/** Replays every sequence and accumulates loss on day-scale recall predictions. */
+function evaluate(w: readonly number[], sequences: Review[][]) {
+  let logLoss = 0;
+  let squaredError = 0;
+  let count = 0;
+
+  for (const sequence of sequences) {
+    const [first, ...rest] = sequence;
+    let stability = initialStability(w, first.grade);
+    let difficulty = initialDifficulty(w, first.grade);
+
+    for (const review of rest) {
+      if (review.elapsedDays < 1) {
+        stability = shortTermStability(w, stability, review.grade);
+      } else {
+        const r = clamp(retrievability(review.elapsedDays, stability), 1e-4, 1 - 1e-4);
+        const recalled = review.grade > 1 ? 1 : 0;
+        logLoss -= recalled * Math.log(r) + (1 - recalled) * Math.log(1 - r);
+        squaredError += (r - recalled) ** 2;
+        count += 1;
+
+        stability =
+          review.grade === 1
+            ? forgetStability(w, difficulty, stability, r)
+            : recallStability(w, difficulty, stability, r, review.grade);
+      }
+      difficulty = nextDifficulty(w, difficulty, review.grade);
+    }
+  }
+
+  return {
+    count,
+    metrics: {
+      logLoss: count > 0 ? logLoss / count : 0,
+      rmse: count > 0 ? Math.sqrt(squaredError / count) : 0,
+    },
+  };
+}
+
+function objective(w: readonly number[], sequences: Review[][]) {
+  const { metrics } = evaluate(w, sequences);
+  let penalty = 0;
+  for (let i = 0; i < w.length; i += 1) {
+    const scale = Math.max(0.1, DEFAULT_FSRS_WEIGHTS[i]);
+    penalty += ((w[i] - DEFAULT_FSRS_WEIGHTS[i]) / scale) ** 2;
+  }
+  return metrics.logLoss + REGULARIZATION * penalty;
+}
+
+/**
+ * Fits FSRS weights to a review log with Adam on a central finite-difference
+ * gradient over random mini-batches of cards. The cost is bounded by
+ * ITERATIONS × BATCH_SIZE, not by the size of the history.
+ */
+export function fitWeights(rows: RevlogHistoryRow[]): FitResult {
+  const sequences = buildSequences(rows);
+  const baseline = evaluate(DEFAULT_FSRS_WEIGHTS, sequences);
+
+  if (baseline.count < MIN_REVIEWS) {
+    throw new Error(
+      `Not enough review history to optimize: ${baseline.count} day-scale reviews, need at least ${MIN_REVIEWS}.`,
+    );
+  }
+
+  const w = [...DEFAULT_FSRS_WEIGHTS];
+  const m = new Array<number>(w.length).fill(0);
+  const v = new Array<number>(w.length).fill(0);
+  // Seeded so repeated runs on the same history give the same weights
+  const random = mulberry32(rows.length);
+
+  for (let iteration = 1; iteration <= ITERATIONS; iteration += 1) {
+    const batch =
+      sequences.length <= BATCH_SIZE
+        ? sequences
+        : Array.from(
+            { length: BATCH_SIZE },
+            () => sequences[Math.floor(random() * sequences.length)],
+          );
+
+    for (let i = 0; i < w.length; i += 1) {
+      const [lo, hi] = WEIGHT_BOUNDS[i];
+      const h = Math.max(1e-4, Math.abs(w[i]) * 1e-3);
+      const original = w[i];
+      w[i] = clamp(original + h, lo, hi);
+      const up = objective(w, batch);
+      const upStep = w[i] - original;
+      w[i] = clamp(original - h, lo, hi);
+      const down = objective(w, batch);
+      const downStep = original - w[i];
+      w[i] = original;
+
+      const gradient = upStep + downStep > 0 ? (up - down) / (upStep + downStep) : 0;
+      m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient;
+      v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient * gradient;
+      const mHat = m[i] / (1 - ADAM_BETA1 ** iteration);
+      const vHat = v[i] / (1 - ADAM_BETA2 ** iteration);
+      // Step relative to the parameter's scale so tiny and large weights move alike
+      const scale = Math.max(0.1, Math.abs(DEFAULT_FSRS_WEIGHTS[i]));
+      w[i] = clamp(
+        w[i] - (LEARNING_RATE * scale * mHat) / (Math.sqrt(vHat) + ADAM_EPSILON),
+        lo,
+        hi,
+      );
+    }
+  }
+
+  const fitted = evaluate(w, sequences);
+  // Never hand back weights that fit the history worse than the defaults
+  const improved = fitted.metrics.logLoss < baseline.metrics.logLoss;
+
+  return {
+    cardCount: sequences.length,
+    reviewCount: baseline.count,
+    before: baseline.metrics,
+    after: improved ? fitted.metrics : baseline.metrics,
+    weights: (improved ? w : [...DEFAULT_FSRS_WEIGHTS]).map((value) => Number(value.toFixed(5))),
+  };
+}
@@ -1,19 +1,47 @@
-import AdmZip from 'adm-zip';
 import Database from 'better-sqlite3';
 import fs from 'fs-extra';
 import os from 'node:os';
 import path from 'node:path';
 import { app } from 'electron';
-import { attachReviewRow, insertCard, insertDeck, insertNote, runInTransaction } from './db';
-
-interface AnkiModel {
-  name: string;
-  flds: Array<{ name: string }>;
-  tmpls: Array<{ name: string; qfmt: string; afmt: string }>;
-}
+import { extractAnkiPackage, readAnkiDecks, readAnkiModels, readPackageMedia } from './ankiPackage';
+import type { AnkiModel, AnkiPackage } from './ankiPackage';
+import { CODE_LANGUAGE_PATTERN, LANG_PATTERN } from './cardEditor';
+import {
+  attachReviewRow,
+  deleteNotes,
+  ensureDeckPath,
+  findImportMatches,
+  getDeckSources,
+  getImportMappings,
+  insertCard,
+  insertNote,
+  insertImportedRevlog,
+  insertNoteType,
+  isIdTaken,
+  listImportedNotes,
+  listNoteCardTemplates,
+  nextDayStartTs,
+  nextTimestampId,
+  runInTransaction,
+  saveImportMapping,
+  updateCardMetadata,
+  updateImportedNote,
+  updateRenderedCard,
+} from './db';
+import type { ImportedRevlogEntry, ImportMatchNote, ReviewRowState } from './db';
+import { difficultyFromEase } from './scheduler';
+import {
+  buildFieldMap,
+  deriveCardFaces,
+  extractAudioRefs,
+  stripSoundTokens,
+  templateForCard,
+} from './templates';
+import type { ImportFieldMapping, ImportFieldRole, ImportOptions, ImportSummary } from './types';
 
 interface NoteRecord {
   id: number;
+  guid: string;
   mid: number;
   flds: string;
   tags: string;
@@ -22,22 +50,130 @@ interface NoteRecord {
 interface CardRecord {
   id: number;
   nid: number;
+  did: number; // home deck; cards in a filtered deck report their original one
   ord: number;
+  type: number; // 0 = new, 1 = learning, 2 = review, 3 = relearning
+  queue: number; // -3/-2 = buried, -1 = suspended, otherwise follows type
+  due: number; // new: queue position; learning: epoch seconds; review: days since crt
+  ivl: number; // days
+  factor: number; // ease in permille, 0 for new cards
+  reps: number;
+  lapses: number;
+  data: string | null; // JSON; FSRS memory state as { s, d } since Anki 23.10
 }
 
+interface RevlogRecord {
+  id: number; // review time in epoch ms
+  cid: number;
+  ease: number; // answer button 1..4, 0 for manual changes
+  ivl: number; // days when positive, seconds when negative
+  lastIvl: number;
+  factor: number;
+  time: number; // ms spent answering
+  type: number; // 0 = learn, 1 = review, 2 = relearn, 3 = filtered, 4+ = manual
+}
+
+const DAY_MS = 86_400_000;
+const REVLOG_REVIEW_TYPES = ['learn', 'review', 'relearn', 'review'] as const;
+
+const PREVIEW_LENGTH = 80;
+const CONFLICT_LIST_LIMIT = 50;
+const SAMPLE_NOTE_COUNT = 3;
+const FIELD_ROLES: ImportFieldRole[] = [
+  'target',
+  'meaning',
+  'pos',
+  'audio',
+  'code',
+  'expectedOutput',
+];
+
 export interface ImportResult {
   deckId: number;
-  count: number;
+  count: number; // cards added
+  updated: number; // existing notes that took the package's fields
+  removed: number;
 }
 
-function extractFields(raw: string): string[] {
-  return raw.split('\u001f').map((segment) => segment.trim());
+function easeFromFactor(factor: number) {
+  return factor > 0 ? factor / 1000 : 2.5;
+}
+
+function intervalMs(ivl: number) {
+  return ivl < 0 ? -ivl * 1000 : ivl * DAY_MS;
+}
+
+function readFsrsMemory(data: string | null): { stability: number; fsrsDifficulty: number } {
+  try {
+    const parsed = data ? (JSON.parse(data) as { s?: unknown; d?: unknown }) : {};
+    if (typeof parsed.s === 'number' && typeof parsed.d === 'number') {
+      return { stability: parsed.s, fsrsDifficulty: parsed.d };
+    }
+  } catch {
+    // Older collections leave `data` empty or use it for add-on state
+  }
+  return { stability: 0, fsrsDifficulty: 0 };
 }
 
-const SOUND_PATTERN = /\[sound:([^\]]+)]/gi;
+/**
+ * Maps an Anki card's scheduling onto a review row. Learning cards that have
+ * never graduated keep reps at 0, matching how the scheduler tells learning
+ * from relearning.
+ */
+function toReviewState(
+  card: CardRecord,
+  collectionCreatedTs: number,
+  lastReviewTs: number | null,
+  now: number,
+): ReviewRowState {
+  const ease = easeFromFactor(card.factor);
+  const isLearning = card.type === 1 || card.type === 3;
+  // Intraday learning cards are due at a timestamp, everything else on a day number
+  const dueTs =
+    card.type === 0
+      ? now
+      : isLearning && card.due > 1_000_000_000
+        ? card.due * 1000
+        : collectionCreatedTs + card.due * DAY_MS;
+  const ivlDays = card.type === 0 ? 0 : Math.max(0, card.ivl);
+
+  return {
+    dueTs,
+    ivlDays,
+    ease,
+    reps: card.type === 0 || card.type === 1 ? 0 : Math.max(1, card.reps),
+    lapses: card.lapses,
+    difficulty: difficultyFromEase(ease),
+    learningStage: isLearning ? 1 : 0,
+    suspended: card.queue === -1,
+    ...readFsrsMemory(card.data),
+    // Without review history, a review card was last seen one interval before it fell due
+    lastReviewTs: lastReviewTs ?? (card.type === 2 ? dueTs - ivlDays * DAY_MS : null),
+    buriedUntil: card.queue === -2 || card.queue === -3 ? nextDayStartTs(now) : null,
+  };
+}
 
-function stripSoundTokens(input: string): string {
-  return input.replace(SOUND_PATTERN, '').trim();
+function toRevlogEntry(row: RevlogRecord, cardId: number): ImportedRevlogEntry {
+  const ease = easeFromFactor(row.factor);
+  return {
+    cardId,
+    reviewTs: row.id,
+    rating: row.ease - 1,
+    reviewType: REVLOG_REVIEW_TYPES[row.type],
+    prevIvlDays: Math.max(0, row.lastIvl),
+    ivlDays: Math.max(0, row.ivl),
+    prevEase: ease,
+    ease,
+    prevDifficulty: difficultyFromEase(ease),
+    difficulty: difficultyFromEase(ease),
+    prevDueTs: row.id,
+    dueTs: row.id + intervalMs(row.ivl),
+    timeMs: row.time,
+  };
+}
+
+function extractFields(raw: string): string[] {
+  return raw.split('\u001f').map((segment) => segment.trim());
 }
 
 function stripHtml(input: string): string {
@@ -72,43 +208,6 @@ function guessCodeLanguage(code: string, tags: string[]): string {
   return 'javascript';
 }
 
-function extractAudioRefs(...sources: string[]): string[] {
-  const results = new Set<string>();
-  for (const source of sources) {
-    let match: RegExpExecArray | null;
-    SOUND_PATTERN.lastIndex = 0;
-    while ((match = SOUND_PATTERN.exec(source)) !== null) {
-      results.add(match[1]);
-    }
-  }
-  return [...results];
-}
-
-function renderTemplate(template: string, fieldMap: Record<string, string>): string {
-  const withoutFrontSide = template.replace(/{{\s*FrontSide\s*}}/gi, '');
-  return withoutFrontSide.replace(/{{([^}]+)}}/g, (_, key: string) => {
-    const cleanedKey = key
-      .replace(/[#^\/]/g, '')
-      .replace(/type:/i, '')
-      .trim();
-    return fieldMap[cleanedKey] ?? '';
-  });
-}
-
-function guessTargetLexeme(fieldMap: Record<string, string>): string {
-  const priorityKeys = ['Word', 'Vocab', 'Expression', 'Kanji', 'Target', 'Term'];
-
-  for (const key of priorityKeys) {
-    const match = fieldMap[key];
-    if (match) {
-      return match.replace(SOUND_PATTERN, '').trim();
-    }
-  }
-
-  const [first] = Object.values(fieldMap);
-  return stripSoundTokens(first ?? '');
-}
-
 function guessLang(tags: string[]): string {
   if (tags.some((tag) => /spanish|español|es\b/i.test(tag))) {
     return 'es';
@@ -122,107 +221,98 @@ function guessLang(tags: string[]): string {
   return 'en';
 }
 
-interface CodingDetection {
-  prompt: string;
-  code: string;
-  expectedOutput: string;
-  language: string;
-  explainContext: string | null;
+function modelFieldNames(model: AnkiModel | undefined): string[] {
+  // Matches buildFieldMap, which names the fields of notes without a note type
+  return model ? model.flds.map((field) => field.name) : ['Front', 'Back'];
 }
 
-function detectCodingCard(
-  fieldMap: Record<string, string>,
-  tags: string[],
-): CodingDetection | null {
-  const entries = Object.entries(fieldMap);
-  const codeEntry = entries.find(([key]) => /code|snippet|solution|implementation/i.test(key));
-  const expectedEntry = entries.find(([key]) => /(expected|output|result)/i.test(key));
-
-  if (!codeEntry || !expectedEntry) {
-    return null;
-  }
-
-  const promptEntry = entries.find(([key]) => /(prompt|task|challenge|goal|question)/i.test(key));
-  const languageEntry = entries.find(([key]) => /(language|lang)/i.test(key));
-  const contextEntry = entries.find(([key]) => /(context|explain|concept)/i.test(key));
-
-  const code = stripSoundTokens(codeEntry[1]);
-  const expected = stripHtml(stripSoundTokens(expectedEntry[1]));
-  if (!code || !expected) {
-    return null;
+/** A first guess at how a note type maps onto cards, from its field names and some notes. */
+function guessFieldMapping(
+  fieldNames: string[],
+  notes: Array<{ fields: string[]; tags: string[] }>,
+): ImportFieldMapping {
+  const findField = (pattern: RegExp) => fieldNames.find((name) => pattern.test(name));
+  const tags = notes.flatMap((note) => note.tags);
+  const code = findField(/code|snippet|solution|implementation/i);
+  const expectedOutput = findField(/(expected|output|result)/i);
+
+  if (code && expectedOutput) {
+    const sampleCode = stripSoundTokens(notes[0]?.fields[fieldNames.indexOf(code)] ?? '');
+    return {
+      kind: 'coding',
+      lang: guessCodeLanguage(sampleCode, tags),
+      fields: {
+        target: findField(/(prompt|task|challenge|goal|question)/i),
+        meaning: findField(/(context|explain|concept)/i),
+        code,
+        expectedOutput,
+      },
+    };
   }
 
-  const prompt = stripSoundTokens(promptEntry?.[1] ?? code);
-  const language = stripSoundTokens(languageEntry?.[1] ?? '') || guessCodeLanguage(code, tags);
-  const explainContext = contextEntry ? stripSoundTokens(contextEntry[1]) : null;
-
+  const targetKeys = ['Word', 'Vocab', 'Expression', 'Kanji', 'Target', 'Term'];
   return {
-    prompt,
-    code,
-    expectedOutput: expected,
-    language,
-    explainContext,
+    kind: 'vocab',
+    lang: guessLang(tags),
+    fields: {
+      target: targetKeys.find((key) => fieldNames.includes(key)) ?? fieldNames[0],
+      meaning: findField(/hint|meaning|definition/i),
+      pos: findField(/(pos|part of speech)/i),
+      audio:
+        findField(/audio|sound|pronunciation/i) ??
+        fieldNames.find((_name, index) =>
+          notes.some((note) => extractAudioRefs(note.fields[index] ?? '').length > 0),
+        ),
+    },
   };
 }
 
-function guessSenseHint(fieldMap: Record<string, string>): string | null {
-  const hintKey = Object.keys(fieldMap).find((key) => /hint|meaning|definition/i.test(key));
-  if (!hintKey) {
-    return null;
+/** Checks a mapping against the note type's fields, dropping fields it no longer has. */
+function normalizeFieldMapping(
+  mapping: ImportFieldMapping,
+  fieldNames: string[],
+  noteTypeName: string,
+): ImportFieldMapping {
+  if (mapping.kind !== 'vocab' && mapping.kind !== 'coding') {
+    throw new Error(`Choose vocab or coding for "${noteTypeName}".`);
   }
-  return stripSoundTokens(fieldMap[hintKey]);
-}
-
-function guessPos(fieldMap: Record<string, string>): string | null {
-  const posKey = Object.keys(fieldMap).find((key) => /(pos|part of speech)/i.test(key));
-  if (!posKey) {
-    return null;
+  const lang = typeof mapping.lang === 'string' ? mapping.lang.trim() : '';
+  if (mapping.kind === 'vocab' && !LANG_PATTERN.test(lang)) {
+    throw new Error(`"${lang}" is not a language code such as es or fr, in "${noteTypeName}".`);
   }
-  return stripSoundTokens(fieldMap[posKey]).toLowerCase();
-}
-
-function buildFieldMap(model: AnkiModel | undefined, fields: string[]): Record<string, string> {
-  if (!model) {
-    const [first = '', second = ''] = fields;
-    return {
-      Front: first,
-      Back: second,
-    };
+  if (mapping.kind === 'coding' && !CODE_LANGUAGE_PATTERN.test(lang)) {
+    throw new Error(`"${lang}" is not a valid code language name, in "${noteTypeName}".`);
   }
 
-  return model.flds.reduce<Record<string, string>>((acc, field, index) => {
-    acc[field.name] = fields[index] ?? '';
-    return acc;
-  }, {});
+  const fields: ImportFieldMapping['fields'] = {};
+  for (const role of FIELD_ROLES) {
+    const fieldName = mapping.fields?.[role];
+    if (fieldName && fieldNames.includes(fieldName)) {
+      fields[role] = fieldName;
+    }
+  }
+  if (mapping.kind === 'coding' && (!fields.code || !fields.expectedOutput)) {
+    throw new Error(
+      `Map the code and expected output fields of "${noteTypeName}", or import it as vocab.`,
+    );
+  }
+  return { kind: mapping.kind, lang, fields };
 }
 
-function deriveCardFaces(
-  template: { qfmt: string; afmt: string } | undefined,
-  fieldMap: Record<string, string>,
-  fallbackFields: string[],
-): { front: string; back: string } {
-  if (!template) {
-    const [front = '', back = ''] = fallbackFields;
-    return {
-      front: stripSoundTokens(front),
-      back: stripSoundTokens(back) || stripSoundTokens(fallbackFields.slice(1).join('<br />')),
-    };
+function guessFrequencyRank(fieldMap: Record<string, string>): number | null {
+  const rankKey = Object.keys(fieldMap).find((key) => /(freq|frequency|rank)/i.test(key));
+  if (!rankKey) {
+    return null;
   }
-
-  const front = renderTemplate(template.qfmt, fieldMap);
-  const back = renderTemplate(template.afmt, fieldMap);
-
-  return {
-    front: stripSoundTokens(front),
-    back: stripSoundTokens(back),
-  };
+  const rank = Number.parseInt(stripHtml(fieldMap[rankKey]), 10);
+  return Number.isFinite(rank) && rank > 0 ? rank : null;
 }
 
 async function copyMediaAssets(
   deckId: number,
   referencedFiles: Set<string>,
   tempDir: string,
-  mediaManifest: Record<string, string>,
+  pkg: AnkiPackage,
 ) {
   if (referencedFiles.size === 0) {
     return;
@@ -232,7 +322,7 @@ async function copyMediaAssets(
   await fs.ensureDir(mediaDir);
 
   const reverseLookup = new Map<string, string>();
-  for (const [id, filename] of Object.entries(mediaManifest)) {
+  for (const [id, filename] of Object.entries(pkg.mediaManifest)) {
     reverseLookup.set(filename, id);
   }
 
@@ -242,10 +332,9 @@ async function copyMediaAssets(
       if (!sourceId) {
         return;
       }
-      const sourcePath = path.join(tempDir, sourceId);
       const targetPath = path.join(mediaDir, filename);
       try {
-        await fs.copyFile(sourcePath, targetPath);
+        await fs.writeFile(targetPath, await readPackageMedia(pkg, tempDir, sourceId));
       } catch (error) {
         console.warn('[import] failed to copy media asset', { filename, error });
       }
@@ -253,126 +342,567 @@ async function copyMediaAssets(
   );
 }
 
-export async function importApkg(filePath: string): Promise<ImportResult> {
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'anki-hero-'));
+interface AnkiCollection {
+  modelMap: Map<number, AnkiModel>;
+  ankiDecks: Map<number, string>;
+  notes: NoteRecord[]; // only notes with at least one card
+  cardsByNote: Map<number, CardRecord[]>;
+  noteDecks: Map<number, number>; // Anki note id → Anki deck id
+  revlog: RevlogRecord[];
+  collectionCreatedTs: number;
+}
 
+function readCollection(collectionPath: string): AnkiCollection {
+  const collection = new Database(collectionPath, { readonly: true, fileMustExist: true });
   try {
-    const zip = new AdmZip(filePath);
-    zip.extractAllTo(tempDir, true);
-
-    const collectionPath = path.join(tempDir, 'collection.anki2');
-    if (!(await fs.pathExists(collectionPath))) {
-      throw new Error('collection.anki2 not found in archive');
+    const notes = collection
+      .prepare<unknown[], NoteRecord>(`SELECT id, guid, mid, flds, tags FROM notes`)
+      .all();
+    const cards = collection
+      .prepare<unknown[], CardRecord>(
+        `
+        SELECT
+          id, nid, CASE WHEN odid != 0 THEN odid ELSE did END AS did, ord,
+          type, queue, due, ivl, factor, reps, lapses, data
+        FROM cards
+        ORDER BY nid, ord
+      `,
+      )
+      .all();
+    // Manual reschedules (ease 0) and later entry types are not answers
+    const revlog = collection
+      .prepare<unknown[], RevlogRecord>(
+        `
+        SELECT id, cid, ease, ivl, lastIvl, factor, time, type
+        FROM revlog
+        WHERE ease BETWEEN 1 AND 4 AND type BETWEEN 0 AND 3
+        ORDER BY id
+      `,
+      )
+      .all();
+    const { crt } = collection.prepare(`SELECT crt FROM col LIMIT 1`).get() as { crt: number };
+
+    const cardsByNote = new Map<number, CardRecord[]>();
+    // Anki keeps decks per card but here a note has one deck, that of its first card
+    const noteDecks = new Map<number, number>();
+    for (const card of cards) {
+      const noteCards = cardsByNote.get(card.nid) ?? [];
+      noteCards.push(card);
+      cardsByNote.set(card.nid, noteCards);
+      if (!noteDecks.has(card.nid)) {
+        noteDecks.set(card.nid, card.did);
+      }
     }
 
-    const mediaManifestPath = path.join(tempDir, 'media');
-    const mediaManifest = (await fs.pathExists(mediaManifestPath))
-      ? (JSON.parse(await fs.readFile(mediaManifestPath, 'utf8')) as Record<string, string>)
-      : {};
+    return {
+      modelMap: readAnkiModels(collection),
+      ankiDecks: readAnkiDecks(collection),
+      // A note without cards has nothing to study
+      notes: notes.filter((note) => cardsByNote.has(note.id)),
+      cardsByNote,
+      noteDecks,
+      revlog,
+      collectionCreatedTs: crt * 1000,
+    };
+  } finally {
+    collection.close();
+  }
+}
 
-    const modelMap = new Map<number, AnkiModel>();
-    let notes: NoteRecord[] = [];
-    let cards: CardRecord[] = [];
+function splitTags(raw: string): string[] {
+  return raw
+    .split(' ')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
 
-    const collection = new Database(collectionPath, { readonly: true, fileMustExist: true });
-    try {
-      const modelsRow = collection.prepare(`SELECT models FROM col LIMIT 1`).get() as {
-        models: string;
-      };
-      const parsedModels = JSON.parse(modelsRow.models) as Record<
-        string,
-        AnkiModel & { id: number }
-      >;
-      for (const [id, model] of Object.entries(parsedModels)) {
-        modelMap.set(Number(model.id ?? id), model);
+/** Renders one card of a note through its Anki template and maps its fields for study. */
+function renderAnkiCard(
+  model: AnkiModel | undefined,
+  mapping: ImportFieldMapping,
+  fields: string[],
+  tags: string[],
+  ord: number,
+) {
+  const fieldMap = buildFieldMap(model ? modelFieldNames(model) : null, fields);
+  const isCloze = model?.type === 1;
+  const template = templateForCard(model?.tmpls ?? null, ord, isCloze);
+  const { front, back } = deriveCardFaces(template, fieldMap, fields, isCloze ? ord + 1 : null);
+
+  const field = (role: ImportFieldRole) => {
+    const name = mapping.fields[role];
+    return name ? stripSoundTokens(fieldMap[name] ?? '') : '';
+  };
+  const code = mapping.kind === 'coding' ? field('code') : '';
+  const expectedOutput = mapping.kind === 'coding' ? stripHtml(field('expectedOutput')) : '';
+  // A coding note with nothing to run is still worth studying as vocab
+  const coding =
+    code && expectedOutput
+      ? {
+          prompt: field('target') || code,
+          code,
+          language: mapping.lang,
+          expectedOutput,
+          explainContext: field('meaning') || null,
+        }
+      : null;
+  const audioField = mapping.fields.audio;
+
+  return {
+    frontHtml: front,
+    backHtml: back,
+    audioRefs: audioField
+      ? extractAudioRefs(fieldMap[audioField] ?? '')
+      : extractAudioRefs(front, back, ...fields),
+    mediaRefs: extractAudioRefs(front, back, ...fields),
+    targetLexeme: coding
+      ? coding.prompt.slice(0, 120)
+      : field('target') || stripSoundTokens(fields[0] ?? ''),
+    lang: coding ? coding.language : mapping.kind === 'vocab' ? mapping.lang : guessLang(tags),
+    pos: coding ? null : field('pos').toLowerCase() || null,
+    senseHint: coding ? null : field('meaning') || null,
+    kind: coding ? ('coding' as const) : ('vocab' as const),
+    extra: coding,
+    frequencyRank: coding ? null : guessFrequencyRank(fieldMap),
+  };
+}
+
+type NoteSample = { fields: string[]; tags: string[] };
+
+function groupNotesByModel(collection: AnkiCollection): Map<number, NoteSample[]> {
+  const notesByModel = new Map<number, NoteSample[]>();
+  for (const note of collection.notes) {
+    const notes = notesByModel.get(note.mid) ?? [];
+    notes.push({ fields: extractFields(note.flds), tags: splitTags(note.tags) });
+    notesByModel.set(note.mid, notes);
+  }
+  return notesByModel;
+}
+
+interface ResolvedMapping {
+  mapping: ImportFieldMapping;
+  remembered: boolean;
+  changed: boolean; // differs from what the last import used
+}
+
+/**
+ * The field mapping of each note type in the package: the one chosen for this
+ * import, else the one remembered from the last, else a guess. A remembered
+ * mapping that no longer fits its note type is guessed again.
+ */
+function resolveFieldMappings(
+  database: Database.Database,
+  collection: AnkiCollection,
+  notesByModel: Map<number, NoteSample[]>,
+  chosen: Record<number, ImportFieldMapping>,
+): Map<number, ResolvedMapping> {
+  const rememberedMappings = getImportMappings(database, [...notesByModel.keys()]);
+  const resolved = new Map<number, ResolvedMapping>();
+
+  for (const [mid, notes] of notesByModel) {
+    const model = collection.modelMap.get(mid);
+    const fieldNames = modelFieldNames(model);
+    const name = model?.name ?? `Note type ${mid}`;
+    const guess = normalizeFieldMapping(guessFieldMapping(fieldNames, notes), fieldNames, name);
+
+    let previous = guess;
+    const remembered = rememberedMappings.get(mid);
+    if (remembered) {
+      try {
+        previous = normalizeFieldMapping(remembered, fieldNames, name);
+      } catch {
+        // The note type lost a mapped field since the last import
       }
+    }
+
+    const choice = chosen[mid];
+    const mapping = choice ? normalizeFieldMapping(choice, fieldNames, name) : previous;
+    resolved.set(mid, {
+      mapping,
+      remembered: previous !== guess,
+      changed: JSON.stringify(mapping) !== JSON.stringify(previous),
+    });
+  }
+  return resolved;
+}
+
+type NoteImportStatus = 'added' | 'updated' | 'unchanged' | 'conflicting';
 
-      notes = collection
-        .prepare<unknown[], NoteRecord>(`SELECT id, mid, flds, tags FROM notes`)
-        .all();
-      cards = collection.prepare<unknown[], CardRecord>(`SELECT id, nid, ord FROM cards`).all();
-    } finally {
-      collection.close();
+interface PlannedNote {
+  note: NoteRecord;
+  fields: string[];
+  tags: string[];
+  local: ImportMatchNote | null;
+  status: NoteImportStatus;
+}
+
+interface ImportPlan {
+  notes: PlannedNote[];
+  removed: Array<{ id: number; guid: string; fields: string[] }>;
+  deckNames: string[];
+  mergedDeckNames: string[];
+}
+
+function sameFields(left: string[], right: string[]) {
+  return left.length === right.length && left.every((field, index) => field === right[index]);
+}
+
+/**
+ * Compares a package note with the local copy. The fields last imported tell
+ * an upstream change from a local edit; only a note changed on both sides is
+ * a conflict.
+ */
+function compareNote(local: ImportMatchNote, fields: string[], tags: string[]): NoteImportStatus {
+  const source = local.sourceFields ?? local.fields;
+  const changedUpstream = !sameFields(fields, source) && !sameFields(fields, local.fields);
+  if (changedUpstream) {
+    return sameFields(local.fields, source) ? 'updated' : 'conflicting';
+  }
+  return tags.some((tag) => !local.tags.includes(tag)) ? 'updated' : 'unchanged';
+}
+
+function planImport(
+  database: Database.Database,
+  collection: AnkiCollection,
+  fileName: string,
+  fallbackDeckName: string,
+): ImportPlan {
+  const matches = findImportMatches(
+    database,
+    collection.notes.map((note) => note.guid),
+    collection.notes.map((note) => note.id),
+  );
+  const byGuid = new Map<string, ImportMatchNote>();
+  const byLegacyId = new Map<number, ImportMatchNote>();
+  for (const match of matches) {
+    if (match.guid === null) {
+      byLegacyId.set(match.id, match);
+    } else {
+      byGuid.set(match.guid, match);
     }
+  }
+
+  const notes = collection.notes.map((note): PlannedNote => {
+    const fields = extractFields(note.flds);
+    const tags = splitTags(note.tags);
+    const local = byGuid.get(note.guid) ?? byLegacyId.get(note.id) ?? null;
+    return {
+      note,
+      fields,
+      tags,
+      local,
+      status: local ? compareNote(local, fields, tags) : 'added',
+    };
+  });
+
+  const deckNames = [
+    ...new Set(
+      [...collection.noteDecks.values()].map(
+        (ankiDeckId) => collection.ankiDecks.get(ankiDeckId) ?? fallbackDeckName,
+      ),
+    ),
+  ].sort();
+
+  // Only notes this package brought in before count as deleted upstream; notes
+  // other packages imported into the same decks are not its to remove
+  const packageGuids = new Set(collection.notes.map((note) => note.guid));
+  const removed = listImportedNotes(database, fileName).filter(
+    (note) => !packageGuids.has(note.guid),
+  );
+
+  // Decks along the package's paths that exist already but did not come from
+  // this package; the import adds to them rather than making its own
+  const deckPaths = new Set(
+    deckNames.flatMap((name) =>
+      name.split('::').map((_part, index, parts) => parts.slice(0, index + 1).join('::')),
+    ),
+  );
+  const sources = getDeckSources(database, [...deckPaths]);
+  const mergedDeckNames = [...sources]
+    .filter(([, sourcePath]) => sourcePath === null || path.basename(sourcePath) !== fileName)
+    .map(([name]) => name)
+    .sort();
 
-    const noteMap = new Map<number, NoteRecord>();
-    for (const note of notes) {
-      noteMap.set(note.id, note);
+  return { notes, removed, deckNames, mergedDeckNames };
+}
+
+function plainPreview(field: string) {
+  return stripHtml(field).slice(0, PREVIEW_LENGTH);
+}
+
+async function withAnkiCollection<T>(
+  filePath: string,
+  work: (pkg: AnkiPackage, collection: AnkiCollection, tempDir: string) => T | Promise<T>,
+): Promise<T> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'anki-hero-'));
+  try {
+    const pkg = await extractAnkiPackage(filePath, tempDir);
+    return await work(pkg, readCollection(pkg.collectionPath), tempDir);
+  } finally {
+    await fs.remove(tempDir);
+  }
+}
+
+/** Reads a package and reports what importing it would change, without writing anything. */
+export async function previewImport(filePath: string): Promise<ImportSummary> {
+  const fileName = path.basename(filePath);
+  const fallbackDeckName = path.basename(filePath, path.extname(filePath));
+
+  return withAnkiCollection(filePath, (_pkg, collection) => {
+    const notesByModel = groupNotesByModel(collection);
+    const { plan, mappings } = runInTransaction((database) => ({
+      plan: planImport(database, collection, fileName, fallbackDeckName),
+      mappings: resolveFieldMappings(database, collection, notesByModel, {}),
+    }));
+    if (plan.notes.length === 0) {
+      throw new Error(`"${fileName}" does not contain any cards.`);
     }
 
-    const referencedAudio = new Set<string>();
-    const deckName = path.basename(filePath, path.extname(filePath));
+    const noteTypes = [...notesByModel].flatMap(([mid, notes]) => {
+      const model = collection.modelMap.get(mid);
+      const resolved = mappings.get(mid);
+      if (!model || !resolved) return [];
+      const fieldNames = modelFieldNames(model);
+      return [
+        {
+          id: mid,
+          name: model.name,
+          fieldNames,
+          noteCount: notes.length,
+          samples: notes
+            .slice(0, SAMPLE_NOTE_COUNT)
+            .map((note) =>
+              fieldNames.map((_name, index) => plainPreview(note.fields[index] ?? '')),
+            ),
+          mapping: resolved.mapping,
+          remembered: resolved.remembered,
+        },
+      ];
+    });
 
-    const { deckId, count } = runInTransaction((database) => {
-      const deckId = insertDeck(database, { name: deckName, sourcePath: filePath });
+    const count = (status: NoteImportStatus) =>
+      plan.notes.filter((planned) => planned.status === status).length;
+    const conflicts = plan.notes.flatMap((planned) =>
+      planned.status === 'conflicting' && planned.local
+        ? [
+            {
+              guid: planned.note.guid,
+              local: plainPreview(stripSoundTokens(planned.local.fields[0] ?? '')),
+              incoming: plainPreview(stripSoundTokens(planned.fields[0] ?? '')),
+            },
+          ]
+        : [],
+    );
 
-      for (const note of notes) {
-        const fields = extractFields(note.flds);
-        const tags = note.tags
-          .split(' ')
-          .map((tag) => tag.trim())
-          .filter(Boolean);
-        insertNote(database, { id: note.id, deckId, fields, tags });
-      }
+    return {
+      fileName,
+      deckNames: plan.deckNames,
+      mergedDeckNames: plan.mergedDeckNames,
+      added: count('added'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      conflicting: conflicts.length,
+      removed: plan.removed.length,
+      conflicts: conflicts.slice(0, CONFLICT_LIST_LIMIT),
+      noteTypes,
+    };
+  });
+}
+
+/**
+ * Imports a package, or updates the decks it was imported into before. Notes
+ * are matched by their Anki guid: new notes arrive with the package's review
+ * state, while notes already here keep their deck and review progress and only
+ * take the package's content.
+ */
+export async function importApkg(
+  filePath: string,
+  options: ImportOptions = { removeMissing: false, overwriteConflicts: false, mappings: {} },
+): Promise<ImportResult> {
+  const fileName = path.basename(filePath);
+  const fallbackDeckName = path.basename(filePath, path.extname(filePath));
+
+  return withAnkiCollection(filePath, async (pkg, collection, tempDir) => {
+    const { modelMap, ankiDecks, cardsByNote, noteDecks, revlog, collectionCreatedTs } = collection;
+    const lastReviewByCard = new Map<number, number>();
+    for (const entry of revlog) {
+      lastReviewByCard.set(entry.cid, entry.id);
+    }
+    const now = Date.now();
 
-      let cardCount = 0;
+    const referencedAudio = new Map<number, Set<string>>();
+    const addAudio = (deckId: number, audioRefs: string[]) => {
+      const deckAudio = referencedAudio.get(deckId) ?? new Set<string>();
+      audioRefs.forEach((ref) => deckAudio.add(ref));
+      referencedAudio.set(deckId, deckAudio);
+    };
 
-      for (const card of cards) {
-        const note = noteMap.get(card.nid);
-        if (!note) continue;
+    const result = runInTransaction((database) => {
+      const plan = planImport(database, collection, fileName, fallbackDeckName);
+
+      const localDeckIds = new Map<number, number>();
+      const resolveDeck = (ankiDeckId: number) => {
+        let localId = localDeckIds.get(ankiDeckId);
+        if (localId === undefined) {
+          localId = ensureDeckPath(database, {
+            name: ankiDecks.get(ankiDeckId) ?? fallbackDeckName,
+            sourcePath: filePath,
+          });
+          localDeckIds.set(ankiDeckId, localId);
+        }
+        return localId;
+      };
 
-        const model = modelMap.get(note.mid);
-        const noteTags = note.tags
-          .split(' ')
-          .map((tag) => tag.trim())
-          .filter(Boolean);
-        const fields = extractFields(note.flds);
-        const fieldMap = buildFieldMap(model, fields);
-        const template = model?.tmpls?.[card.ord];
-        const { front, back } = deriveCardFaces(template, fieldMap, fields);
-        const audioRefs = extractAudioRefs(front, back, ...fields);
-        audioRefs.forEach((ref) => referencedAudio.add(ref));
-
-        const coding = detectCodingCard(fieldMap, noteTags);
-        const kind = coding ? 'coding' : 'vocab';
-        const language = coding ? coding.language : guessLang(noteTags);
-        const targetLexeme = coding ? coding.prompt.slice(0, 120) : guessTargetLexeme(fieldMap);
-        const pos = coding ? null : guessPos(fieldMap);
-        const senseHint = coding ? null : guessSenseHint(fieldMap);
+      for (const [id, model] of modelMap) {
+        insertNoteType(database, {
+          id,
+          name: model.name,
+          fieldNames: model.flds.map((field) => field.name),
+          templates: model.tmpls.map(({ name, qfmt, afmt }) => ({ name, qfmt, afmt })),
+          css: model.css ?? '',
+          isCloze: model.type === 1,
+        });
+      }
 
+      const mappings = resolveFieldMappings(
+        database,
+        collection,
+        groupNotesByModel(collection),
+        options.mappings,
+      );
+      for (const [mid, { mapping }] of mappings) {
+        if (modelMap.has(mid)) saveImportMapping(database, mid, mapping);
+      }
+
+      // Anki card id → local card id, for the review history of new cards
+      const addedCards = new Map<number, number>();
+      const addCard = (
+        noteId: number,
+        deckId: number,
+        card: CardRecord,
+        { mediaRefs, ...rendered }: ReturnType<typeof renderAnkiCard>,
+      ) => {
+        const cardId = isIdTaken(database, 'cards', card.id)
+          ? nextTimestampId(database, 'cards')
+          : card.id;
         insertCard(database, {
-          id: card.id,
-          noteId: note.id,
-          frontHtml: front,
-          backHtml: back,
-          audioRefs,
-          targetLexeme,
-          lang: language,
-          pos,
-          senseHint,
-          kind,
-          extra: coding
-            ? {
-                prompt: coding.prompt,
-                code: coding.code,
-                language: coding.language,
-                expectedOutput: coding.expectedOutput,
-                explainContext: coding.explainContext,
-              }
-            : undefined,
+          id: cardId,
+          noteId,
+          ...rendered,
+          newPosition: card.type === 0 ? card.due : null,
+          templateOrd: card.ord,
         });
+        attachReviewRow(
+          cardId,
+          database,
+          toReviewState(card, collectionCreatedTs, lastReviewByCard.get(card.id) ?? null, now),
+        );
+        addedCards.set(card.id, cardId);
+        addAudio(deckId, mediaRefs);
+      };
 
-        attachReviewRow(card.id, database);
-        cardCount += 1;
+      let firstDeckId: number | null = null;
+      let updatedCount = 0;
+
+      for (const { note, fields, tags, local, status } of plan.notes) {
+        const model = modelMap.get(note.mid);
+        const noteTypeId = model ? note.mid : null;
+        const resolved = mappings.get(note.mid);
+        if (!resolved) continue;
+        const cards = cardsByNote.get(note.id) ?? [];
+
+        if (!local) {
+          const deckId = resolveDeck(noteDecks.get(note.id) ?? 0);
+          firstDeckId ??= deckId;
+          const noteId = isIdTaken(database, 'notes', note.id)
+            ? nextTimestampId(database, 'notes')
+            : note.id;
+          insertNote(database, {
+            id: noteId,
+            deckId,
+            fields,
+            tags,
+            noteTypeId,
+            guid: note.guid,
+            importSource: fileName,
+          });
+          for (const card of cards) {
+            addCard(
+              noteId,
+              deckId,
+              card,
+              renderAnkiCard(model, resolved.mapping, fields, tags, card.ord),
+            );
+          }
+          continue;
+        }
+
+        firstDeckId ??= local.deckId;
+        const takePackage =
+          status === 'updated' || (status === 'conflicting' && options.overwriteConflicts);
+        const noteFields = takePackage ? fields : local.fields;
+        const noteTags = [...new Set([...local.tags, ...tags])];
+        const fieldsChanged = !sameFields(noteFields, local.fields);
+        if (takePackage) updatedCount += 1;
+        updateImportedNote(database, local.id, {
+          fields: noteFields,
+          tags: noteTags,
+          noteTypeId,
+          guid: note.guid,
+          sourceFields: fields,
+          importSource: fileName,
+        });
+
+        // Templates may have changed too, so every card is rendered again
+        const localCards = new Map(
+          listNoteCardTemplates(database, local.id).map((card) => [card.templateOrd, card.cardId]),
+        );
+        for (const card of cards) {
+          const rendered = renderAnkiCard(model, resolved.mapping, noteFields, noteTags, card.ord);
+          const cardId = localCards.get(card.ord);
+          if (cardId === undefined) {
+            addCard(local.id, local.deckId, card, rendered);
+            continue;
+          }
+          updateRenderedCard(database, cardId, rendered);
+          // Metadata edited here survives unless the fields or their mapping changed
+          if (fieldsChanged || resolved.changed) {
+            updateCardMetadata(database, cardId, rendered);
+          }
+          addAudio(local.deckId, rendered.mediaRefs);
+        }
       }
 
-      return { deckId, count: cardCount };
+      const removedCount = options.removeMissing
+        ? deleteNotes(
+            database,
+            plan.removed.map((note) => note.id),
+          )
+        : 0;
+
+      insertImportedRevlog(
+        database,
+        revlog.flatMap((entry) => {
+          const cardId = addedCards.get(entry.cid);
+          return cardId === undefined ? [] : [toRevlogEntry(entry, cardId)];
+        }),
+      );
+
+      if (firstDeckId === null) {
+        throw new Error(`"${fileName}" does not contain any cards.`);
+      }
+      return {
+        deckId: firstDeckId,
+        count: addedCards.size,
+        updated: updatedCount,
+        removed: removedCount,
+      };
     });
 
-    await copyMediaAssets(deckId, referencedAudio, tempDir, mediaManifest);
+    for (const [mediaDeckId, files] of referencedAudio) {
+      await copyMediaAssets(mediaDeckId, files, tempDir, pkg);
+    }
 
-    return { deckId, count };
-  } finally {
-    await fs.remove(tempDir);
-  }
+    return result;
+  });
 }
@@ -174,6 +174,9 @@ export async function judgeSentence(cardId: number, sentence: string): Promise<J
     verdict: judged.verdict,
     feedback: judged.feedback,
     example: judged.example ?? null,
+    scores: judged.scores,
+    qualityScores: judged.qualityScores ?? null,
+    quickTip: judged.quickTip ?? null,
   });
 
   return judged;
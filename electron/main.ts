@@ -11,20 +11,64 @@ import {
   getDeckSummaries,
   getNextReviewCard,
   getNextCodingCard,
-  getReviewState,
-  updateReviewState,
+  getReviewCardById,
+  getCodingCardById,
   getCardMediaRefs,
-  getDeckIdForCard,
-  incrementNewShownToday,
   deleteDeck,
+  getDeckSchedulerConfig,
+  setDeckSchedulerConfig,
+  listDeckPresets,
+  createDeckPreset,
+  updateDeckPreset,
+  deleteDeckPreset,
+  setDeckPreset,
+  getDayRolloverHour,
+  setDayRolloverHour,
+  getLoadBalancing,
+  setLoadBalancing,
+  listLeechCards,
+  getLeechDetail,
+  setCardSuspended,
+  buryCard,
+  setCardFlag,
+  listFlaggedCards,
+  todayYMD,
+  getReviewHeatmap,
+  getTrueRetention,
+  getIntervalDistribution,
+  getEaseDistribution,
+  getCardStateCounts,
+  getJudgeScoreTrend,
+  browseCards,
+  setCardsSuspended,
+  addTagToCards,
+  removeTagFromCards,
+  moveCardsToDeck,
+  deleteCards,
+  quickSearch,
 } from './db';
-import { importApkg } from './importApkg';
+import type { DeckPresetInput } from './db';
+import { importApkg, previewImport } from './importApkg';
 import { judgeSentence } from './judge';
-import { schedule } from './scheduler';
-import type { Rating } from './scheduler';
+import type { Rating, SchedulerConfig } from './scheduler';
 import { explainCard } from './explain';
 import { pairAssist } from './pair';
 import { getInsights } from './insights';
+import { rateCard, resetCard, resetCards, undoRating } from './review';
+import { applyWeights, optimizeWeights } from './optimizer';
+import { forecastWorkload, simulateWorkload } from './forecast';
+import type { SimulationInput } from './forecast';
+import { getWritingAnalytics } from './writingAnalytics';
+import { getCardEditor, previewCardEdit, saveCardEdit } from './cardEditor';
+import { addNote, createDeck } from './authoring';
+import type { RateOptions } from './review';
+import type {
+  BrowseQuery,
+  CardEditInput,
+  ImportOptions,
+  NewNoteInput,
+  StatsDashboard,
+} from './types';
 
 const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 let updatePollInterval: NodeJS.Timeout | undefined;
@@ -172,7 +216,7 @@ ipcMain.handle('api:chooseApkg', async () => {
   const { canceled, filePaths } = await dialog.showOpenDialog(parent ?? undefined, {
     title: 'Import Anki Deck',
     buttonLabel: 'Import',
-    filters: [{ name: 'Anki Deck', extensions: ['apkg'] }],
+    filters: [{ name: 'Anki Package', extensions: ['apkg', 'colpkg'] }],
     properties: ['openFile', 'dontAddToRecent'],
   });
   if (canceled || filePaths.length === 0) {
@@ -181,7 +225,35 @@ ipcMain.handle('api:chooseApkg', async () => {
   return filePaths[0];
 });
 
-ipcMain.handle('api:importApkg', async (_event, filePath: string) => importApkg(filePath));
+ipcMain.handle('api:chooseAudioFile', async () => {
+  const parent = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { canceled, filePaths } = await dialog.showOpenDialog(parent ?? undefined, {
+    title: 'Choose Audio',
+    buttonLabel: 'Choose',
+    filters: [{ name: 'Audio', extensions: ['mp3', 'ogg', 'wav', 'm4a', 'aac', 'flac', 'webm'] }],
+    properties: ['openFile', 'dontAddToRecent'],
+  });
+  if (canceled || filePaths.length === 0) {
+    return null;
+  }
+  return filePaths[0];
+});
+
+ipcMain.handle('api:createDeck', (_event, name: string) => createDeck(name));
+
+ipcMain.handle('api:addNote', async (_event, deckId: number, input: NewNoteInput) =>
+  addNote(deckId, input),
+);
+
+ipcMain.handle('api:previewImport', async (_event, filePath: string) => previewImport(filePath));
+
+ipcMain.handle('api:importApkg', async (_event, filePath: string, options?: ImportOptions) =>
+  importApkg(filePath, {
+    removeMissing: Boolean(options?.removeMissing),
+    overwriteConflicts: Boolean(options?.overwriteConflicts),
+    mappings: options?.mappings ?? {},
+  }),
+);
 
 ipcMain.handle('api:nextCard', (_event, deckId: number) => {
   return getNextReviewCard(deckId);
@@ -213,42 +285,168 @@ ipcMain.handle('api:pairAssist', async (_event, cardId: number, payload) => {
   return pairAssist(cardId, { cardId, ...(payload ?? {}) });
 });
 
-ipcMain.handle('api:rate', (_event, cardId: number, rating: Rating) => {
-  const state = getReviewState(cardId);
-  const next = schedule(
-    {
-      ivl_days: state.ivl_days,
-      ease: state.ease,
-      reps: state.reps,
-      lapses: state.lapses,
-      due_ts: state.due_ts,
-      learning_stage: state.learning_stage,
-      difficulty: state.difficulty,
-      suspended: state.suspended,
-    },
-    rating,
-  );
-  updateReviewState({
-    cardId,
-    dueTs: next.due_ts,
-    ivlDays: next.ivl_days,
-    ease: next.ease,
-    reps: next.reps,
-    lapses: next.lapses,
-    learningStage: next.learning_stage,
-    difficulty: next.difficulty,
-    suspended: next.suspended,
-  });
+ipcMain.handle('api:rate', (_event, cardId: number, rating: Rating, options?: RateOptions) => {
+  return rateCard(cardId, rating, options ?? {});
+});
 
-  // If this was the first successful review (reps moved from 0 → 1), count it toward today's new cap
-  if (state.reps === 0 && next.reps > 0) {
-    try {
-      const deckId = getDeckIdForCard(cardId);
-      incrementNewShownToday(deckId);
-    } catch (_) {
-      // non-fatal
-    }
-  }
+ipcMain.handle('api:undoRate', (_event, revlogId: number) => {
+  return undoRating(revlogId);
+});
+
+ipcMain.handle('api:cardForReview', (_event, cardId: number) => {
+  return getReviewCardById(cardId);
+});
+
+ipcMain.handle('api:codingCardForReview', (_event, cardId: number) => {
+  return getCodingCardById(cardId);
+});
+
+ipcMain.handle('api:getDeckScheduler', (_event, deckId: number) => {
+  return getDeckSchedulerConfig(deckId);
+});
+
+ipcMain.handle('api:setDeckScheduler', (_event, deckId: number, config: SchedulerConfig) => {
+  setDeckSchedulerConfig(deckId, config);
+});
+
+ipcMain.handle('api:optimizeScheduler', (_event, deckId: number | null) => {
+  return optimizeWeights(deckId);
+});
+
+ipcMain.handle('api:forecast', (_event, deckId: number | null, days: number) => {
+  return forecastWorkload(deckId, days);
+});
+
+ipcMain.handle('api:simulateWorkload', (_event, input: SimulationInput) => {
+  return simulateWorkload(input);
+});
+
+ipcMain.handle('api:writingAnalytics', (_event, deckId: number | null) => {
+  return getWritingAnalytics(deckId);
+});
+
+ipcMain.handle('api:stats', (_event, deckId: number | null): StatsDashboard => {
+  return {
+    deckId,
+    today: todayYMD(),
+    heatmap: getReviewHeatmap(deckId),
+    retention: getTrueRetention(deckId),
+    intervals: getIntervalDistribution(deckId),
+    eases: getEaseDistribution(deckId),
+    cardStates: getCardStateCounts(deckId),
+    judgeScores: getJudgeScoreTrend(deckId),
+  };
+});
+
+ipcMain.handle(
+  'api:applySchedulerWeights',
+  (_event, deckId: number | null, weights: number[] | null) => {
+    applyWeights(deckId, weights);
+  },
+);
+
+ipcMain.handle('api:listPresets', () => {
+  return listDeckPresets();
+});
+
+ipcMain.handle('api:createPreset', (_event, preset: DeckPresetInput) => {
+  return createDeckPreset(preset);
+});
+
+ipcMain.handle('api:updatePreset', (_event, presetId: number, preset: DeckPresetInput) => {
+  updateDeckPreset(presetId, preset);
+});
+
+ipcMain.handle('api:deletePreset', (_event, presetId: number) => {
+  deleteDeckPreset(presetId);
+});
+
+ipcMain.handle('api:setDeckPreset', (_event, deckId: number, presetId: number) => {
+  setDeckPreset(deckId, presetId);
+});
+
+ipcMain.handle('api:getAppSettings', () => {
+  return { dayRolloverHour: getDayRolloverHour(), loadBalancing: getLoadBalancing() };
+});
+
+ipcMain.handle(
+  'api:setAppSettings',
+  (_event, settings: { dayRolloverHour: number; loadBalancing: boolean }) => {
+    setDayRolloverHour(settings.dayRolloverHour);
+    setLoadBalancing(settings.loadBalancing);
+  },
+);
+
+ipcMain.handle('api:listLeeches', () => {
+  return listLeechCards();
+});
+
+ipcMain.handle('api:leechDetail', (_event, cardId: number) => {
+  return getLeechDetail(cardId);
+});
+
+ipcMain.handle('api:setCardSuspended', (_event, cardId: number, suspended: boolean) => {
+  setCardSuspended(cardId, suspended);
+});
+
+ipcMain.handle('api:resetCard', (_event, cardId: number) => {
+  resetCard(cardId);
+});
+
+ipcMain.handle('api:buryCard', (_event, cardId: number) => {
+  buryCard(cardId);
+});
+
+ipcMain.handle('api:setCardFlag', (_event, cardId: number, flag: number) => {
+  setCardFlag(cardId, flag);
+});
+
+ipcMain.handle('api:listFlagged', (_event, flag: number | null) => {
+  return listFlaggedCards(flag);
+});
+
+ipcMain.handle('api:browseCards', (_event, query: BrowseQuery) => {
+  return browseCards(query);
+});
+
+ipcMain.handle('api:quickSearch', (_event, query: string) => {
+  return quickSearch(query);
+});
+
+ipcMain.handle('api:suspendCards', (_event, cardIds: number[], suspended: boolean) => {
+  return setCardsSuspended(cardIds, suspended);
+});
+
+ipcMain.handle('api:resetCards', (_event, cardIds: number[]) => {
+  resetCards(cardIds);
+});
+
+ipcMain.handle('api:moveCards', async (_event, cardIds: number[], deckId: number) => {
+  return moveCardsToDeck(cardIds, deckId);
+});
+
+ipcMain.handle('api:addCardTag', (_event, cardIds: number[], tag: string) => {
+  addTagToCards(cardIds, tag);
+});
+
+ipcMain.handle('api:removeCardTag', (_event, cardIds: number[], tag: string) => {
+  removeTagFromCards(cardIds, tag);
+});
+
+ipcMain.handle('api:deleteCards', (_event, cardIds: number[]) => {
+  return deleteCards(cardIds);
+});
+
+ipcMain.handle('api:cardEditor', (_event, cardId: number) => {
+  return getCardEditor(cardId);
+});
+
+ipcMain.handle('api:previewCardEdit', (_event, cardId: number, input: CardEditInput) => {
+  return previewCardEdit(cardId, input);
+});
+
+ipcMain.handle('api:saveCardEdit', (_event, cardId: number, input: CardEditInput) => {
+  saveCardEdit(cardId, input);
 });
 
 ipcMain.handle('api:deleteDeck', async (_event, deckId: number) => {
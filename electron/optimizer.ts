@@ -0,0 +1,46 @@
+import path from 'node:path';
+import { Worker } from 'node:worker_threads';
+import { getDeckSchedulerConfig, getRevlogHistory, setFsrsWeights } from './db';
+import { WEIGHT_BOUNDS } from './fsrsFit';
+import type { FitResult } from './fsrsFit';
+
+export interface OptimizeResult extends FitResult {
+  deckId: number | null;
+}
+
+/**
+ * Fits FSRS weights to the review log of one deck, or of all decks when
+ * `deckId` is null. The fit takes seconds on a large history, so it runs in a
+ * worker thread to keep the main process responsive.
+ */
+export async function optimizeWeights(deckId: number | null): Promise<OptimizeResult> {
+  const rows = getRevlogHistory(deckId);
+  const fit = await new Promise<FitResult>((resolve, reject) => {
+    const worker = new Worker(path.join(__dirname, 'optimizerWorker.js'), { workerData: rows });
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) reject(new Error(`The optimizer stopped with exit code ${code}.`));
+    });
+  });
+  return { deckId, ...fit };
+}
+
+export function applyWeights(deckId: number | null, weights: number[] | null) {
+  if (weights !== null) {
+    if (
+      weights.length !== WEIGHT_BOUNDS.length ||
+      weights.some((value, i) => {
+        const [lo, hi] = WEIGHT_BOUNDS[i];
+        return !Number.isFinite(value) || value < lo || value > hi;
+      })
+    ) {
+      throw new Error('Scheduler weights are out of range.');
+    }
+    // Only FSRS weights are fitted; the classic scheduler has nothing to tune
+    if (deckId !== null && getDeckSchedulerConfig(deckId).algorithm !== 'fsrs') {
+      throw new Error('Optimized weights only apply to decks that use FSRS.');
+    }
+  }
+  setFsrsWeights(deckId, weights);
+}
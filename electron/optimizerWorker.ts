@@ -0,0 +1,6 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import type { RevlogHistoryRow } from './db';
+import { fitWeights } from './fsrsFit';
+
+// Entry point of the optimizer's worker thread; errors reach the main process as `error` events
+parentPort?.postMessage(fitWeights(workerData as RevlogHistoryRow[]));
@@ -0,0 +1,203 @@
+import {
+  addNoteTagForCard,
+  burySiblings,
+  decrementNewShown,
+  decrementReviewsDone,
+  deleteRevlogEntry,
+  getCardKind,
+  getDeckIdForCard,
+  getDeckSchedulerConfig,
+  getDeckSchedulerOptions,
+  getLoadBalancing,
+  getPresetForDeck,
+  getReviewLoad,
+  getReviewState,
+  getUndoableRevlog,
+  incrementNewShownToday,
+  incrementReviewsDoneToday,
+  insertRevlogEntry,
+  removeNoteTagForCard,
+  resetCardToNew,
+  restoreReviewState,
+  runInTransaction,
+  unburyCards,
+  updateReviewState,
+} from './db';
+import type { ReviewState } from './db';
+import { createScheduler, isLeech } from './scheduler';
+import type { LeechAction, Rating } from './scheduler';
+import type { CardKind, RatingSource, ReviewType } from './types';
+
+export interface RateOptions {
+  source?: RatingSource;
+  timeMs?: number;
+}
+
+const RATING_SOURCES: readonly RatingSource[] = ['manual', 'auto_fail', 'judge'];
+
+const LEECH_TAG = 'leech';
+
+// Cap recorded answer time so an idle window does not skew statistics
+const MAX_ANSWER_TIME_MS = 10 * 60_000;
+
+function reviewTypeOf(state: ReviewState): ReviewType {
+  if (state.reps === 0) return 'learn';
+  return state.learning_stage > 0 ? 'relearn' : 'review';
+}
+
+export interface RateResult {
+  revlogId: number;
+  leech: LeechAction | null; // set when this rating turned the card into a leech
+}
+
+export interface UndoResult {
+  cardId: number;
+  kind: CardKind;
+}
+
+export function rateCard(cardId: number, rating: Rating, options: RateOptions = {}): RateResult {
+  const source = options.source ?? 'manual';
+  if (!RATING_SOURCES.includes(source)) {
+    throw new Error(`Unknown rating source "${source}".`);
+  }
+  const timeMs = Math.min(MAX_ANSWER_TIME_MS, Math.max(0, Math.round(options.timeMs ?? 0)));
+
+  const deckId = getDeckIdForCard(cardId);
+  const kind = getCardKind(cardId);
+  const schedulerOptions = getDeckSchedulerOptions(deckId);
+  const preset = getPresetForDeck(deckId);
+  const scheduler = createScheduler(getDeckSchedulerConfig(deckId), schedulerOptions);
+  const loadBalancing = getLoadBalancing();
+  const now = Date.now();
+
+  return runInTransaction((database) => {
+    const state = getReviewState(cardId);
+    const next = scheduler.schedule(
+      {
+        ivl_days: state.ivl_days,
+        ease: state.ease,
+        reps: state.reps,
+        lapses: state.lapses,
+        due_ts: state.due_ts,
+        learning_stage: state.learning_stage,
+        difficulty: state.difficulty,
+        suspended: state.suspended,
+        stability: state.stability,
+        fsrs_difficulty: state.fsrs_difficulty,
+        last_review_ts: state.last_review_ts,
+      },
+      rating,
+      now,
+      {
+        seed: cardId + state.reps,
+        easyDays: preset.easyDays,
+        reviewLoad: loadBalancing ? getReviewLoad : null,
+      },
+    );
+
+    updateReviewState({
+      cardId,
+      dueTs: next.due_ts,
+      ivlDays: next.ivl_days,
+      ease: next.ease,
+      reps: next.reps,
+      lapses: next.lapses,
+      learningStage: next.learning_stage,
+      difficulty: next.difficulty,
+      suspended: next.suspended,
+      stability: next.stability,
+      fsrsDifficulty: next.fsrs_difficulty,
+      lastReviewTs: next.last_review_ts,
+    });
+
+    // New leeches are always tagged; the scheduler has already suspended them if asked to
+    const becameLeech =
+      !isLeech(state.lapses, schedulerOptions) && isLeech(next.lapses, schedulerOptions);
+    if (becameLeech) {
+      addNoteTagForCard(database, cardId, LEECH_TAG);
+    }
+
+    const buriedSiblingIds = burySiblings(database, cardId, preset, now);
+
+    // If this was the first successful review (reps moved from 0 → 1), count it toward today's new cap
+    const newShownDate =
+      state.reps === 0 && next.reps > 0 ? incrementNewShownToday(deckId, kind) : null;
+    const reviewType = reviewTypeOf(state);
+    // Only day-scale reviews count toward the daily review cap
+    const reviewCountedDate =
+      reviewType === 'review' ? incrementReviewsDoneToday(deckId, kind) : null;
+
+    const revlogId = insertRevlogEntry(database, {
+      cardId,
+      reviewTs: now,
+      rating,
+      reviewType,
+      source,
+      prevIvlDays: state.ivl_days,
+      ivlDays: next.ivl_days,
+      prevEase: state.ease,
+      ease: next.ease,
+      prevDifficulty: state.difficulty,
+      difficulty: next.difficulty,
+      prevDueTs: state.due_ts,
+      dueTs: next.due_ts,
+      timeMs,
+      prevState: state,
+      newShownDate,
+      reviewCountedDate,
+      buriedSiblingIds,
+      becameLeech,
+    });
+
+    return { revlogId, leech: becameLeech ? schedulerOptions.leechAction : null };
+  });
+}
+
+export function undoRating(revlogId: number): UndoResult {
+  return runInTransaction((database) => {
+    const entry = getUndoableRevlog(revlogId);
+    if (!entry) {
+      throw new Error('Nothing to undo.');
+    }
+    if (!entry.prevState) {
+      throw new Error('This rating was recorded before undo was available.');
+    }
+    if (!entry.isLatest) {
+      throw new Error('Only the most recent rating of a card can be undone.');
+    }
+
+    restoreReviewState(entry.cardId, entry.prevState);
+    const deckId = getDeckIdForCard(entry.cardId);
+    const kind = getCardKind(entry.cardId);
+    if (entry.newShownDate) {
+      decrementNewShown(deckId, kind, entry.newShownDate);
+    }
+    if (entry.reviewCountedDate) {
+      decrementReviewsDone(deckId, kind, entry.reviewCountedDate);
+    }
+    unburyCards(entry.buriedSiblingIds);
+    if (entry.becameLeech) {
+      removeNoteTagForCard(database, entry.cardId, LEECH_TAG);
+    }
+    deleteRevlogEntry(entry.id);
+
+    return { cardId: entry.cardId, kind };
+  });
+}
+
+/** Returns a card to the new queue and clears its leech tag. */
+export function resetCard(cardId: number) {
+  runInTransaction((database) => {
+    resetCardToNew(database, cardId);
+    removeNoteTagForCard(database, cardId, LEECH_TAG);
+  });
+}
+
+export function resetCards(cardIds: number[]) {
+  runInTransaction((database) => {
+    for (const cardId of cardIds) {
+      resetCardToNew(database, cardId);
+      removeNoteTagForCard(database, cardId, LEECH_TAG);
+    }
+  });
+}
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  createScheduler,
+  fuzzRange,
+  NORMAL_EASY_DAYS,
+  schedule,
+  spreadInterval,
+} from './scheduler';
+import type { IntervalSpread, SchedulerState } from './scheduler';
+
+const ONE_DAY_MS = 86_400_000;
+const NOW = Date.UTC(2024, 0, 1, 12);
+const MAX_IVL_DAYS = 36_500;
+
+const REVIEW_CARD: SchedulerState = {
+  ivl_days: 20,
+  ease: 2.5,
+  reps: 5,
+  lapses: 0,
+  due_ts: NOW,
+  learning_stage: 0,
+  difficulty: 0.5,
+  suspended: 0,
+  stability: 0,
+  fsrs_difficulty: 0,
+  last_review_ts: NOW - 20 * ONE_DAY_MS,
+};
+
+function spread(seed: number, overrides: Partial<IntervalSpread> = {}): IntervalSpread {
+  return { seed, easyDays: [...NORMAL_EASY_DAYS], reviewLoad: null, ...overrides };
+}
+
+void describe('seeded interval fuzz', () => {
+  const scheduler = createScheduler({
+    algorithm: 'classic',
+    desiredRetention: 0.9,
+    weights: null,
+  });
+  const exact = scheduler.schedule(REVIEW_CARD, 2, NOW);
+
+  void it('gives the same interval for the same seed', () => {
+    const first = scheduler.schedule(REVIEW_CARD, 2, NOW, spread(42));
+    const second = scheduler.schedule(REVIEW_CARD, 2, NOW, spread(42));
+    assert.equal(first.ivl_days, second.ivl_days);
+    assert.equal(first.due_ts, NOW + first.ivl_days * ONE_DAY_MS);
+  });
+
+  void it('stays inside the fuzz window', () => {
+    const [lo, hi] = fuzzRange(exact.ivl_days, MAX_IVL_DAYS);
+    assert.ok(lo < hi);
+    const seen = new Set<number>();
+    for (let seed = 0; seed < 200; seed += 1) {
+      const { ivl_days } = scheduler.schedule(REVIEW_CARD, 2, NOW, spread(seed));
+      assert.ok(ivl_days >= lo && ivl_days <= hi, `${ivl_days} outside [${lo}, ${hi}]`);
+      seen.add(ivl_days);
+    }
+    assert.ok(seen.size > 1, 'different seeds should land on different days');
+  });
+
+  void it('leaves short intervals alone', () => {
+    assert.equal(spreadInterval(2, NOW, MAX_IVL_DAYS, spread(7)), 2);
+  });
+});
+
+void describe('load balancing and easy days', () => {
+  void it('picks the least loaded day', () => {
+    const [lo, hi] = fuzzRange(30, MAX_IVL_DAYS);
+    const quietDay = lo + 2;
+    const reviewLoad = (_fromTs: number, days: number) =>
+      Array.from({ length: days }, (_, index) => (lo + index === quietDay ? 1 : 50));
+    for (let seed = 0; seed < 20; seed += 1) {
+      assert.equal(spreadInterval(30, NOW, MAX_IVL_DAYS, spread(seed, { reviewLoad })), quietDay);
+    }
+    assert.ok(quietDay <= hi);
+  });
+
+  void it('never lands on a day switched off', () => {
+    const sundaysOff = [0, 1, 1, 1, 1, 1, 1];
+    for (let seed = 0; seed < 200; seed += 1) {
+      const ivlDays = spreadInterval(30, NOW, MAX_IVL_DAYS, spread(seed, { easyDays: sundaysOff }));
+      assert.notEqual(new Date(NOW + ivlDays * ONE_DAY_MS).getDay(), 0);
+    }
+  });
+});
+
+void describe('FSRS review without a recorded last review', () => {
+  const scheduler = createScheduler({
+    algorithm: 'fsrs',
+    desiredRetention: 0.9,
+    weights: null,
+  });
+
+  void it('measures elapsed time from one interval before the due date', () => {
+    const unknown = scheduler.schedule({ ...REVIEW_CARD, last_review_ts: null }, 2, NOW);
+    const known = scheduler.schedule(REVIEW_CARD, 2, NOW);
+    assert.equal(unknown.ivl_days, known.ivl_days);
+    assert.ok(unknown.ivl_days > REVIEW_CARD.ivl_days);
+  });
+});
+
+void describe('classic defaults', () => {
+  const NEW_CARD: SchedulerState = {
+    ...REVIEW_CARD,
+    ivl_days: 0,
+    reps: 0,
+    learning_stage: 0,
+    last_review_ts: null,
+  };
+
+  void it('gives Easy on a new card an interval that follows its ease', () => {
+    const next = schedule(NEW_CARD, 3, NOW);
+    assert.equal(next.ivl_days, Math.round(2 + 2 * next.ease));
+    assert.equal(next.due_ts, NOW + next.ivl_days * ONE_DAY_MS);
+  });
+
+  void it('graduates a relearned card at one day', () => {
+    let state = schedule(REVIEW_CARD, 0, NOW);
+    assert.equal(state.learning_stage, 1);
+    for (let step = 0; step < 2; step += 1) {
+      state = schedule(state, 2, NOW);
+    }
+    assert.equal(state.learning_stage, 0);
+    assert.equal(state.ivl_days, 1);
+  });
+});
@@ -1,5 +1,12 @@
+import { createFsrsScheduler } from './fsrs';
+import { mulberry32 } from './random';
+
 export type Rating = 0 | 1 | 2 | 3;
 
+export type SchedulerAlgorithm = 'classic' | 'fsrs';
+
+export const SCHEDULER_ALGORITHMS: readonly SchedulerAlgorithm[] = ['classic', 'fsrs'];
+
 export interface SchedulerState {
   // Review scheduling
   ivl_days: number;
@@ -11,17 +18,77 @@ export interface SchedulerState {
   learning_stage: number; // 0 = not in learning; otherwise 1..N
   difficulty: number; // 0..1 (hard..easy inversed)
   suspended: number; // 0 or 1
+  // FSRS memory state (0 = not yet seeded)
+  stability: number; // days until recall probability drops to 90%
+  fsrs_difficulty: number; // 1..10
+  last_review_ts: number | null;
+}
+
+/** How a day-scale interval may be moved off the exact day the algorithm picked. */
+export interface IntervalSpread {
+  seed: number; // e.g. card id + reps, so the same review always fuzzes the same way
+  easyDays: number[]; // review load multiplier per weekday, Sunday first; 0 avoids the day
+  // Day-scale reviews already due on each of `days` days from `fromTs`; null = no load balancing
+  reviewLoad: ((fromTs: number, days: number) => number[]) | null;
+}
+
+export interface Scheduler {
+  readonly algorithm: SchedulerAlgorithm;
+  schedule(
+    state: SchedulerState,
+    rating: Rating,
+    now?: number,
+    spread?: IntervalSpread,
+  ): SchedulerState;
+}
+
+export type LeechAction = 'suspend' | 'tag';
+
+export const LEECH_ACTIONS: readonly LeechAction[] = ['suspend', 'tag'];
+
+/** Per-deck knobs, resolved from the deck's options preset. */
+export interface SchedulerOptions {
+  learningStepsMs: number[]; // short steps for new cards
+  relearningStepsMs: number[]; // short steps after a lapse
+  graduatingIvlDays: number; // first interval after the last learning step
+  easyIvlDays: number; // first interval when a new card is rated Easy; 0 = 2 + 2 × ease
+  maxIvlDays: number;
+  leechThreshold: number; // lapses before a card counts as a leech
+  leechAction: LeechAction;
+}
+
+export interface SchedulerConfig {
+  algorithm: SchedulerAlgorithm;
+  desiredRetention: number;
+  weights: number[] | null; // FSRS weights fitted by the optimizer; null = defaults
 }
 
 const ONE_MIN_MS = 60_000;
-const ONE_HOUR_MS = 60 * ONE_MIN_MS;
 const ONE_DAY_MS = 86_400_000;
 
-// Short “learning” steps for new/lapsed cards (minutes/hours)
-const LEARNING_STEPS_MS = [10 * ONE_MIN_MS, 60 * ONE_MIN_MS] as const; // 10m, 1h
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  learningStepsMs: [10 * ONE_MIN_MS, 60 * ONE_MIN_MS], // 10m, 1h
+  relearningStepsMs: [10 * ONE_MIN_MS, 60 * ONE_MIN_MS],
+  graduatingIvlDays: 1,
+  easyIvlDays: 0,
+  maxIvlDays: 36_500,
+  leechThreshold: 8,
+  leechAction: 'suspend',
+};
+
+export const NORMAL_EASY_DAYS: readonly number[] = [1, 1, 1, 1, 1, 1, 1];
 
-// Leech threshold: auto-suspend after this many lapses
-const LEECH_LAPSES = 8;
+// Fuzz grows with the interval: ±15% of the part between 2.5 and 7 days,
+// ±10% of the part up to 20 days and ±5% beyond, plus one day
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+export function isLeech(lapses: number, options: SchedulerOptions) {
+  return lapses >= options.leechThreshold;
+}
 
 function clamp(n: number, lo: number, hi: number) {
   return Math.min(hi, Math.max(lo, n));
@@ -32,10 +99,16 @@ function easeFromDifficulty(difficulty: number) {
   return clamp(2.5 - difficulty * 1.2, 1.3, 2.6);
 }
 
+/** Inverse of easeFromDifficulty, for ease factors that come from elsewhere (e.g. Anki). */
+export function difficultyFromEase(ease: number) {
+  return clamp((2.5 - ease) / 1.2, 0, 1);
+}
+
 export function schedule(
   state: SchedulerState,
   rating: Rating,
   now: number = Date.now(),
+  options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS,
 ): SchedulerState {
   let { ivl_days, ease, reps, lapses, learning_stage, difficulty, suspended } = state;
 
@@ -44,6 +117,13 @@ export function schedule(
     return { ...state };
   }
 
+  // FSRS memory is left untouched so a deck can switch algorithms later
+  const memory = {
+    stability: state.stability,
+    fsrs_difficulty: state.fsrs_difficulty,
+    last_review_ts: now,
+  };
+
   // Difficulty drift (FSRS-inspired, simplified)
   if (rating === 0) difficulty = clamp(difficulty + 0.12, 0, 1);
   else if (rating === 1) difficulty = clamp(difficulty + 0.06, 0, 1);
@@ -51,18 +131,23 @@ export function schedule(
   else if (rating === 3) difficulty = clamp(difficulty - 0.08, 0, 1);
   ease = easeFromDifficulty(difficulty);
 
+  const suspendLeech = (count: number) =>
+    isLeech(count, options) && options.leechAction === 'suspend' ? 1 : suspended;
+
   // Learning mode: short intervals in minutes/hours
   const inLearning = learning_stage > 0 || reps === 0;
   if (inLearning) {
+    // Cards that already graduated once walk the relearning steps instead
+    const steps = reps > 0 ? options.relearningStepsMs : options.learningStepsMs;
+
     // Enter/continue learning steps
     if (rating === 0) {
       lapses += 1;
       learning_stage = 1; // restart learning
-      const due_ts = now + LEARNING_STEPS_MS[0];
-      if (lapses >= LEECH_LAPSES) {
-        suspended = 1;
-      }
+      const due_ts = now + steps[0];
+      suspended = suspendLeech(lapses);
       return {
+        ...memory,
         ivl_days: Math.max(1, ivl_days || 1),
         ease,
         reps: Math.max(0, reps),
@@ -85,10 +170,11 @@ export function schedule(
       if (rating === 2) {
         learning_stage += 1;
       }
-      if (learning_stage <= LEARNING_STEPS_MS.length) {
+      if (learning_stage <= steps.length) {
         const stepIdx = Math.max(0, learning_stage - 1);
-        const due_ts = now + LEARNING_STEPS_MS[stepIdx];
+        const due_ts = now + steps[stepIdx];
         return {
+          ...memory,
           ivl_days: Math.max(1, ivl_days || 1),
           ease,
           reps: Math.max(0, reps),
@@ -100,20 +186,41 @@ export function schedule(
         };
       }
       // Completed learning steps → graduate to day-scale
+      ivl_days = Math.min(options.graduatingIvlDays, options.maxIvlDays);
       learning_stage = 0;
       reps = Math.max(0, reps) + 1;
-      ivl_days = 1;
-      const due_ts = now + ONE_DAY_MS;
-      return { ivl_days, ease, reps, lapses, due_ts, learning_stage, difficulty, suspended };
+      const due_ts = now + ivl_days * ONE_DAY_MS;
+      return {
+        ...memory,
+        ivl_days,
+        ease,
+        reps,
+        lapses,
+        due_ts,
+        learning_stage,
+        difficulty,
+        suspended,
+      };
     }
 
     if (rating === 3) {
       // Easy can skip remaining learning steps and jump ahead a bit
       learning_stage = 0;
       reps = Math.max(0, reps) + 1;
-      ivl_days = Math.max(1, Math.round(2 + 2 * ease));
+      ivl_days = options.easyIvlDays || Math.max(1, Math.round(2 + 2 * ease));
+      ivl_days = Math.min(ivl_days, options.maxIvlDays);
       const due_ts = now + ivl_days * ONE_DAY_MS;
-      return { ivl_days, ease, reps, lapses, due_ts, learning_stage, difficulty, suspended };
+      return {
+        ...memory,
+        ivl_days,
+        ease,
+        reps,
+        lapses,
+        due_ts,
+        learning_stage,
+        difficulty,
+        suspended,
+      };
     }
   }
 
@@ -122,11 +229,10 @@ export function schedule(
     case 0: {
       lapses += 1;
       learning_stage = 1; // relapse into learning
-      const due_ts = now + LEARNING_STEPS_MS[0];
-      if (lapses >= LEECH_LAPSES) {
-        suspended = 1;
-      }
+      const due_ts = now + options.relearningStepsMs[0];
+      suspended = suspendLeech(lapses);
       return {
+        ...memory,
         ivl_days: Math.max(1, Math.round(ivl_days * 0.5)),
         ease,
         reps,
@@ -153,7 +259,119 @@ export function schedule(
       throw new Error(`Unknown rating ${rating}`);
   }
 
+  ivl_days = Math.min(ivl_days, options.maxIvlDays);
   reps = Math.max(0, reps) + 1;
   const due_ts = now + ivl_days * ONE_DAY_MS;
-  return { ivl_days, ease, reps, lapses, due_ts, learning_stage, difficulty, suspended };
+  return {
+    ...memory,
+    ivl_days,
+    ease,
+    reps,
+    lapses,
+    due_ts,
+    learning_stage,
+    difficulty,
+    suspended,
+  };
+}
+
+/** Inclusive range of days a `ivlDays` interval may be fuzzed to; short intervals are left alone. */
+export function fuzzRange(ivlDays: number, maxIvlDays: number): [number, number] {
+  if (ivlDays < 2.5) return [ivlDays, ivlDays];
+  let delta = 1;
+  for (const range of FUZZ_RANGES) {
+    delta += range.factor * Math.max(0, Math.min(ivlDays, range.end) - range.start);
+  }
+  const hi = Math.min(Math.round(ivlDays + delta), maxIvlDays);
+  const lo = Math.min(Math.max(2, Math.round(ivlDays - delta)), hi);
+  return [lo, hi];
+}
+
+/**
+ * Picks the day within the fuzz range of `ivlDays`. With load balancing the
+ * least loaded day wins, load being weighed against the day's easy-day
+ * multiplier; otherwise a seeded random day, weighted by those multipliers.
+ */
+export function spreadInterval(
+  ivlDays: number,
+  now: number,
+  maxIvlDays: number,
+  spread: IntervalSpread,
+): number {
+  const [lo, hi] = fuzzRange(ivlDays, maxIvlDays);
+  if (lo === hi) return ivlDays;
+
+  const random = mulberry32(spread.seed);
+  const candidates = Array.from({ length: hi - lo + 1 }, (_, index) => lo + index);
+  const weights = candidates.map(
+    (days) => spread.easyDays[new Date(now + days * ONE_DAY_MS).getDay()] ?? 1,
+  );
+
+  if (spread.reviewLoad) {
+    const load = spread.reviewLoad(now + lo * ONE_DAY_MS, candidates.length);
+    let best: number[] = [];
+    let bestScore = Infinity;
+    candidates.forEach((days, index) => {
+      if (weights[index] <= 0) return;
+      const score = (load[index] ?? 0) / weights[index];
+      if (score < bestScore) {
+        best = [days];
+        bestScore = score;
+      } else if (score === bestScore) {
+        best.push(days);
+      }
+    });
+    if (best.length > 0) {
+      return best[Math.floor(random() * best.length)];
+    }
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+  let roll = random() * total;
+  for (let index = 0; index < candidates.length; index += 1) {
+    if (roll < weights[index]) return candidates[index];
+    roll -= weights[index];
+  }
+  return hi;
+}
+
+function createBaseScheduler(config: SchedulerConfig, options: SchedulerOptions): Scheduler {
+  switch (config.algorithm) {
+    case 'fsrs':
+      return createFsrsScheduler(
+        {
+          desiredRetention: config.desiredRetention,
+          weights: config.weights ?? undefined,
+        },
+        options,
+      );
+    case 'classic':
+    default:
+      return {
+        algorithm: 'classic',
+        schedule: (state, rating, now) => schedule(state, rating, now, options),
+      };
+  }
+}
+
+export function createScheduler(
+  config: SchedulerConfig,
+  options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS,
+): Scheduler {
+  const base = createBaseScheduler(config, options);
+  return {
+    algorithm: base.algorithm,
+    schedule: (state, rating, now = Date.now(), spread) => {
+      const next = base.schedule(state, rating, now);
+      // Only fresh day-scale intervals are spread; learning steps keep their exact times
+      if (!spread || state.suspended || next.suspended || next.learning_stage > 0) {
+        return next;
+      }
+      const ivl_days = spreadInterval(next.ivl_days, now, options.maxIvlDays, spread);
+      return { ...next, ivl_days, due_ts: now + ivl_days * ONE_DAY_MS };
+    },
+  };
 }
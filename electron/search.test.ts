@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileSearch } from './search';
+
+const CONTEXT = { now: Date.UTC(2024, 0, 1, 12), todayStartTs: Date.UTC(2024, 0, 1, 4) };
+
+void describe('deck search', () => {
+  void it('matches the deck and its subdecks', () => {
+    const { where, params } = compileSearch('deck:Spanish', CONTEXT);
+    assert.equal(where, "(d.name LIKE @p0 ESCAPE '\\' OR d.name LIKE @p0 || '::%' ESCAPE '\\')");
+    assert.equal(params.p0, 'Spanish');
+  });
+
+  void it('takes LIKE wildcards literally and expands *', () => {
+    assert.equal(compileSearch('deck:100%_done', CONTEXT).params.p0, '100\\%\\_done');
+    assert.equal(compileSearch('deck:Span*', CONTEXT).params.p0, 'Span%');
+  });
+
+  void it('excludes the subdecks along with a negated deck', () => {
+    const { where } = compileSearch('-deck:Spanish', CONTEXT);
+    assert.ok(where.startsWith('NOT ((d.name LIKE @p0'), where);
+  });
+});
@@ -0,0 +1,186 @@
+const ONE_DAY_MS = 86_400_000;
+
+export interface SearchContext {
+  now: number;
+  todayStartTs: number; // start of the current study day
+}
+
+/** WHERE clause over `cards c`, `notes n`, `decks d` and `reviews r`, with its named parameters. */
+export interface CompiledSearch {
+  where: string;
+  params: Record<string, string | number>;
+}
+
+interface SearchTerm {
+  negated: boolean;
+  key: string | null;
+  value: string;
+}
+
+const IS_FILTERS: Record<string, string> = {
+  due: `r.suspended = 0 AND COALESCE(r.buried_until, 0) <= @now
+    AND (r.reps > 0 OR r.learning_stage > 0) AND r.due_ts < @todayEndTs`,
+  new: 'r.reps = 0 AND r.learning_stage = 0',
+  learn: 'r.learning_stage > 0',
+  review: 'r.reps > 0 AND r.learning_stage = 0',
+  suspended: 'r.suspended = 1',
+  buried: 'COALESCE(r.buried_until, 0) > @now',
+  flagged: 'c.flag > 0',
+  leech: "EXISTS (SELECT 1 FROM json_each(n.tags_json) WHERE json_each.value = 'leech')",
+};
+
+const PROP_COLUMNS: Record<string, string> = {
+  ivl: 'r.ivl_days',
+  ease: 'r.ease',
+  lapses: 'r.lapses',
+  reps: 'r.reps',
+  // Days from today, so prop:due<0 is overdue and prop:due=1 is tomorrow
+  due: `CAST((r.due_ts - @todayStartTs) / ${ONE_DAY_MS} AS INTEGER)`,
+};
+
+const PROP_PATTERN = /^([a-z]+)(<=|>=|!=|=|<|>)(-?\d+(?:\.\d+)?)$/;
+
+/** Splits a query into terms; `"..."` groups spaces and a leading `-` negates. */
+function tokenize(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let index = 0;
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index += 1;
+      continue;
+    }
+    let negated = false;
+    if (query[index] === '-' && index + 1 < query.length && !/\s/.test(query[index + 1])) {
+      negated = true;
+      index += 1;
+    }
+    let text = '';
+    let quoted = false;
+    while (index < query.length && (quoted || !/\s/.test(query[index]))) {
+      if (query[index] === '"') {
+        quoted = !quoted;
+      } else {
+        text += query[index];
+      }
+      index += 1;
+    }
+    if (quoted) {
+      throw new Error('Search has an unclosed quote.');
+    }
+    if (!text) continue;
+
+    const colon = text.indexOf(':');
+    if (colon > 0 && /^[a-z]+$/i.test(text.slice(0, colon))) {
+      terms.push({
+        negated,
+        key: text.slice(0, colon).toLowerCase(),
+        value: text.slice(colon + 1),
+      });
+    } else {
+      terms.push({ negated, key: null, value: text });
+    }
+  }
+  return terms;
+}
+
+// `*` matches anything; LIKE's own wildcards are taken literally
+function toLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/\*/g, '%');
+}
+
+/**
+ * Quotes text as an FTS5 phrase whose last word may be a prefix, so "la cas"
+ * finds "la casa". Accents are folded by the index's tokenizer.
+ */
+export function toFtsPhrase(text: string) {
+  return `"${text.replace(/\*/g, '').replace(/"/g, '""')}"*`;
+}
+
+/**
+ * Compiles the browser's search syntax to SQL. Terms are ANDed together:
+ * `deck:`, `tag:`, `kind:`, `flag:`, `is:` (due, new, learn, review,
+ * suspended, buried, flagged, leech), `prop:` comparisons on ivl, ease,
+ * lapses, reps or due, and free text matched against the full-text index
+ * of card content, note fields, tags and the learner's sentences.
+ */
+export function compileSearch(query: string, context: SearchContext): CompiledSearch {
+  const params: Record<string, string | number> = {
+    now: context.now,
+    todayStartTs: context.todayStartTs,
+    todayEndTs: context.todayStartTs + ONE_DAY_MS,
+  };
+  const clauses: string[] = [];
+  let counter = 0;
+  const param = (value: string | number) => {
+    const name = `p${counter}`;
+    counter += 1;
+    params[name] = value;
+    return `@${name}`;
+  };
+
+  for (const term of tokenize(query)) {
+    let clause: string;
+    switch (term.key) {
+      case null:
+        clause = `c.id IN (SELECT rowid FROM card_search WHERE card_search MATCH ${param(
+          toFtsPhrase(term.value),
+        )})`;
+        break;
+      case 'deck': {
+        // A deck includes its subdecks (`Parent::Child`)
+        const pattern = param(toLikePattern(term.value));
+        clause = `(d.name LIKE ${pattern} ESCAPE '\\' OR d.name LIKE ${pattern} || '::%' ESCAPE '\\')`;
+        break;
+      }
+      case 'tag':
+        clause = `EXISTS (SELECT 1 FROM json_each(n.tags_json)
+          WHERE json_each.value LIKE ${param(toLikePattern(term.value))} ESCAPE '\\')`;
+        break;
+      case 'kind': {
+        const kind = term.value.toLowerCase();
+        if (kind !== 'vocab' && kind !== 'coding') {
+          throw new Error(`Unknown card kind "${term.value}"; use kind:vocab or kind:coding.`);
+        }
+        clause = `c.kind = ${param(kind)}`;
+        break;
+      }
+      case 'flag': {
+        const flag = Number(term.value);
+        if (!Number.isInteger(flag) || flag < 0 || flag > 7) {
+          throw new Error(`Flag must be a number from 0 to 7, not "${term.value}".`);
+        }
+        clause = `c.flag = ${param(flag)}`;
+        break;
+      }
+      case 'is': {
+        const filter = IS_FILTERS[term.value.toLowerCase()];
+        if (!filter) {
+          throw new Error(
+            `Unknown filter "is:${term.value}"; try ${Object.keys(IS_FILTERS)
+              .map((name) => `is:${name}`)
+              .join(', ')}.`,
+          );
+        }
+        clause = `(${filter})`;
+        break;
+      }
+      case 'prop': {
+        const match = PROP_PATTERN.exec(term.value.toLowerCase());
+        const column = match ? PROP_COLUMNS[match[1]] : undefined;
+        if (!match || !column) {
+          throw new Error(
+            `Cannot read "prop:${term.value}"; use e.g. prop:lapses>3 with ${Object.keys(PROP_COLUMNS).join(', ')}.`,
+          );
+        }
+        const operator = match[2] === '!=' ? '<>' : match[2];
+        clause = `${column} ${operator} ${param(Number(match[3]))}`;
+        break;
+      }
+      default:
+        throw new Error(`Unknown search term "${term.key}:".`);
+    }
+    clauses.push(term.negated ? `NOT (${clause})` : clause);
+  }
+
+  return { where: clauses.length > 0 ? clauses.join(' AND ') : '1', params };
+}
@@ -0,0 +1,121 @@
+export interface CardTemplate {
+  name: string;
+  qfmt: string;
+  afmt: string;
+}
+
+export const SOUND_PATTERN = /\[sound:([^\]]+)]/gi;
+
+export function stripSoundTokens(input: string): string {
+  return input.replace(SOUND_PATTERN, '').trim();
+}
+
+export function extractAudioRefs(...sources: string[]): string[] {
+  const results = new Set<string>();
+  for (const source of sources) {
+    let match: RegExpExecArray | null;
+    SOUND_PATTERN.lastIndex = 0;
+    while ((match = SOUND_PATTERN.exec(source)) !== null) {
+      results.add(match[1]);
+    }
+  }
+  return [...results];
+}
+
+const SECTION_PATTERN = /{{([#^])\s*([^}]+?)\s*}}([\s\S]*?){{\/\s*\2\s*}}/g;
+const CLOZE_PATTERN = /{{c(\d+)::([\s\S]*?)(?:::([^}]*?))?}}/g;
+
+function hasContent(value: string | undefined) {
+  return Boolean(value?.replace(/<[^>]+>|&nbsp;/g, '').trim());
+}
+
+/**
+ * Replaces cloze deletions in a field. The active deletion is hidden on the
+ * front (showing its hint when there is one) and highlighted on the back;
+ * every other deletion shows its answer.
+ */
+function renderCloze(text: string, clozeOrd: number | null, side: 'front' | 'back') {
+  return text.replace(CLOZE_PATTERN, (_, ord: string, answer: string, hint?: string) => {
+    if (Number(ord) !== clozeOrd) {
+      return answer;
+    }
+    return side === 'front'
+      ? `<span class="cloze">[${hint || '...'}]</span>`
+      : `<span class="cloze">${answer}</span>`;
+  });
+}
+
+function renderTemplate(
+  template: string,
+  fieldMap: Record<string, string>,
+  clozeOrd: number | null,
+  side: 'front' | 'back',
+): string {
+  let rendered = template.replace(/{{\s*FrontSide\s*}}/gi, '');
+
+  // {{#Field}}…{{/Field}} keeps its body when the field is filled, {{^Field}} when it
+  // is empty. Repeat until stable so nested sections resolve from the inside out.
+  let previous: string;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_, marker: string, name: string, body: string) =>
+      hasContent(fieldMap[name]) === (marker === '#') ? body : '',
+    );
+  } while (rendered !== previous);
+
+  return rendered.replace(/{{([^}]+)}}/g, (_, key: string) => {
+    // Filters such as text:, type: or cloze: prefix the field name
+    const parts = key.split(':').map((part) => part.trim());
+    const name = parts[parts.length - 1];
+    const value = fieldMap[name] ?? '';
+    return parts.slice(0, -1).includes('cloze') ? renderCloze(value, clozeOrd, side) : value;
+  });
+}
+
+/** Names a note's fields; notes without a known note type are treated as Front/Back. */
+export function buildFieldMap(
+  fieldNames: string[] | null,
+  fields: string[],
+): Record<string, string> {
+  if (!fieldNames) {
+    const [first = '', second = ''] = fields;
+    return {
+      Front: first,
+      Back: second,
+    };
+  }
+
+  return fieldNames.reduce<Record<string, string>>((acc, name, index) => {
+    acc[name] = fields[index] ?? '';
+    return acc;
+  }, {});
+}
+
+/** Picks the template a card renders through; cloze note types share their first one. */
+export function templateForCard<T>(templates: T[] | null, ord: number, isCloze: boolean) {
+  return templates?.[isCloze ? 0 : ord];
+}
+
+/** Renders a card's faces. Cloze cards pass the cloze number they ask about (ord + 1). */
+export function deriveCardFaces(
+  template: { qfmt: string; afmt: string } | undefined,
+  fieldMap: Record<string, string>,
+  fallbackFields: string[],
+  clozeOrd: number | null = null,
+): { front: string; back: string } {
+  if (!template) {
+    const [front = '', back = ''] = fallbackFields;
+    return {
+      front: stripSoundTokens(front),
+      back: stripSoundTokens(back) || stripSoundTokens(fallbackFields.slice(1).join('<br />')),
+    };
+  }
+
+  const front = renderTemplate(template.qfmt, fieldMap, clozeOrd, 'front');
+  const back = renderTemplate(template.afmt, fieldMap, clozeOrd, 'back');
+
+  return {
+    front: stripSoundTokens(front),
+    back: stripSoundTokens(back),
+  };
+}
@@ -26,6 +26,9 @@ export interface CardRow {
   sense_hint: string | null;
   kind: CardKind;
   extra_json: string;
+  new_position: number | null;
+  frequency_rank: number | null;
+  flag: number;
 }
 
 export interface ReviewRow {
@@ -41,6 +44,32 @@ export interface ReviewRow {
   suspended: number;
 }
 
+export type NewCardOrder = 'due' | 'random' | 'tag' | 'frequency';
+
+export type ReviewOrder = 'due' | 'overdueness' | 'retrievability';
+
+export type RatingSource = 'manual' | 'auto_fail' | 'judge';
+
+export type ReviewType = 'learn' | 'review' | 'relearn';
+
+export interface RevlogRow {
+  id: number;
+  card_id: number;
+  review_ts: number;
+  rating: number;
+  review_type: ReviewType;
+  source: RatingSource;
+  prev_ivl_days: number;
+  ivl_days: number;
+  prev_ease: number;
+  ease: number;
+  prev_difficulty: number;
+  difficulty: number;
+  prev_due_ts: number;
+  due_ts: number;
+  time_ms: number;
+}
+
 export interface AttemptRow {
   id: number;
   card_id: number;
@@ -50,6 +79,13 @@ export interface AttemptRow {
   verdict: string;
   feedback: string;
   example: string | null;
+  form_score: number | null;
+  mechanics_score: number | null;
+  grammar_score: number | null;
+  style_score: number | null;
+  sophistication_score: number | null;
+  naturalness_score: number | null;
+  quick_tip: string | null;
 }
 
 export interface CardForReview {
@@ -57,6 +93,7 @@ export interface CardForReview {
   targetLexeme: string;
   frontHtml: string;
   backHtml: string;
+  css?: string | null; // the note type's styling, when it has any
   audioRefs: string[];
   lang: string;
   pos?: string | null;
@@ -66,6 +103,7 @@ export interface CardForReview {
   ease: number;
   reps: number;
   lapses: number;
+  flag: number;
 }
 
 export interface CardDetail {
@@ -79,6 +117,293 @@ export interface CardDetail {
   previousExamples: string[];
 }
 
+export interface CodingExtra {
+  prompt: string;
+  code: string;
+  language: string;
+  expectedOutput: string;
+  explainContext: string | null;
+}
+
+export interface CardEditor {
+  cardId: number;
+  noteId: number;
+  deckId: number;
+  kind: CardKind;
+  noteTypeName: string | null; // null for notes imported before note types were kept
+  fieldNames: string[];
+  fields: string[];
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  coding: CodingExtra | null;
+}
+
+export interface CardEditInput {
+  fields: string[];
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  coding: CodingExtra | null; // required for coding cards, ignored for vocab cards
+}
+
+export interface CardPreview {
+  frontHtml: string;
+  backHtml: string;
+  css: string | null; // the note type's styling, when it has any
+  coding: CodingExtra | null;
+}
+
+export interface NewVocabNote {
+  kind: 'vocab';
+  word: string;
+  meaning: string;
+  pos: string | null;
+  example: string | null;
+  lang: string;
+  audioPath: string | null; // a file on disk, copied into the deck's media folder
+  tags: string[];
+}
+
+export interface NewCodingNote {
+  kind: 'coding';
+  coding: CodingExtra;
+  tags: string[];
+}
+
+export type NewNoteInput = NewVocabNote | NewCodingNote;
+
+export type ImportFieldRole = 'target' | 'meaning' | 'pos' | 'audio' | 'code' | 'expectedOutput';
+
+/** How one Anki note type becomes study cards; coding types read meaning as context. */
+export interface ImportFieldMapping {
+  kind: CardKind;
+  lang: string; // a language code for vocab, a programming language for coding
+  fields: Partial<Record<ImportFieldRole, string>>; // role → Anki field name
+}
+
+export interface ImportNoteType {
+  id: number;
+  name: string;
+  fieldNames: string[];
+  noteCount: number;
+  samples: string[][]; // the first few notes' fields, as plain text
+  mapping: ImportFieldMapping;
+  remembered: boolean; // the mapping comes from an earlier import
+}
+
+export interface ImportOptions {
+  removeMissing: boolean; // delete imported notes the package no longer has
+  overwriteConflicts: boolean; // take the package's fields over local edits
+  mappings: Record<number, ImportFieldMapping>; // by note type id; others keep their mapping
+}
+
+export interface ImportConflict {
+  guid: string;
+  local: string; // first field, as plain text
+  incoming: string;
+}
+
+export interface ImportSummary {
+  fileName: string;
+  deckNames: string[];
+  mergedDeckNames: string[]; // existing decks from elsewhere that the import adds to
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicting: number;
+  removed: number;
+  conflicts: ImportConflict[]; // the first few, for review
+  noteTypes: ImportNoteType[];
+}
+
+export interface LeechCard {
+  id: number;
+  deckId: number;
+  deckName: string;
+  kind: CardKind;
+  targetLexeme: string;
+  frontHtml: string;
+  backHtml: string;
+  lapses: number;
+  suspended: boolean;
+}
+
+export interface FlaggedCard {
+  id: number;
+  deckId: number;
+  deckName: string;
+  kind: CardKind;
+  targetLexeme: string;
+  frontHtml: string;
+  flag: number;
+  suspended: boolean;
+}
+
+export type BrowseSortColumn =
+  | 'lexeme'
+  | 'deck'
+  | 'kind'
+  | 'due'
+  | 'interval'
+  | 'ease'
+  | 'lapses'
+  | 'created';
+
+export interface BrowseQuery {
+  search: string;
+  sort: BrowseSortColumn;
+  descending: boolean;
+  page: number; // zero-based
+  pageSize: number;
+}
+
+export interface BrowseCard {
+  id: number;
+  noteId: number;
+  deckId: number;
+  deckName: string;
+  kind: CardKind;
+  targetLexeme: string;
+  frontHtml: string;
+  dueTs: number;
+  ivlDays: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  learningStage: number;
+  tags: string[];
+  flag: number;
+  suspended: boolean;
+  buried: boolean;
+}
+
+export interface BrowsePage {
+  cards: BrowseCard[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface QuickSearchHit {
+  cardId: number;
+  deckId: number;
+  deckName: string;
+  kind: CardKind;
+  targetLexeme: string;
+  snippet: string; // matched words are wrapped in \u0002 … \u0003
+}
+
+export interface HeatmapDay {
+  date: string; // study day, YYYY-MM-DD
+  count: number;
+}
+
+export interface DeckRetention {
+  deckId: number;
+  deckName: string;
+  kind: CardKind;
+  monthReviews: number; // day-scale reviews in the last 30 days
+  monthPassed: number;
+  totalReviews: number;
+  totalPassed: number;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface CardStateCounts {
+  new: number;
+  learning: number;
+  young: number;
+  mature: number;
+  suspended: number;
+}
+
+export interface JudgeScoreWeek {
+  weekStart: string; // Monday, YYYY-MM-DD
+  attempts: number;
+  averageScore: number; // 0..1
+}
+
+export interface StatsDashboard {
+  deckId: number | null;
+  today: string; // current study day, YYYY-MM-DD
+  heatmap: HeatmapDay[];
+  retention: DeckRetention[];
+  intervals: DistributionBucket[];
+  eases: DistributionBucket[];
+  cardStates: CardStateCounts;
+  judgeScores: JudgeScoreWeek[];
+}
+
+export type ScoreDimension =
+  | 'form'
+  | 'mechanics'
+  | 'grammar'
+  | 'style'
+  | 'sophistication'
+  | 'naturalness';
+
+export interface ScoreAverage {
+  average: number | null; // 0..1, null when no attempt was scored on it
+  count: number;
+}
+
+export type ScoreAverages = Record<ScoreDimension, ScoreAverage>;
+
+export interface ScoreWeek {
+  weekStart: string; // Monday, YYYY-MM-DD
+  attempts: number;
+  averages: Record<ScoreDimension, number | null>;
+}
+
+export interface LowNaturalnessCard {
+  cardId: number;
+  deckName: string;
+  targetLexeme: string;
+  attempts: number; // recent scored attempts the average covers
+  averageNaturalness: number;
+  latestQuickTip: string | null;
+}
+
+export interface DimensionSummary {
+  dimension: ScoreDimension;
+  average: number | null;
+  count: number;
+  recentAverage: number | null; // last four weeks
+  previousAverage: number | null; // the four weeks before that
+}
+
+export interface WritingAnalytics {
+  deckId: number | null;
+  dimensions: DimensionSummary[];
+  weakest: ScoreDimension | null;
+  weeks: ScoreWeek[];
+  lowNaturalness: LowNaturalnessCard[];
+}
+
+export interface LeechLapse {
+  reviewTs: number;
+  prevIvlDays: number;
+}
+
+export interface LeechAttempt {
+  whenTs: number;
+  sentence: string;
+  verdict: string;
+  feedback: string;
+}
+
+export interface LeechDetail {
+  lapses: LeechLapse[];
+  attempts: LeechAttempt[];
+}
+
 export interface CodingCardForReview {
   id: number;
   deckId: number;
@@ -92,6 +417,7 @@ export interface CodingCardForReview {
   ease: number;
   reps: number;
   lapses: number;
+  flag: number;
 }
 
 export interface CardExplainContext {
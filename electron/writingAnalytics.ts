@@ -0,0 +1,59 @@
+import {
+  getLowNaturalnessCards,
+  getScoreAverages,
+  getWeeklyScoreTrend,
+  SCORE_DIMENSIONS,
+} from './db';
+import type { DimensionSummary, ScoreDimension, WritingAnalytics } from './types';
+
+const ONE_DAY_MS = 86_400_000;
+
+// Recent progress compares the last four weeks with the four before them
+const PERIOD_MS = 28 * ONE_DAY_MS;
+
+// A dimension needs this many scored sentences before it can be called the weakest
+const MIN_SCORED_ATTEMPTS = 5;
+
+// Matches the judge prompt, which offers a quick tip below this score
+const LOW_NATURALNESS = 0.6;
+
+/**
+ * Per-dimension view of the sentence judge's scores: overall and recent
+ * averages, the weakest dimension, weekly trends and the cards whose
+ * sentences keep sounding unnatural.
+ */
+export function getWritingAnalytics(deckId: number | null): WritingAnalytics {
+  const now = Date.now();
+  const overall = getScoreAverages(deckId, 0, now + 1);
+  const recent = getScoreAverages(deckId, now - PERIOD_MS, now + 1);
+  const previous = getScoreAverages(deckId, now - 2 * PERIOD_MS, now - PERIOD_MS);
+
+  const dimensions: DimensionSummary[] = SCORE_DIMENSIONS.map((dimension) => ({
+    dimension,
+    average: overall[dimension].average,
+    count: overall[dimension].count,
+    recentAverage: recent[dimension].average,
+    previousAverage: previous[dimension].average,
+  }));
+
+  let weakest: ScoreDimension | null = null;
+  let weakestAverage = Infinity;
+  for (const summary of dimensions) {
+    if (
+      summary.average !== null &&
+      summary.count >= MIN_SCORED_ATTEMPTS &&
+      summary.average < weakestAverage
+    ) {
+      weakest = summary.dimension;
+      weakestAverage = summary.average;
+    }
+  }
+
+  return {
+    deckId,
+    dimensions,
+    weakest,
+    weeks: getWeeklyScoreTrend(deckId),
+    lowNaturalness: getLowNaturalnessCards(deckId, LOW_NATURALNESS),
+  };
+}
@@ -15,6 +15,7 @@ export default ts.config(
           './tsconfig.renderer.json',
           './tsconfig.electron.json',
           './tsconfig.preload.json',
+          './tsconfig.test.json',
         ],
         tsconfigRootDir: import.meta.dirname,
       },
@@ -1,21 +1,52 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type {
   ImportDeckResult,
+  ImportOptionsDTO,
+  ImportSummaryDTO,
   DeckSummaryDTO,
   FrontBackCard,
   RatingValue,
+  RateOptionsDTO,
+  RateResultDTO,
+  UndoRateResultDTO,
   JudgeResponseDTO,
   CodingCard,
   ExplainResponseDTO,
   PairAssistRequestDTO,
   PairAssistResponseDTO,
   InsightsResponseDTO,
+  DeckSchedulerDTO,
+  OptimizeResultDTO,
+  WorkloadForecastDTO,
+  SimulationInputDTO,
+  SimulationResultDTO,
+  StatsDashboardDTO,
+  WritingAnalyticsDTO,
+  DeckPresetDTO,
+  DeckPresetInputDTO,
+  AppSettingsDTO,
+  FlaggedCardDTO,
+  BrowsePageDTO,
+  BrowseQueryDTO,
+  QuickSearchHitDTO,
+  CardEditorDTO,
+  CardEditInputDTO,
+  CardPreviewDTO,
+  NewNoteInputDTO,
+  LeechCardDTO,
+  LeechDetailDTO,
 } from '../types/ipc';
 
 const api = {
-  importApkg: (filePath: string): Promise<ImportDeckResult> =>
-    ipcRenderer.invoke('api:importApkg', filePath),
+  previewImport: (filePath: string): Promise<ImportSummaryDTO> =>
+    ipcRenderer.invoke('api:previewImport', filePath),
+  importApkg: (filePath: string, options: ImportOptionsDTO): Promise<ImportDeckResult> =>
+    ipcRenderer.invoke('api:importApkg', filePath, options),
   chooseApkg: (): Promise<string | null> => ipcRenderer.invoke('api:chooseApkg'),
+  chooseAudioFile: (): Promise<string | null> => ipcRenderer.invoke('api:chooseAudioFile'),
+  createDeck: (name: string): Promise<number> => ipcRenderer.invoke('api:createDeck', name),
+  addNote: (deckId: number, input: NewNoteInputDTO): Promise<{ noteId: number; cardId: number }> =>
+    ipcRenderer.invoke('api:addNote', deckId, input),
   listDecks: (): Promise<DeckSummaryDTO[]> => ipcRenderer.invoke('api:listDecks'),
   nextCard: (deckId: number): Promise<FrontBackCard | null> =>
     ipcRenderer.invoke('api:nextCard', deckId),
@@ -30,9 +61,75 @@ const api = {
     cardId: number,
     payload: Omit<PairAssistRequestDTO, 'cardId'>,
   ): Promise<PairAssistResponseDTO> => ipcRenderer.invoke('api:pairAssist', cardId, payload),
-  rate: (cardId: number, rating: RatingValue): Promise<void> =>
-    ipcRenderer.invoke('api:rate', cardId, rating),
+  rate: (cardId: number, rating: RatingValue, options?: RateOptionsDTO): Promise<RateResultDTO> =>
+    ipcRenderer.invoke('api:rate', cardId, rating, options ?? {}),
+  undoRate: (revlogId: number): Promise<UndoRateResultDTO> =>
+    ipcRenderer.invoke('api:undoRate', revlogId),
+  cardForReview: (cardId: number): Promise<FrontBackCard | null> =>
+    ipcRenderer.invoke('api:cardForReview', cardId),
+  codingCardForReview: (cardId: number): Promise<CodingCard | null> =>
+    ipcRenderer.invoke('api:codingCardForReview', cardId),
   deleteDeck: (deckId: number): Promise<void> => ipcRenderer.invoke('api:deleteDeck', deckId),
+  getDeckScheduler: (deckId: number): Promise<DeckSchedulerDTO> =>
+    ipcRenderer.invoke('api:getDeckScheduler', deckId),
+  setDeckScheduler: (deckId: number, config: DeckSchedulerDTO): Promise<void> =>
+    ipcRenderer.invoke('api:setDeckScheduler', deckId, config),
+  optimizeScheduler: (deckId: number | null): Promise<OptimizeResultDTO> =>
+    ipcRenderer.invoke('api:optimizeScheduler', deckId),
+  applySchedulerWeights: (deckId: number | null, weights: number[] | null): Promise<void> =>
+    ipcRenderer.invoke('api:applySchedulerWeights', deckId, weights),
+  forecast: (deckId: number | null, days: number): Promise<WorkloadForecastDTO> =>
+    ipcRenderer.invoke('api:forecast', deckId, days),
+  simulateWorkload: (input: SimulationInputDTO): Promise<SimulationResultDTO> =>
+    ipcRenderer.invoke('api:simulateWorkload', input),
+  stats: (deckId: number | null): Promise<StatsDashboardDTO> =>
+    ipcRenderer.invoke('api:stats', deckId),
+  writingAnalytics: (deckId: number | null): Promise<WritingAnalyticsDTO> =>
+    ipcRenderer.invoke('api:writingAnalytics', deckId),
+  listPresets: (): Promise<DeckPresetDTO[]> => ipcRenderer.invoke('api:listPresets'),
+  createPreset: (preset: DeckPresetInputDTO): Promise<number> =>
+    ipcRenderer.invoke('api:createPreset', preset),
+  updatePreset: (presetId: number, preset: DeckPresetInputDTO): Promise<void> =>
+    ipcRenderer.invoke('api:updatePreset', presetId, preset),
+  deletePreset: (presetId: number): Promise<void> =>
+    ipcRenderer.invoke('api:deletePreset', presetId),
+  setDeckPreset: (deckId: number, presetId: number): Promise<void> =>
+    ipcRenderer.invoke('api:setDeckPreset', deckId, presetId),
+  getAppSettings: (): Promise<AppSettingsDTO> => ipcRenderer.invoke('api:getAppSettings'),
+  setAppSettings: (settings: AppSettingsDTO): Promise<void> =>
+    ipcRenderer.invoke('api:setAppSettings', settings),
+  listLeeches: (): Promise<LeechCardDTO[]> => ipcRenderer.invoke('api:listLeeches'),
+  leechDetail: (cardId: number): Promise<LeechDetailDTO> =>
+    ipcRenderer.invoke('api:leechDetail', cardId),
+  setCardSuspended: (cardId: number, suspended: boolean): Promise<void> =>
+    ipcRenderer.invoke('api:setCardSuspended', cardId, suspended),
+  resetCard: (cardId: number): Promise<void> => ipcRenderer.invoke('api:resetCard', cardId),
+  buryCard: (cardId: number): Promise<void> => ipcRenderer.invoke('api:buryCard', cardId),
+  setCardFlag: (cardId: number, flag: number): Promise<void> =>
+    ipcRenderer.invoke('api:setCardFlag', cardId, flag),
+  listFlagged: (flag: number | null): Promise<FlaggedCardDTO[]> =>
+    ipcRenderer.invoke('api:listFlagged', flag),
+  browseCards: (query: BrowseQueryDTO): Promise<BrowsePageDTO> =>
+    ipcRenderer.invoke('api:browseCards', query),
+  quickSearch: (query: string): Promise<QuickSearchHitDTO[]> =>
+    ipcRenderer.invoke('api:quickSearch', query),
+  suspendCards: (cardIds: number[], suspended: boolean): Promise<number> =>
+    ipcRenderer.invoke('api:suspendCards', cardIds, suspended),
+  resetCards: (cardIds: number[]): Promise<void> => ipcRenderer.invoke('api:resetCards', cardIds),
+  moveCards: (cardIds: number[], deckId: number): Promise<number> =>
+    ipcRenderer.invoke('api:moveCards', cardIds, deckId),
+  addCardTag: (cardIds: number[], tag: string): Promise<void> =>
+    ipcRenderer.invoke('api:addCardTag', cardIds, tag),
+  removeCardTag: (cardIds: number[], tag: string): Promise<void> =>
+    ipcRenderer.invoke('api:removeCardTag', cardIds, tag),
+  deleteCards: (cardIds: number[]): Promise<number> =>
+    ipcRenderer.invoke('api:deleteCards', cardIds),
+  cardEditor: (cardId: number): Promise<CardEditorDTO> =>
+    ipcRenderer.invoke('api:cardEditor', cardId),
+  previewCardEdit: (cardId: number, input: CardEditInputDTO): Promise<CardPreviewDTO> =>
+    ipcRenderer.invoke('api:previewCardEdit', cardId, input),
+  saveCardEdit: (cardId: number, input: CardEditInputDTO): Promise<void> =>
+    ipcRenderer.invoke('api:saveCardEdit', cardId, input),
   getInsights: (cardId: number, sentence: string): Promise<InsightsResponseDTO> =>
     ipcRenderer.invoke('api:getInsights', cardId, sentence),
 };
@@ -0,0 +1,111 @@
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface BarChartProps {
+  labels: string[];
+  series: ChartSeries[]; // stacked bars
+  line?: ChartSeries; // drawn over the bars, e.g. a baseline to compare against
+  height?: number;
+}
+
+const WIDTH = 720;
+const PADDING_LEFT = 40;
+const PADDING_BOTTOM = 22;
+const PADDING_TOP = 8;
+
+function niceMax(value: number) {
+  if (value <= 5) return 5;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value / 4) ?? 10;
+  return Math.ceil(value / (step * magnitude)) * step * magnitude;
+}
+
+/** Minimal SVG bar chart; one bar per label with the series stacked on top of each other. */
+export function BarChart({ labels, series, line, height = 220 }: BarChartProps) {
+  const totals = labels.map((_, index) =>
+    series.reduce((sum, item) => sum + (item.values[index] ?? 0), 0),
+  );
+  const max = niceMax(Math.max(1, ...totals, ...(line?.values ?? [])));
+  const plotWidth = WIDTH - PADDING_LEFT;
+  const plotHeight = height - PADDING_BOTTOM - PADDING_TOP;
+  const slot = plotWidth / Math.max(1, labels.length);
+  const barWidth = Math.max(1, slot * 0.8);
+  const y = (value: number) => PADDING_TOP + plotHeight - (value / max) * plotHeight;
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 12));
+
+  return (
+    <div className="bar-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} role="img">
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              className="bar-chart-grid"
+              x1={PADDING_LEFT}
+              x2={WIDTH}
+              y1={y(max * fraction)}
+              y2={y(max * fraction)}
+            />
+            <text className="bar-chart-axis" x={PADDING_LEFT - 6} y={y(max * fraction) + 4}>
+              {Math.round(max * fraction)}
+            </text>
+          </g>
+        ))}
+        {labels.map((label, index) => {
+          const x = PADDING_LEFT + index * slot + (slot - barWidth) / 2;
+          let stackedTop = 0;
+          return (
+            <g key={label}>
+              <title>
+                {label}:{' '}
+                {series.map((item) => `${item.name} ${item.values[index] ?? 0}`).join(', ')}
+                {line ? `, ${line.name} ${line.values[index] ?? 0}` : ''}
+              </title>
+              {series.map((item) => {
+                const value = item.values[index] ?? 0;
+                const top = y(stackedTop + value);
+                const bottom = y(stackedTop);
+                stackedTop += value;
+                return value > 0 ? (
+                  <rect
+                    key={item.name}
+                    x={x}
+                    y={top}
+                    width={barWidth}
+                    height={bottom - top}
+                    fill={item.color}
+                  />
+                ) : null;
+              })}
+              {index % labelEvery === 0 ? (
+                <text className="bar-chart-label" x={x + barWidth / 2} y={height - 6}>
+                  {label}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+        {line ? (
+          <polyline
+            fill="none"
+            stroke={line.color}
+            strokeWidth={2}
+            points={line.values
+              .map((value, index) => `${PADDING_LEFT + (index + 0.5) * slot},${y(value)}`)
+              .join(' ')}
+          />
+        ) : null}
+      </svg>
+      <div className="bar-chart-legend">
+        {[...series, ...(line ? [line] : [])].map((item) => (
+          <span key={item.name}>
+            <span className="bar-chart-swatch" style={{ backgroundColor: item.color }} />
+            {item.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export const CARD_FLAGS = [
+  { value: 1, label: 'Red', color: '#f87171' },
+  { value: 2, label: 'Orange', color: '#fb923c' },
+  { value: 3, label: 'Green', color: '#4ade80' },
+  { value: 4, label: 'Blue', color: '#60a5fa' },
+  { value: 5, label: 'Pink', color: '#f472b6' },
+  { value: 6, label: 'Turquoise', color: '#2dd4bf' },
+  { value: 7, label: 'Purple', color: '#a78bfa' },
+] as const;
+
+interface CardActionsProps {
+  cardId: number;
+  flag: number;
+  disabled?: boolean;
+  onFlagChange: (flag: number) => void;
+  // Called after the card left today's queue (buried, suspended or reset)
+  onRemoved: () => void;
+}
+
+/**
+ * Bury, suspend, reset and flag controls for the card under review.
+ * Shortcuts: `-` bury, `@` suspend, Ctrl/Cmd+Alt+N reset, Ctrl/Cmd+1..7 toggle a flag.
+ */
+export function CardActions({
+  cardId,
+  flag,
+  disabled = false,
+  onFlagChange,
+  onRemoved,
+}: CardActionsProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>, after: () => void) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      after();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleFlag = useCallback(
+    (value: number) => {
+      const next = value === flag ? 0 : value;
+      run(
+        () => window.api.setCardFlag(cardId, next),
+        () => onFlagChange(next),
+      ).catch(() => {});
+    },
+    [cardId, flag, onFlagChange, run],
+  );
+
+  const handleBury = useCallback(() => {
+    run(() => window.api.buryCard(cardId), onRemoved).catch(() => {});
+  }, [cardId, onRemoved, run]);
+
+  const handleSuspend = useCallback(() => {
+    run(() => window.api.setCardSuspended(cardId, true), onRemoved).catch(() => {});
+  }, [cardId, onRemoved, run]);
+
+  const handleReset = useCallback(() => {
+    const confirmed = window.confirm('Reset this card to new? Its scheduling starts over.');
+    if (!confirmed) return;
+    run(() => window.api.resetCard(cardId), onRemoved).catch(() => {});
+  }, [cardId, onRemoved, run]);
+
+  useEffect(() => {
+    if (disabled) return;
+    const handler = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = target && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT');
+      const modifier = event.metaKey || event.ctrlKey;
+
+      if (modifier && event.altKey && event.code === 'KeyN') {
+        event.preventDefault();
+        handleReset();
+        return;
+      }
+      if (modifier && !event.altKey && /^Digit[1-7]$/.test(event.code)) {
+        event.preventDefault();
+        handleFlag(Number(event.code.slice('Digit'.length)));
+        return;
+      }
+      if (isTyping || modifier) return;
+      if (event.key === '-') {
+        event.preventDefault();
+        handleBury();
+      } else if (event.key === '@') {
+        event.preventDefault();
+        handleSuspend();
+      }
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [disabled, handleBury, handleFlag, handleReset, handleSuspend]);
+
+  const isDisabled = disabled || busy;
+
+  return (
+    <div className="card-actions">
+      <div className="card-flags" role="group" aria-label="Flag card">
+        {CARD_FLAGS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`card-flag ${flag === option.value ? 'active' : ''}`}
+            style={{ backgroundColor: option.color }}
+            aria-pressed={flag === option.value}
+            title={`${option.label} flag (Ctrl/Cmd+${option.value})`}
+            onClick={() => handleFlag(option.value)}
+            disabled={isDisabled}
+          />
+        ))}
+      </div>
+      <button
+        type="button"
+        className="subtle"
+        onClick={handleBury}
+        disabled={isDisabled}
+        title="Bury until tomorrow (-)"
+      >
+        Bury
+      </button>
+      <button
+        type="button"
+        className="subtle"
+        onClick={handleSuspend}
+        disabled={isDisabled}
+        title="Suspend (@)"
+      >
+        Suspend
+      </button>
+      <button
+        type="button"
+        className="subtle"
+        onClick={handleReset}
+        disabled={isDisabled}
+        title="Reset to new (Ctrl/Cmd+Alt+N)"
+      >
+        Reset
+      </button>
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+
+interface CardFaceProps {
+  html: string;
+  side: 'front' | 'back';
+  css?: string | null; // the note type's styling
+}
+
+/**
+ * A rendered vocab card side, shared by review and the card editor preview.
+ * Note type CSS is applied inside a shadow root so it cannot restyle the app.
+ */
+export function CardFace({ html, side, css }: CardFaceProps) {
+  const hostRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host || !css) return;
+    const root = host.shadowRoot ?? host.attachShadow({ mode: 'open' });
+    root.innerHTML = `<style>${css}</style><div class="card">${html}</div>`;
+  }, [css, html]);
+
+  return (
+    <div className={`card-face ${side}`}>
+      {css ? (
+        <article key="styled" ref={hostRef} />
+      ) : (
+        <article key="plain" dangerouslySetInnerHTML={{ __html: html }} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { CodeEditor } from './CodeEditor';
+
+interface CodingPromptProps {
+  prompt: string;
+  language: string;
+  code: string;
+}
+
+/** The question side of a coding card, shared by review and the card editor preview. */
+export function CodingPrompt({ prompt, language, code }: CodingPromptProps) {
+  return (
+    <>
+      <header>
+        <h2>{prompt}</h2>
+        <span className="lang-tag">{language}</span>
+      </header>
+      <CodeEditor value={code} readOnly language={language} minHeight={240} />
+    </>
+  );
+}
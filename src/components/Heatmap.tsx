@@ -0,0 +1,78 @@
+interface HeatmapProps {
+  days: Array<{ date: string; count: number }>;
+  today: string; // YYYY-MM-DD
+}
+
+const WEEKS = 53;
+const CELL = 12;
+const GAP = 2;
+
+function parseYmd(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function formatYmd(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** One square per study day over the last year, one column per week; darker means more reviews. */
+export function Heatmap({ days, today }: HeatmapProps) {
+  const counts = new Map(days.map((day) => [day.date, day.count]));
+  const max = Math.max(1, ...days.map((day) => day.count));
+  const end = parseYmd(today);
+  const start = new Date(end);
+  start.setDate(end.getDate() - end.getDay() - (WEEKS - 1) * 7);
+
+  const cells: Array<{ key: string; week: number; weekday: number; count: number }> = [];
+  for (let week = 0; week < WEEKS; week += 1) {
+    for (let weekday = 0; weekday < 7; weekday += 1) {
+      const date = new Date(start);
+      date.setDate(start.getDate() + week * 7 + weekday);
+      if (date > end) break;
+      const key = formatYmd(date);
+      cells.push({ key, week, weekday, count: counts.get(key) ?? 0 });
+    }
+  }
+
+  // A day without reviews yet does not break the streak until it is over
+  let streak = 0;
+  let index = cells.length - 1;
+  if (index >= 0 && cells[index].count === 0) index -= 1;
+  for (; index >= 0 && cells[index].count > 0; index -= 1) {
+    streak += 1;
+  }
+  const studied = cells.filter((cell) => cell.count > 0).length;
+
+  return (
+    <div className="heatmap">
+      <svg
+        viewBox={`0 0 ${WEEKS * (CELL + GAP)} ${7 * (CELL + GAP)}`}
+        role="img"
+        aria-label="Reviews per day"
+      >
+        {cells.map((cell) => (
+          <rect
+            key={cell.key}
+            x={cell.week * (CELL + GAP)}
+            y={cell.weekday * (CELL + GAP)}
+            width={CELL}
+            height={CELL}
+            rx={2}
+            className={`heatmap-level-${cell.count === 0 ? 0 : Math.ceil((cell.count / max) * 4)}`}
+          >
+            <title>
+              {cell.key}: {cell.count} {cell.count === 1 ? 'review' : 'reviews'}
+            </title>
+          </rect>
+        ))}
+      </svg>
+      <p className="muted">
+        Studied on {studied} of the last {cells.length} days · current streak {streak}{' '}
+        {streak === 1 ? 'day' : 'days'}
+      </p>
+    </div>
+  );
+}
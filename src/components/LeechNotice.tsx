@@ -0,0 +1,27 @@
+import type { LeechAction } from '../../types/ipc';
+import { useAppStore } from '../state';
+
+interface LeechNoticeProps {
+  action: LeechAction;
+  onDismiss: () => void;
+}
+
+export function LeechNotice({ action, onDismiss }: LeechNoticeProps) {
+  const { setActiveScreen } = useAppStore();
+
+  return (
+    <div className="leech-notice" role="status">
+      <span>
+        {action === 'suspend'
+          ? 'That card keeps lapsing, so it was marked as a leech and suspended.'
+          : 'That card keeps lapsing, so it was tagged as a leech.'}
+      </span>
+      <button type="button" className="subtle" onClick={() => setActiveScreen('leeches')}>
+        View leeches
+      </button>
+      <button type="button" className="subtle" onClick={onDismiss}>
+        Dismiss
+      </button>
+    </div>
+  );
+}
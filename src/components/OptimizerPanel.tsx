@@ -0,0 +1,142 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { OptimizeResultDTO } from '../../types/ipc';
+
+interface OptimizerPanelProps {
+  deckId: number;
+  hasCustomWeights: boolean;
+}
+
+type HistoryScope = 'deck' | 'all';
+
+function formatMetric(value: number) {
+  return value.toFixed(4);
+}
+
+export function OptimizerPanel({ deckId, hasCustomWeights }: OptimizerPanelProps) {
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<HistoryScope>('deck');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<OptimizeResultDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<string | null>(null);
+
+  const handleOptimize = useCallback(async () => {
+    setRunning(true);
+    setError(null);
+    setApplied(null);
+    setResult(null);
+    try {
+      setResult(await window.api.optimizeScheduler(scope === 'deck' ? deckId : null));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  }, [deckId, scope]);
+
+  const handleApply = useCallback(
+    async (target: number | null, weights: number[] | null) => {
+      setError(null);
+      try {
+        await window.api.applySchedulerWeights(target, weights);
+        await queryClient.invalidateQueries({ queryKey: ['deckScheduler'] });
+        setApplied(
+          weights === null
+            ? 'Default weights restored.'
+            : target === null
+              ? 'Applied to all FSRS decks.'
+              : 'Applied to this deck.',
+        );
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    },
+    [queryClient],
+  );
+
+  return (
+    <div className="optimizer-panel">
+      <div className="optimizer-controls">
+        <div className="segmented-control" role="group" aria-label="Review history to train on">
+          <button
+            type="button"
+            className={scope === 'deck' ? 'active' : ''}
+            onClick={() => setScope('deck')}
+            disabled={running}
+          >
+            This deck
+          </button>
+          <button
+            type="button"
+            className={scope === 'all' ? 'active' : ''}
+            onClick={() => setScope('all')}
+            disabled={running}
+          >
+            All decks
+          </button>
+        </div>
+        <button type="button" className="subtle" onClick={handleOptimize} disabled={running}>
+          {running ? 'Optimizing…' : 'Optimize weights'}
+        </button>
+        {hasCustomWeights ? (
+          <button
+            type="button"
+            className="subtle"
+            onClick={() => handleApply(deckId, null)}
+            disabled={running}
+          >
+            Reset to defaults
+          </button>
+        ) : null}
+      </div>
+      {result ? (
+        <div className="optimizer-result">
+          <p className="muted">
+            Trained on {result.reviewCount} reviews across {result.cardCount} cards.
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th />
+                <th>Log loss</th>
+                <th>RMSE</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Before</td>
+                <td>{formatMetric(result.before.logLoss)}</td>
+                <td>{formatMetric(result.before.rmse)}</td>
+              </tr>
+              <tr>
+                <td>After</td>
+                <td>{formatMetric(result.after.logLoss)}</td>
+                <td>{formatMetric(result.after.rmse)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="optimizer-controls">
+            <button type="button" onClick={() => handleApply(deckId, result.weights)}>
+              Apply to this deck
+            </button>
+            {result.deckId === null ? (
+              <button
+                type="button"
+                className="subtle"
+                onClick={() => handleApply(null, result.weights)}
+              >
+                Apply to all FSRS decks
+              </button>
+            ) : null}
+          </div>
+          <p className="muted">
+            Only FSRS weights are fitted. Decks on the classic scheduler keep their settings.
+          </p>
+        </div>
+      ) : null}
+      {applied ? <p className="muted">{applied}</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
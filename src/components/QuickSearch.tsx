@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+
+const DEBOUNCE_MS = 200;
+
+// The main process wraps matched words in \u0002 … \u0003
+function renderSnippet(snippet: string) {
+  return snippet
+    .split('\u0002')
+    .flatMap((chunk) => chunk.split('\u0003'))
+    .map((part, index) =>
+      index % 2 === 1 ? <mark key={index}>{part}</mark> : <span key={index}>{part}</span>,
+    );
+}
+
+/** Finds any card by its content, tags or a sentence written for it, ignoring accents. */
+export function QuickSearch() {
+  const [text, setText] = useState('');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setQuery(text.trim()), DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [text]);
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['quickSearch', query],
+    queryFn: () => window.api.quickSearch(query),
+    enabled: query.length > 0,
+  });
+
+  return (
+    <div className="quick-search">
+      <input
+        type="search"
+        value={text}
+        placeholder="Search every word and sentence…"
+        aria-label="Quick search"
+        onChange={(event) => setText(event.target.value)}
+      />
+      {query && data ? (
+        <ul className="quick-search-results">
+          {data.length === 0 && !isFetching ? <li className="muted">No matches.</li> : null}
+          {data.map((hit) => (
+            <li key={hit.cardId}>
+              <strong>{hit.targetLexeme}</strong>{' '}
+              <span className="muted">
+                {hit.deckName} · {hit.kind === 'coding' ? 'Coding' : 'Vocab'}
+              </span>
+              <div className="quick-search-snippet">{renderSnippet(hit.snippet)}</div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { DeckSchedulerDTO, SchedulerAlgorithm } from '../../types/ipc';
+import { OptimizerPanel } from './OptimizerPanel';
+
+interface SchedulerSettingsProps {
+  deckId: number;
+  disabled?: boolean;
+}
+
+export function SchedulerSettings({ deckId, disabled = false }: SchedulerSettingsProps) {
+  const queryClient = useQueryClient();
+  const { data } = useQuery({
+    queryKey: ['deckScheduler', deckId],
+    queryFn: () => window.api.getDeckScheduler(deckId),
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = useCallback(
+    async (config: DeckSchedulerDTO) => {
+      setSaving(true);
+      setError(null);
+      try {
+        await window.api.setDeckScheduler(deckId, config);
+        await queryClient.invalidateQueries({ queryKey: ['deckScheduler', deckId] });
+        await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setSaving(false);
+      }
+    },
+    [deckId, queryClient],
+  );
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className="scheduler-settings" onClick={(event) => event.stopPropagation()}>
+      <label>
+        <span className="toolbar-label">Scheduler</span>
+        <select
+          value={data.algorithm}
+          disabled={disabled || saving}
+          onChange={(event) =>
+            save({ ...data, algorithm: event.target.value as SchedulerAlgorithm }).catch(() => {})
+          }
+        >
+          <option value="classic">Classic</option>
+          <option value="fsrs">FSRS</option>
+        </select>
+      </label>
+      {data.algorithm === 'fsrs' ? (
+        <label>
+          <span className="toolbar-label">Desired retention</span>
+          <input
+            type="number"
+            min={0.7}
+            max={0.99}
+            step={0.01}
+            defaultValue={data.desiredRetention}
+            disabled={disabled || saving}
+            onBlur={(event) => {
+              const desiredRetention = Number(event.target.value);
+              if (desiredRetention !== data.desiredRetention) {
+                save({ ...data, desiredRetention }).catch(() => {});
+              }
+            }}
+          />
+        </label>
+      ) : null}
+      {data.algorithm === 'fsrs' ? (
+        <OptimizerPanel deckId={deckId} hasCustomWeights={Boolean(data.weights)} />
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import type { ScoreDimension } from '../../types/ipc';
+import { BarChart } from './BarChart';
+
+interface WritingAnalyticsPanelProps {
+  deckId: number | null;
+}
+
+const DIMENSION_LABELS: Record<ScoreDimension, string> = {
+  form: 'Form',
+  mechanics: 'Mechanics',
+  grammar: 'Grammar',
+  style: 'Style',
+  sophistication: 'Sophistication',
+  naturalness: 'Naturalness',
+};
+
+function formatScore(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatChange(recent: number | null, previous: number | null) {
+  if (recent === null || previous === null) return '—';
+  const change = Math.round((recent - previous) * 100);
+  if (change === 0) return '±0';
+  return change > 0 ? `▲ ${change}` : `▼ ${-change}`;
+}
+
+export function WritingAnalyticsPanel({ deckId }: WritingAnalyticsPanelProps) {
+  const [dimension, setDimension] = useState<ScoreDimension>('naturalness');
+  const { data } = useQuery({
+    queryKey: ['writingAnalytics', deckId],
+    queryFn: () => window.api.writingAnalytics(deckId),
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  if (data.dimensions.every((summary) => summary.count === 0)) {
+    return <p className="muted">No scored sentences yet. Scores are kept from now on.</p>;
+  }
+
+  return (
+    <div className="writing-analytics">
+      {data.weakest ? (
+        <p>
+          Weakest area: <strong>{DIMENSION_LABELS[data.weakest]}</strong>
+        </p>
+      ) : null}
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th>Dimension</th>
+            <th>All time</th>
+            <th>Last 4 weeks</th>
+            <th>vs. 4 weeks before</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.dimensions.map((summary) => (
+            <tr
+              key={summary.dimension}
+              className={summary.dimension === data.weakest ? 'weakest' : undefined}
+            >
+              <td>{DIMENSION_LABELS[summary.dimension]}</td>
+              <td>
+                {formatScore(summary.average)} <span className="muted">({summary.count})</span>
+              </td>
+              <td>{formatScore(summary.recentAverage)}</td>
+              <td>{formatChange(summary.recentAverage, summary.previousAverage)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {data.weeks.length > 0 ? (
+        <>
+          <label>
+            <span className="toolbar-label">Weekly trend</span>
+            <select
+              value={dimension}
+              onChange={(event) => setDimension(event.target.value as ScoreDimension)}
+            >
+              {data.dimensions.map((summary) => (
+                <option key={summary.dimension} value={summary.dimension}>
+                  {DIMENSION_LABELS[summary.dimension]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <BarChart
+            labels={data.weeks.map((week) => week.weekStart.slice(5))}
+            series={[
+              {
+                name: `${DIMENSION_LABELS[dimension]} (%)`,
+                color: '#f472b6',
+                values: data.weeks.map((week) => Math.round((week.averages[dimension] ?? 0) * 100)),
+              },
+            ]}
+            height={180}
+          />
+        </>
+      ) : null}
+
+      <h3>Cards that keep sounding unnatural</h3>
+      {data.lowNaturalness.length === 0 ? (
+        <p className="muted">None — recent sentences read naturally.</p>
+      ) : (
+        <ul>
+          {data.lowNaturalness.map((card) => (
+            <li key={card.cardId}>
+              <strong>{card.targetLexeme}</strong>{' '}
+              <span className="muted">
+                {card.deckName} · {formatScore(card.averageNaturalness)} over the last{' '}
+                {card.attempts} sentences
+              </span>
+              {card.latestQuickTip ? <div className="muted">Tip: {card.latestQuickTip}</div> : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { NewNoteInputDTO, StudyMode } from '../../types/ipc';
+import { CodeEditor } from '../components/CodeEditor';
+import { useAppStore } from '../state';
+
+const EMPTY_VOCAB = {
+  word: '',
+  meaning: '',
+  pos: '',
+  example: '',
+  audioPath: null as string | null,
+};
+const EMPTY_CODING = { prompt: '', code: '', expectedOutput: '', explainContext: '' };
+
+function fileName(filePath: string) {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
+export function AddCardScreen() {
+  const { selectedDeckId, activeMode, setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const [deckId, setDeckId] = useState<number | null>(selectedDeckId);
+  const [kind, setKind] = useState<StudyMode>(activeMode);
+  const [vocab, setVocab] = useState(EMPTY_VOCAB);
+  const [coding, setCoding] = useState(EMPTY_CODING);
+  const [lang, setLang] = useState('en');
+  const [codeLanguage, setCodeLanguage] = useState('javascript');
+  const [tags, setTags] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [added, setAdded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: decks } = useQuery({
+    queryKey: ['decks'],
+    queryFn: () => window.api.listDecks(),
+  });
+  const targetDeckId = deckId ?? decks?.[0]?.id ?? null;
+
+  const handleChooseAudio = useCallback(async () => {
+    const audioPath = await window.api.chooseAudioFile();
+    if (audioPath) {
+      setVocab((current) => ({ ...current, audioPath }));
+    }
+  }, []);
+
+  const handleAdd = useCallback(async () => {
+    if (targetDeckId === null) return;
+    const tagList = tags.split(/\s+/).filter(Boolean);
+    const input: NewNoteInputDTO =
+      kind === 'coding'
+        ? {
+            kind: 'coding',
+            coding: {
+              prompt: coding.prompt,
+              code: coding.code,
+              language: codeLanguage,
+              expectedOutput: coding.expectedOutput,
+              explainContext: coding.explainContext || null,
+            },
+            tags: tagList,
+          }
+        : {
+            kind: 'vocab',
+            word: vocab.word,
+            meaning: vocab.meaning,
+            pos: vocab.pos || null,
+            example: vocab.example || null,
+            lang,
+            audioPath: vocab.audioPath,
+            tags: tagList,
+          };
+
+    setAdding(true);
+    setError(null);
+    setAdded(null);
+    try {
+      await window.api.addNote(targetDeckId, input);
+      setAdded(kind === 'coding' ? coding.prompt : vocab.word);
+      // Keep the deck, language and tags for the next card
+      setVocab(EMPTY_VOCAB);
+      setCoding(EMPTY_CODING);
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await queryClient.invalidateQueries({ queryKey: ['browse'] });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setAdding(false);
+    }
+  }, [codeLanguage, coding, kind, lang, queryClient, tags, targetDeckId, vocab]);
+
+  return (
+    <div className="screen add-card-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Add card</h1>
+        </div>
+        <div className="review-header-actions">
+          <button type="button" onClick={handleAdd} disabled={adding || targetDeckId === null}>
+            {adding ? 'Adding…' : 'Add'}
+          </button>
+        </div>
+      </header>
+
+      {decks && decks.length === 0 ? (
+        <p className="muted">Create a deck first, from the deck list.</p>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+      {added ? <p className="muted">Added “{added}”.</p> : null}
+
+      <div className="deck-options-row">
+        <label>
+          <span className="toolbar-label">Deck</span>
+          <select
+            value={targetDeckId ?? ''}
+            onChange={(event) => setDeckId(Number(event.target.value))}
+          >
+            {decks?.map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="segmented-control" role="group" aria-label="Note type">
+          <button
+            type="button"
+            className={kind === 'vocab' ? 'active' : ''}
+            onClick={() => setKind('vocab')}
+          >
+            Vocab
+          </button>
+          <button
+            type="button"
+            className={kind === 'coding' ? 'active' : ''}
+            onClick={() => setKind('coding')}
+          >
+            Coding
+          </button>
+        </div>
+        <label>
+          <span className="toolbar-label">Tags</span>
+          <input
+            type="text"
+            value={tags}
+            placeholder="space separated"
+            onChange={(event) => setTags(event.target.value)}
+          />
+        </label>
+      </div>
+
+      {kind === 'vocab' ? (
+        <section className="deck-options-section">
+          <div className="deck-options-grid">
+            <label>
+              <span className="toolbar-label">Word</span>
+              <input
+                type="text"
+                value={vocab.word}
+                onChange={(event) => setVocab({ ...vocab, word: event.target.value })}
+              />
+            </label>
+            <label>
+              <span className="toolbar-label">Meaning</span>
+              <input
+                type="text"
+                value={vocab.meaning}
+                onChange={(event) => setVocab({ ...vocab, meaning: event.target.value })}
+              />
+            </label>
+            <label>
+              <span className="toolbar-label">Part of speech</span>
+              <input
+                type="text"
+                value={vocab.pos}
+                onChange={(event) => setVocab({ ...vocab, pos: event.target.value })}
+              />
+            </label>
+            <label>
+              <span className="toolbar-label">Language</span>
+              <input type="text" value={lang} onChange={(event) => setLang(event.target.value)} />
+            </label>
+          </div>
+          <label className="card-editor-field">
+            <span className="toolbar-label">Example</span>
+            <textarea
+              rows={2}
+              value={vocab.example}
+              onChange={(event) => setVocab({ ...vocab, example: event.target.value })}
+            />
+          </label>
+          <div className="deck-options-row">
+            <button type="button" className="subtle" onClick={handleChooseAudio}>
+              Choose audio…
+            </button>
+            {vocab.audioPath ? (
+              <>
+                <span className="muted">{fileName(vocab.audioPath)}</span>
+                <button
+                  type="button"
+                  className="subtle"
+                  onClick={() => setVocab({ ...vocab, audioPath: null })}
+                >
+                  Remove
+                </button>
+              </>
+            ) : null}
+          </div>
+        </section>
+      ) : (
+        <section className="deck-options-section">
+          <label className="card-editor-field">
+            <span className="toolbar-label">Prompt</span>
+            <textarea
+              rows={2}
+              value={coding.prompt}
+              onChange={(event) => setCoding({ ...coding, prompt: event.target.value })}
+            />
+          </label>
+          <label className="card-editor-field">
+            <span className="toolbar-label">Language</span>
+            <input
+              type="text"
+              value={codeLanguage}
+              onChange={(event) => setCodeLanguage(event.target.value)}
+            />
+          </label>
+          <div className="card-editor-field">
+            <span className="toolbar-label">Code</span>
+            <CodeEditor
+              value={coding.code}
+              language={codeLanguage}
+              onChange={(code) => setCoding({ ...coding, code })}
+              minHeight={200}
+            />
+          </div>
+          <label className="card-editor-field">
+            <span className="toolbar-label">Expected output</span>
+            <textarea
+              rows={3}
+              value={coding.expectedOutput}
+              onChange={(event) => setCoding({ ...coding, expectedOutput: event.target.value })}
+            />
+          </label>
+          <label className="card-editor-field">
+            <span className="toolbar-label">Context</span>
+            <textarea
+              rows={2}
+              value={coding.explainContext}
+              onChange={(event) => setCoding({ ...coding, explainContext: event.target.value })}
+            />
+          </label>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { useAppStore } from '../state';
+import { AddCardScreen } from './AddCard';
+import { BrowseScreen } from './Browse';
+import { CardEditorScreen } from './CardEditor';
+import { DeckOptionsScreen } from './DeckOptions';
 import { DecksScreen } from './Decks';
+import { FlaggedScreen } from './Flagged';
+import { ImportScreen } from './Import';
+import { LeechesScreen } from './Leeches';
 import { ReviewScreen } from './Review';
 import { ReviewCodeScreen } from './ReviewCode';
+import { StatsScreen } from './Stats';
 
 const client = new QueryClient();
 
@@ -13,6 +21,22 @@ export function App() {
     switch (activeScreen) {
       case 'review':
         return activeMode === 'coding' ? <ReviewCodeScreen /> : <ReviewScreen />;
+      case 'deckOptions':
+        return <DeckOptionsScreen />;
+      case 'leeches':
+        return <LeechesScreen />;
+      case 'flagged':
+        return <FlaggedScreen />;
+      case 'stats':
+        return <StatsScreen />;
+      case 'browse':
+        return <BrowseScreen />;
+      case 'cardEditor':
+        return <CardEditorScreen />;
+      case 'addCard':
+        return <AddCardScreen />;
+      case 'import':
+        return <ImportScreen />;
       case 'decks':
       default:
         return <DecksScreen />;
@@ -0,0 +1,381 @@
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { BrowseCardDTO, BrowseSortColumn } from '../../types/ipc';
+import { CARD_FLAGS } from '../components/CardActions';
+import { useAppStore } from '../state';
+
+const PAGE_SIZE = 50;
+
+const COLUMNS: Array<{ label: string; sort: BrowseSortColumn | null }> = [
+  { label: 'Lexeme', sort: 'lexeme' },
+  { label: 'Deck', sort: 'deck' },
+  { label: 'Kind', sort: 'kind' },
+  { label: 'Due', sort: 'due' },
+  { label: 'Interval', sort: 'interval' },
+  { label: 'Ease', sort: 'ease' },
+  { label: 'Lapses', sort: 'lapses' },
+  { label: 'Tags', sort: null },
+  { label: 'Suspended', sort: null },
+];
+
+function stripHtml(html: string) {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+function isNew(card: BrowseCardDTO) {
+  return card.reps === 0 && card.learningStage === 0;
+}
+
+function formatDue(card: BrowseCardDTO) {
+  if (isNew(card)) return 'New';
+  return new Date(card.dueTs).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function BrowseScreen() {
+  const { setActiveScreen, editCard } = useAppStore();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<BrowseSortColumn>('created');
+  const [descending, setDescending] = useState(false);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetDeckId, setTargetDeckId] = useState<number | null>(null);
+  const [tag, setTag] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: decks } = useQuery({
+    queryKey: ['decks'],
+    queryFn: () => window.api.listDecks(),
+  });
+  const {
+    data,
+    isLoading,
+    error: searchError,
+  } = useQuery({
+    queryKey: ['browse', search, sort, descending, page],
+    queryFn: () => window.api.browseCards({ search, sort, descending, page, pageSize: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const selectedIds = [...selected];
+  const pageIds = data?.cards.map((card) => card.id) ?? [];
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every((id) => selected.has(id));
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setSearch(draft.trim());
+    setPage(0);
+    setSelected(new Set());
+  };
+
+  const handleSort = (column: BrowseSortColumn) => {
+    if (column === sort) {
+      setDescending((value) => !value);
+    } else {
+      setSort(column);
+      setDescending(false);
+    }
+    setPage(0);
+  };
+
+  const toggleCard = (cardId: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Set(current);
+      for (const id of pageIds) {
+        if (allOnPageSelected) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+      }
+      return next;
+    });
+  };
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>, clearSelection = false) => {
+      setBusy(true);
+      setError(null);
+      try {
+        await action();
+        if (clearSelection) setSelected(new Set());
+        await queryClient.invalidateQueries({ queryKey: ['browse'] });
+        await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [queryClient],
+  );
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset ${selectedIds.length} cards to new? Their progress is lost.`)) {
+      return;
+    }
+    run(() => window.api.resetCards(selectedIds)).catch(() => {});
+  };
+
+  const handleDelete = () => {
+    if (
+      !window.confirm(
+        `Delete ${selectedIds.length} cards and their review history? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+    run(() => window.api.deleteCards(selectedIds), true).catch(() => {});
+  };
+
+  const handleMove = () => {
+    if (targetDeckId === null) return;
+    run(() => window.api.moveCards(selectedIds, targetDeckId)).catch(() => {});
+  };
+
+  return (
+    <div className="screen browse-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Browse</h1>
+          <span className="lang-tag">{data ? data.total : 0} cards</span>
+        </div>
+        <div className="review-header-actions" />
+      </header>
+
+      <form className="browse-search" onSubmit={handleSearch}>
+        <input
+          type="search"
+          value={draft}
+          placeholder="deck:Spanish* tag:verb is:due prop:lapses>3 -is:suspended casa"
+          onChange={(event) => setDraft(event.target.value)}
+        />
+        <button type="submit">Search</button>
+      </form>
+      <p className="muted">
+        Filters: deck:, tag:, kind:vocab|coding, flag:1–7, is:due|new|learn|review|suspended|buried,
+        prop:ivl|ease|lapses|reps|due with =, !=, &lt;, &gt;, &lt;=, &gt;=. Use * as a wildcard,
+        quotes for spaces and a leading - to exclude.
+      </p>
+      {searchError ? <p className="error">{searchError.message}</p> : null}
+
+      {selected.size > 0 ? (
+        <div className="browse-actions deck-options-row">
+          <span className="toolbar-label">{selected.size} selected</span>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy}
+            onClick={() => run(() => window.api.suspendCards(selectedIds, true)).catch(() => {})}
+          >
+            Suspend
+          </button>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy}
+            onClick={() => run(() => window.api.suspendCards(selectedIds, false)).catch(() => {})}
+          >
+            Unsuspend
+          </button>
+          <button type="button" className="subtle" disabled={busy} onClick={handleReset}>
+            Reset
+          </button>
+          <label>
+            <span className="toolbar-label">Move to</span>
+            <select
+              value={targetDeckId ?? ''}
+              onChange={(event) =>
+                setTargetDeckId(event.target.value ? Number(event.target.value) : null)
+              }
+            >
+              <option value="">Choose deck…</option>
+              {decks?.map((deck) => (
+                <option key={deck.id} value={deck.id}>
+                  {deck.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy || targetDeckId === null}
+            onClick={handleMove}
+          >
+            Move
+          </button>
+          <label>
+            <span className="toolbar-label">Tag</span>
+            <input type="text" value={tag} onChange={(event) => setTag(event.target.value)} />
+          </label>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy || !tag.trim()}
+            onClick={() => run(() => window.api.addCardTag(selectedIds, tag)).catch(() => {})}
+          >
+            Add tag
+          </button>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy || !tag.trim()}
+            onClick={() => run(() => window.api.removeCardTag(selectedIds, tag)).catch(() => {})}
+          >
+            Remove tag
+          </button>
+          <button type="button" className="subtle" disabled={busy} onClick={handleDelete}>
+            Delete
+          </button>
+          <button
+            type="button"
+            className="subtle"
+            disabled={busy}
+            onClick={() => setSelected(new Set())}
+          >
+            Clear selection
+          </button>
+        </div>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+
+      {isLoading ? <p>Loading cards…</p> : null}
+      {data && data.cards.length === 0 ? <p className="muted">No cards match.</p> : null}
+      {data && data.cards.length > 0 ? (
+        <table className="stats-table browse-table">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  aria-label="Select page"
+                  checked={allOnPageSelected}
+                  onChange={togglePage}
+                />
+              </th>
+              {COLUMNS.map((column) => (
+                <th key={column.label}>
+                  {column.sort ? (
+                    <button
+                      type="button"
+                      className="browse-sort"
+                      onClick={() => handleSort(column.sort as BrowseSortColumn)}
+                    >
+                      {column.label}
+                      {sort === column.sort ? (descending ? ' ▼' : ' ▲') : ''}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {data.cards.map((card) => (
+              <tr
+                key={card.id}
+                className={selected.has(card.id) ? 'selected' : undefined}
+                onClick={() => toggleCard(card.id)}
+              >
+                <td>
+                  <input
+                    type="checkbox"
+                    aria-label="Select card"
+                    checked={selected.has(card.id)}
+                    onChange={() => toggleCard(card.id)}
+                    onClick={(event) => event.stopPropagation()}
+                  />
+                </td>
+                <td>
+                  {card.flag > 0 ? (
+                    <>
+                      <span
+                        className="card-flag active"
+                        style={{ backgroundColor: CARD_FLAGS[card.flag - 1]?.color }}
+                      />{' '}
+                    </>
+                  ) : null}
+                  {stripHtml(card.targetLexeme) || stripHtml(card.frontHtml)}
+                </td>
+                <td>{card.deckName}</td>
+                <td>{card.kind === 'coding' ? 'Coding' : 'Vocab'}</td>
+                <td>
+                  {formatDue(card)}
+                  {card.buried ? <span className="muted"> (buried)</span> : null}
+                </td>
+                <td>{isNew(card) ? '—' : `${card.ivlDays}d`}</td>
+                <td>{isNew(card) ? '—' : `${Math.round(card.ease * 100)}%`}</td>
+                <td>{card.lapses}</td>
+                <td className="muted">{card.tags.join(' ')}</td>
+                <td>{card.suspended ? 'Yes' : ''}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="subtle"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      editCard(card.id);
+                    }}
+                  >
+                    Edit
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      {data && data.total > PAGE_SIZE ? (
+        <div className="browse-pagination">
+          <button
+            type="button"
+            className="subtle"
+            disabled={page === 0}
+            onClick={() => setPage((value) => value - 1)}
+          >
+            ← Previous
+          </button>
+          <span className="muted">
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="subtle"
+            disabled={page + 1 >= pageCount}
+            onClick={() => setPage((value) => value + 1)}
+          >
+            Next →
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
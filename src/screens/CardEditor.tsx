@@ -0,0 +1,238 @@
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useState } from 'react';
+import type { CardEditInputDTO, CodingExtraDTO } from '../../types/ipc';
+import { CardFace } from '../components/CardFace';
+import { CodeEditor } from '../components/CodeEditor';
+import { CodingPrompt } from '../components/CodingPrompt';
+import { useAppStore } from '../state';
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+export function CardEditorScreen() {
+  const { editingCardId, editorReturnScreen, setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CardEditInputDTO | null>(null);
+  const [previewInput, setPreviewInput] = useState<CardEditInputDTO | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: editor, isLoading } = useQuery({
+    queryKey: ['cardEditor', editingCardId],
+    queryFn: () => window.api.cardEditor(editingCardId as number),
+    enabled: editingCardId !== null,
+  });
+
+  useEffect(() => {
+    if (!editor) return;
+    const initial: CardEditInputDTO = {
+      fields: editor.fields,
+      targetLexeme: editor.targetLexeme,
+      lang: editor.lang,
+      pos: editor.pos,
+      senseHint: editor.senseHint,
+      coding: editor.coding,
+    };
+    setDraft(initial);
+    setPreviewInput(initial);
+  }, [editor]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setPreviewInput(draft), PREVIEW_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [draft]);
+
+  const { data: preview } = useQuery({
+    queryKey: ['cardPreview', editingCardId, previewInput],
+    queryFn: () =>
+      window.api.previewCardEdit(editingCardId as number, previewInput as CardEditInputDTO),
+    enabled: editingCardId !== null && previewInput !== null,
+    placeholderData: keepPreviousData,
+  });
+
+  const update = useCallback((changes: Partial<CardEditInputDTO>) => {
+    setSaved(false);
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  }, []);
+
+  const updateField = (index: number, value: string) => {
+    if (!draft) return;
+    update({ fields: draft.fields.map((field, i) => (i === index ? value : field)) });
+  };
+
+  const updateCoding = (changes: Partial<CodingExtraDTO>) => {
+    if (!draft?.coding) return;
+    update({ coding: { ...draft.coding, ...changes } });
+  };
+
+  const handleSave = useCallback(async () => {
+    if (editingCardId === null || !draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await window.api.saveCardEdit(editingCardId, draft);
+      setSaved(true);
+      await queryClient.invalidateQueries({ queryKey: ['cardEditor', editingCardId] });
+      await queryClient.invalidateQueries({ queryKey: ['browse'] });
+      await queryClient.invalidateQueries({ queryKey: ['quickSearch'] });
+      await queryClient.invalidateQueries({ queryKey: ['leeches'] });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, editingCardId, queryClient]);
+
+  return (
+    <div className="screen card-editor-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen(editorReturnScreen)}>
+          ← {editorReturnScreen === 'leeches' ? 'Leeches' : 'Browse'}
+        </button>
+        <div className="card-meta">
+          <h1>Edit card</h1>
+          {editor ? (
+            <span className="lang-tag">{editor.noteTypeName ?? 'Basic (Front/Back)'}</span>
+          ) : null}
+        </div>
+        <div className="review-header-actions">
+          <button type="button" onClick={handleSave} disabled={saving || !draft}>
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </header>
+
+      {error ? <p className="error">{error}</p> : null}
+      {saved ? <p className="muted">Saved.</p> : null}
+      {isLoading ? <p>Loading card…</p> : null}
+
+      {editor && draft ? (
+        <div className="card-editor-layout">
+          <div className="card-editor-form">
+            <section className="deck-options-section">
+              <h2>Note fields</h2>
+              <p className="muted">Shared by every card of this note. HTML is allowed.</p>
+              {editor.fieldNames.map((name, index) => (
+                <label key={name} className="card-editor-field">
+                  <span className="toolbar-label">{name}</span>
+                  <textarea
+                    rows={2}
+                    value={draft.fields[index] ?? ''}
+                    onChange={(event) => updateField(index, event.target.value)}
+                  />
+                </label>
+              ))}
+            </section>
+
+            {editor.kind === 'coding' && draft.coding ? (
+              <section className="deck-options-section">
+                <h2>Coding drill</h2>
+                <label className="card-editor-field">
+                  <span className="toolbar-label">Prompt</span>
+                  <textarea
+                    rows={2}
+                    value={draft.coding.prompt}
+                    onChange={(event) => updateCoding({ prompt: event.target.value })}
+                  />
+                </label>
+                <label className="card-editor-field">
+                  <span className="toolbar-label">Language</span>
+                  <input
+                    type="text"
+                    value={draft.coding.language}
+                    onChange={(event) => updateCoding({ language: event.target.value })}
+                  />
+                </label>
+                <div className="card-editor-field">
+                  <span className="toolbar-label">Code</span>
+                  <CodeEditor
+                    value={draft.coding.code}
+                    language={draft.coding.language}
+                    onChange={(code) => updateCoding({ code })}
+                    minHeight={200}
+                  />
+                </div>
+                <label className="card-editor-field">
+                  <span className="toolbar-label">Expected output</span>
+                  <textarea
+                    rows={3}
+                    value={draft.coding.expectedOutput}
+                    onChange={(event) => updateCoding({ expectedOutput: event.target.value })}
+                  />
+                </label>
+                <label className="card-editor-field">
+                  <span className="toolbar-label">Explain context</span>
+                  <textarea
+                    rows={2}
+                    value={draft.coding.explainContext ?? ''}
+                    onChange={(event) =>
+                      updateCoding({ explainContext: event.target.value || null })
+                    }
+                  />
+                </label>
+              </section>
+            ) : (
+              <section className="deck-options-section">
+                <h2>Vocabulary</h2>
+                <div className="deck-options-grid">
+                  <label>
+                    <span className="toolbar-label">Target</span>
+                    <input
+                      type="text"
+                      value={draft.targetLexeme}
+                      onChange={(event) => update({ targetLexeme: event.target.value })}
+                    />
+                  </label>
+                  <label>
+                    <span className="toolbar-label">Language</span>
+                    <input
+                      type="text"
+                      value={draft.lang}
+                      onChange={(event) => update({ lang: event.target.value })}
+                    />
+                  </label>
+                  <label>
+                    <span className="toolbar-label">Part of speech</span>
+                    <input
+                      type="text"
+                      value={draft.pos ?? ''}
+                      onChange={(event) => update({ pos: event.target.value || null })}
+                    />
+                  </label>
+                  <label>
+                    <span className="toolbar-label">Sense hint</span>
+                    <input
+                      type="text"
+                      value={draft.senseHint ?? ''}
+                      onChange={(event) => update({ senseHint: event.target.value || null })}
+                    />
+                  </label>
+                </div>
+              </section>
+            )}
+          </div>
+
+          <section className="deck-options-section card-editor-preview">
+            <h2>Preview</h2>
+            {preview?.coding ? (
+              <div className="code-pane">
+                <CodingPrompt
+                  prompt={preview.coding.prompt}
+                  language={preview.coding.language}
+                  code={preview.coding.code}
+                />
+                <pre className="card-editor-expected">{preview.coding.expectedOutput}</pre>
+              </div>
+            ) : null}
+            {preview && !preview.coding ? (
+              <>
+                <CardFace html={preview.frontHtml} side="front" css={preview.css} />
+                <CardFace html={preview.backHtml} side="back" css={preview.css} />
+              </>
+            ) : null}
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
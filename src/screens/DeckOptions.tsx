@@ -0,0 +1,478 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  AppSettingsDTO,
+  DeckPresetDTO,
+  DeckPresetInputDTO,
+  LeechAction,
+  NewCardOrder,
+  ReviewOrder,
+} from '../../types/ipc';
+import { useAppStore } from '../state';
+import { SchedulerSettings } from '../components/SchedulerSettings';
+
+function toInput(preset: DeckPresetDTO): DeckPresetInputDTO {
+  return {
+    name: preset.name,
+    learningSteps: preset.learningSteps,
+    relearningSteps: preset.relearningSteps,
+    graduatingIvlDays: preset.graduatingIvlDays,
+    easyIvlDays: preset.easyIvlDays,
+    maxIvlDays: preset.maxIvlDays,
+    newPerDay: preset.newPerDay,
+    reviewsPerDay: preset.reviewsPerDay,
+    leechThreshold: preset.leechThreshold,
+    leechAction: preset.leechAction,
+    newCardOrder: preset.newCardOrder,
+    reviewOrder: preset.reviewOrder,
+    buryNew: preset.buryNew,
+    buryReviews: preset.buryReviews,
+    buryLearning: preset.buryLearning,
+    easyDays: preset.easyDays,
+  };
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EASY_DAY_LEVELS = [
+  { value: 1, label: 'Normal' },
+  { value: 0.5, label: 'Reduced' },
+  { value: 0, label: 'Minimum' },
+];
+
+function formatSteps(steps: number[]) {
+  return steps.join(' ');
+}
+
+function parseSteps(text: string) {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((step) => Number(step));
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+}
+
+function NumberField({ label, value, min, onChange, disabled }: NumberFieldProps) {
+  return (
+    <label>
+      <span className="toolbar-label">{label}</span>
+      <input
+        type="number"
+        min={min}
+        step={1}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
+    </label>
+  );
+}
+
+export function DeckOptionsScreen() {
+  const { selectedDeckId, setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const { data: decks } = useQuery({
+    queryKey: ['decks'],
+    queryFn: () => window.api.listDecks(),
+  });
+  const { data: presets } = useQuery({
+    queryKey: ['presets'],
+    queryFn: () => window.api.listPresets(),
+  });
+  const { data: appSettings } = useQuery({
+    queryKey: ['appSettings'],
+    queryFn: () => window.api.getAppSettings(),
+  });
+  const deck = decks?.find((item) => item.id === selectedDeckId) ?? null;
+  const preset = presets?.find((item) => item.id === deck?.presetId) ?? null;
+
+  const [draft, setDraft] = useState<DeckPresetInputDTO | null>(null);
+  const [learningStepsText, setLearningStepsText] = useState('');
+  const [relearningStepsText, setRelearningStepsText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!preset) return;
+    setDraft(toInput(preset));
+    setLearningStepsText(formatSteps(preset.learningSteps));
+    setRelearningStepsText(formatSteps(preset.relearningSteps));
+    setSaved(false);
+  }, [preset]);
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['presets'] });
+    await queryClient.invalidateQueries({ queryKey: ['decks'] });
+  }, [queryClient]);
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      setBusy(true);
+      setError(null);
+      setSaved(false);
+      try {
+        await action();
+        await refresh();
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [refresh],
+  );
+
+  const handlePresetChange = useCallback(
+    (presetId: number) => {
+      if (!deck) return;
+      run(() => window.api.setDeckPreset(deck.id, presetId)).catch(() => {});
+    },
+    [deck, run],
+  );
+
+  const handleClone = useCallback(() => {
+    if (!deck || !preset) return;
+    run(async () => {
+      const presetId = await window.api.createPreset({
+        ...toInput(preset),
+        name: `${preset.name} copy`,
+      });
+      await window.api.setDeckPreset(deck.id, presetId);
+    }).catch(() => {});
+  }, [deck, preset, run]);
+
+  const handleDelete = useCallback(() => {
+    if (!preset) return;
+    const others = preset.deckCount - 1;
+    const confirmed = window.confirm(
+      others > 0
+        ? `Delete preset “${preset.name}”? This deck and ${others} other deck(s) will switch to the default preset.`
+        : `Delete preset “${preset.name}”? This deck will switch to the default preset.`,
+    );
+    if (!confirmed) return;
+    run(() => window.api.deletePreset(preset.id)).catch(() => {});
+  }, [preset, run]);
+
+  const handleAppSettingsChange = useCallback(
+    (changes: Partial<AppSettingsDTO>) => {
+      if (!appSettings) return;
+      run(async () => {
+        await window.api.setAppSettings({ ...appSettings, ...changes });
+        await queryClient.invalidateQueries({ queryKey: ['appSettings'] });
+      }).catch(() => {});
+    },
+    [appSettings, queryClient, run],
+  );
+
+  const handleSave = useCallback(() => {
+    if (!preset || !draft) return;
+    run(async () => {
+      await window.api.updatePreset(preset.id, {
+        ...draft,
+        learningSteps: parseSteps(learningStepsText),
+        relearningSteps: parseSteps(relearningStepsText),
+      });
+      setSaved(true);
+    }).catch(() => {});
+  }, [draft, learningStepsText, preset, relearningStepsText, run]);
+
+  const update = useCallback(
+    <K extends keyof DeckPresetInputDTO>(key: K, value: DeckPresetInputDTO[K]) => {
+      setDraft((current) => (current ? { ...current, [key]: value } : current));
+      setSaved(false);
+    },
+    [],
+  );
+
+  if (!selectedDeckId || (decks && !deck)) {
+    return (
+      <div className="screen deck-options-screen">
+        <p>No deck selected.</p>
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          Back to Decks
+        </button>
+      </div>
+    );
+  }
+
+  if (!deck || !presets || !preset || !draft) {
+    return (
+      <div className="screen deck-options-screen">
+        <p>Loading options…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="screen deck-options-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>{deck.name}</h1>
+          <span className="lang-tag">Options</span>
+        </div>
+        <div className="review-header-actions" />
+      </header>
+
+      <section className="deck-options-section">
+        <h2>Preset</h2>
+        <div className="deck-options-row">
+          <label>
+            <span className="toolbar-label">Used by this deck</span>
+            <select
+              value={preset.id}
+              disabled={busy}
+              onChange={(event) => handlePresetChange(Number(event.target.value))}
+            >
+              {presets.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name} ({item.deckCount} {item.deckCount === 1 ? 'deck' : 'decks'})
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="subtle" onClick={handleClone} disabled={busy}>
+            Clone as new preset
+          </button>
+          <button type="button" className="subtle" onClick={handleDelete} disabled={busy}>
+            Delete preset
+          </button>
+        </div>
+        {preset.deckCount > 1 ? (
+          <p className="muted">
+            Changes apply to all {preset.deckCount} decks that share this preset.
+          </p>
+        ) : null}
+      </section>
+
+      <section className="deck-options-section">
+        <h2>Settings</h2>
+        <div className="deck-options-grid">
+          <label>
+            <span className="toolbar-label">Preset name</span>
+            <input
+              type="text"
+              value={draft.name}
+              disabled={busy}
+              onChange={(event) => update('name', event.target.value)}
+            />
+          </label>
+          <label>
+            <span className="toolbar-label">Learning steps (minutes)</span>
+            <input
+              type="text"
+              value={learningStepsText}
+              disabled={busy}
+              onChange={(event) => {
+                setLearningStepsText(event.target.value);
+                setSaved(false);
+              }}
+            />
+          </label>
+          <label>
+            <span className="toolbar-label">Relearning steps (minutes)</span>
+            <input
+              type="text"
+              value={relearningStepsText}
+              disabled={busy}
+              onChange={(event) => {
+                setRelearningStepsText(event.target.value);
+                setSaved(false);
+              }}
+            />
+          </label>
+          <NumberField
+            label="Graduating interval (days)"
+            value={draft.graduatingIvlDays}
+            min={1}
+            disabled={busy}
+            onChange={(value) => update('graduatingIvlDays', value)}
+          />
+          <NumberField
+            label="Easy interval (days, 0 = from ease)"
+            value={draft.easyIvlDays}
+            min={0}
+            disabled={busy}
+            onChange={(value) => update('easyIvlDays', value)}
+          />
+          <NumberField
+            label="Maximum interval (days)"
+            value={draft.maxIvlDays}
+            min={1}
+            disabled={busy}
+            onChange={(value) => update('maxIvlDays', value)}
+          />
+          <NumberField
+            label="New cards per day"
+            value={draft.newPerDay}
+            min={0}
+            disabled={busy}
+            onChange={(value) => update('newPerDay', value)}
+          />
+          <NumberField
+            label="Reviews per day"
+            value={draft.reviewsPerDay}
+            min={0}
+            disabled={busy}
+            onChange={(value) => update('reviewsPerDay', value)}
+          />
+          <NumberField
+            label="Leech threshold (lapses)"
+            value={draft.leechThreshold}
+            min={1}
+            disabled={busy}
+            onChange={(value) => update('leechThreshold', value)}
+          />
+          <label>
+            <span className="toolbar-label">Leech action</span>
+            <select
+              value={draft.leechAction}
+              disabled={busy}
+              onChange={(event) => update('leechAction', event.target.value as LeechAction)}
+            >
+              <option value="suspend">Suspend card</option>
+              <option value="tag">Tag only</option>
+            </select>
+          </label>
+          <label>
+            <span className="toolbar-label">New card order</span>
+            <select
+              value={draft.newCardOrder}
+              disabled={busy}
+              onChange={(event) => update('newCardOrder', event.target.value as NewCardOrder)}
+            >
+              <option value="due">Deck order</option>
+              <option value="random">Random</option>
+              <option value="tag">By tag</option>
+              <option value="frequency">By word frequency</option>
+            </select>
+          </label>
+          <label>
+            <span className="toolbar-label">Review order</span>
+            <select
+              value={draft.reviewOrder}
+              disabled={busy}
+              onChange={(event) => update('reviewOrder', event.target.value as ReviewOrder)}
+            >
+              <option value="due">Due date</option>
+              <option value="overdueness">Relative overdueness</option>
+              <option value="retrievability">Lowest retrievability</option>
+            </select>
+          </label>
+        </div>
+        <div className="deck-options-row">
+          <span className="toolbar-label">Bury siblings until tomorrow</span>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.buryNew}
+              disabled={busy}
+              onChange={(event) => update('buryNew', event.target.checked)}
+            />
+            New
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.buryReviews}
+              disabled={busy}
+              onChange={(event) => update('buryReviews', event.target.checked)}
+            />
+            Reviews
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draft.buryLearning}
+              disabled={busy}
+              onChange={(event) => update('buryLearning', event.target.checked)}
+            />
+            Learning
+          </label>
+        </div>
+        <div className="deck-options-row">
+          <span className="toolbar-label">Easy days</span>
+          {WEEKDAYS.map((weekday, index) => (
+            <label key={weekday}>
+              <span className="toolbar-label">{weekday}</span>
+              <select
+                value={draft.easyDays[index]}
+                disabled={busy}
+                onChange={(event) =>
+                  update(
+                    'easyDays',
+                    draft.easyDays.map((value, day) =>
+                      day === index ? Number(event.target.value) : value,
+                    ),
+                  )
+                }
+              >
+                {EASY_DAY_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <div className="deck-options-row">
+          <button type="button" onClick={handleSave} disabled={busy}>
+            {busy ? 'Saving…' : 'Save preset'}
+          </button>
+          {saved ? <span className="muted">Saved.</span> : null}
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+      </section>
+
+      <section className="deck-options-section">
+        <h2>Scheduler</h2>
+        <SchedulerSettings deckId={deck.id} disabled={busy} />
+      </section>
+
+      {appSettings ? (
+        <section className="deck-options-section">
+          <h2>All decks</h2>
+          <div className="deck-options-row">
+            <label>
+              <span className="toolbar-label">Next day starts at</span>
+              <select
+                value={appSettings.dayRolloverHour}
+                disabled={busy}
+                onChange={(event) =>
+                  handleAppSettingsChange({ dayRolloverHour: Number(event.target.value) })
+                }
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {String(hour).padStart(2, '0')}:00
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="muted">Daily new-card and review limits reset at this hour.</p>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={appSettings.loadBalancing}
+              disabled={busy}
+              onChange={(event) => handleAppSettingsChange({ loadBalancing: event.target.checked })}
+            />
+            Balance review load across days
+          </label>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useCallback, useEffect, useMemo, useState, type MouseEvent } from 'react';
+import { useCallback, useEffect, useMemo, useState, type FormEvent, type MouseEvent } from 'react';
 import type { DeckSummaryDTO, StudyMode } from '../../types/ipc';
+import { QuickSearch } from '../components/QuickSearch';
 import { useAppStore } from '../state';
 
 function useDecks() {
@@ -25,6 +26,51 @@ function formatNextDue(timestamp: number | null) {
 type SortOrder = 'alphabetical' | 'random';
 type ModeFilter = 'all' | 'vocab' | 'coding';
 const SORT_ORDER_STORAGE_KEY = 'deck-sort-order';
+const COLLAPSED_STORAGE_KEY = 'deck-collapsed';
+
+interface DeckTreeRow {
+  deck: DeckSummaryDTO;
+  depth: number;
+  hasChildren: boolean;
+}
+
+function readCollapsedDecks(): Set<number> {
+  if (typeof window === 'undefined') {
+    return new Set();
+  }
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(COLLAPSED_STORAGE_KEY) ?? '[]',
+    ) as unknown;
+    return new Set(Array.isArray(stored) ? stored.filter((id) => typeof id === 'number') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Flattens decks into tree order, skipping the subdecks of collapsed decks.
+ * A deck whose parent was filtered out is shown at the top level.
+ */
+function buildDeckTree(decks: DeckSummaryDTO[], collapsed: Set<number>): DeckTreeRow[] {
+  const visibleIds = new Set(decks.map((deck) => deck.id));
+  const children = new Map<number | null, DeckSummaryDTO[]>();
+  for (const deck of decks) {
+    const parentId = deck.parentId !== null && visibleIds.has(deck.parentId) ? deck.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), deck]);
+  }
+
+  const rows: DeckTreeRow[] = [];
+  const visit = (deck: DeckSummaryDTO, depth: number) => {
+    const subdecks = children.get(deck.id) ?? [];
+    rows.push({ deck, depth, hasChildren: subdecks.length > 0 });
+    if (!collapsed.has(deck.id)) {
+      subdecks.forEach((subdeck) => visit(subdeck, depth + 1));
+    }
+  };
+  (children.get(null) ?? []).forEach((deck) => visit(deck, 0));
+  return rows;
+}
 
 function shuffle<T>(items: T[]): T[] {
   const result = [...items];
@@ -42,11 +88,13 @@ function matchesOriginalOrder(items: DeckSummaryDTO[], candidate: DeckSummaryDTO
 export function DecksScreen() {
   const { data, isLoading, refetch } = useDecks();
   const queryClient = useQueryClient();
-  const { selectDeck, setActiveScreen, setActiveMode, selectedDeckId, activeMode } = useAppStore();
+  const { selectDeck, setActiveScreen, setActiveMode, startImport, selectedDeckId, activeMode } =
+    useAppStore();
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
   const [deletingDeckId, setDeletingDeckId] = useState<number | null>(null);
+  const [newDeckName, setNewDeckName] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<SortOrder>(() => {
     if (typeof window === 'undefined') {
       return 'alphabetical';
@@ -54,6 +102,7 @@ export function DecksScreen() {
     const stored = window.localStorage.getItem(SORT_ORDER_STORAGE_KEY);
     return stored === 'random' ? 'random' : 'alphabetical';
   });
+  const [collapsedDecks, setCollapsedDecks] = useState<Set<number>>(readCollapsedDecks);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -62,6 +111,13 @@ export function DecksScreen() {
     window.localStorage.setItem(SORT_ORDER_STORAGE_KEY, sortOrder);
   }, [sortOrder]);
 
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    window.localStorage.setItem(COLLAPSED_STORAGE_KEY, JSON.stringify([...collapsedDecks]));
+  }, [collapsedDecks]);
+
   const decks = useMemo(() => {
     const items = data ?? [];
     if (items.length === 0) {
@@ -91,23 +147,49 @@ export function DecksScreen() {
     return decks.filter(predicate);
   }, [decks, modeFilter]);
 
+  const deckTree = useMemo(
+    () => buildDeckTree(filteredDecks, collapsedDecks),
+    [collapsedDecks, filteredDecks],
+  );
+
+  const toggleCollapsed = useCallback((event: MouseEvent<HTMLButtonElement>, deckId: number) => {
+    event.stopPropagation();
+    setCollapsedDecks((current) => {
+      const next = new Set(current);
+      if (!next.delete(deckId)) {
+        next.add(deckId);
+      }
+      return next;
+    });
+  }, []);
+
   const handleImportClick = useCallback(async () => {
     setError(null);
     const filePath = await window.api.chooseApkg();
-    if (!filePath) {
-      return;
-    }
-    setBusy(true);
-    try {
-      await window.api.importApkg(filePath);
-      await queryClient.invalidateQueries({ queryKey: ['decks'] });
-      await refetch();
-    } catch (err) {
-      setError((err as Error).message);
-    } finally {
-      setBusy(false);
+    if (filePath) {
+      startImport(filePath);
     }
-  }, [queryClient, refetch]);
+  }, [startImport]);
+
+  const handleCreateDeck = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+      if (newDeckName === null) return;
+      setError(null);
+      setBusy(true);
+      try {
+        const deckId = await window.api.createDeck(newDeckName);
+        selectDeck(deckId);
+        setNewDeckName(null);
+        await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [newDeckName, queryClient, selectDeck],
+  );
 
   const handleStudyModeChange = useCallback(
     (mode: StudyMode) => {
@@ -125,14 +207,26 @@ export function DecksScreen() {
     [selectDeck, setActiveMode, setActiveScreen],
   );
 
+  const handleOptions = useCallback(
+    (event: MouseEvent<HTMLButtonElement>, deck: DeckSummaryDTO) => {
+      event.stopPropagation();
+      selectDeck(deck.id);
+      setActiveScreen('deckOptions');
+    },
+    [selectDeck, setActiveScreen],
+  );
+
   const handleDelete = useCallback(
     async (event: MouseEvent<HTMLButtonElement>, deck: DeckSummaryDTO) => {
       event.stopPropagation();
       if (deletingDeckId) {
         return;
       }
+      const hasSubdecks = data?.some((other) => other.parentId === deck.id) ?? false;
       const confirmed = window.confirm(
-        `Delete “${deck.name}”? All cards and progress for this deck will be removed.`,
+        hasSubdecks
+          ? `Delete “${deck.name}” and all of its subdecks? All their cards and progress will be removed.`
+          : `Delete “${deck.name}”? All cards and progress for this deck will be removed.`,
       );
       if (!confirmed) {
         return;
@@ -153,7 +247,7 @@ export function DecksScreen() {
         setDeletingDeckId(null);
       }
     },
-    [deletingDeckId, queryClient, refetch, selectDeck, selectedDeckId],
+    [data, deletingDeckId, queryClient, refetch, selectDeck, selectedDeckId],
   );
 
   const handleDeckModeBadgeClick = useCallback(
@@ -269,18 +363,65 @@ export function DecksScreen() {
           <button type="button" onClick={handleImportClick} disabled={busy}>
             {busy ? 'Importing…' : 'Import Anki Deck'}
           </button>
+          <button
+            type="button"
+            className="subtle"
+            onClick={() => setNewDeckName(newDeckName === null ? '' : null)}
+            disabled={busy}
+          >
+            New Deck
+          </button>
+          <button type="button" className="subtle" onClick={() => setActiveScreen('addCard')}>
+            Add Card
+          </button>
+          <button type="button" className="subtle" onClick={() => setActiveScreen('leeches')}>
+            Leeches
+          </button>
+          <button type="button" className="subtle" onClick={() => setActiveScreen('flagged')}>
+            Flagged
+          </button>
+          <button type="button" className="subtle" onClick={() => setActiveScreen('stats')}>
+            Stats
+          </button>
+          <button type="button" className="subtle" onClick={() => setActiveScreen('browse')}>
+            Browse
+          </button>
         </div>
+        {newDeckName !== null ? (
+          <form className="new-deck-form" onSubmit={handleCreateDeck}>
+            <input
+              type="text"
+              value={newDeckName}
+              placeholder="Deck name"
+              aria-label="Deck name"
+              autoFocus
+              onChange={(event) => setNewDeckName(event.target.value)}
+            />
+            <button type="submit" disabled={busy || !newDeckName.trim()}>
+              Create
+            </button>
+            <button type="button" className="subtle" onClick={() => setNewDeckName(null)}>
+              Cancel
+            </button>
+          </form>
+        ) : null}
       </header>
 
       <main className="deck-list">
+        <QuickSearch />
         {error ? <p className="error">{error}</p> : null}
         {isLoading ? <p>Loading decks…</p> : null}
         {!isLoading && filteredDecks.length === 0 ? (
-          <p className="empty">Import an Anki deck (`.apkg`) to get started.</p>
+          <p className="empty">
+            Import an Anki deck (`.apkg` or `.colpkg`) or create a new deck to get started.
+          </p>
         ) : null}
 
-        {filteredDecks.map((deck) => {
+        {deckTree.map(({ deck, depth, hasChildren }) => {
           const modes = deck.modes;
+          const isCollapsed = collapsedDecks.has(deck.id);
+          // Subdecks shown under their parent only need their own level of the name
+          const displayName = depth > 0 ? deck.name.split('::').pop() : deck.name;
           const isSelected = selectedDeckId === deck.id;
           const isDeleting = deletingDeckId === deck.id;
           const emptyModeStats = {
@@ -300,7 +441,8 @@ export function DecksScreen() {
           return (
             <article
               key={deck.id}
-              className={`deck-card ${isSelected ? 'selected' : ''}`}
+              className={`deck-card ${isSelected ? 'selected' : ''} ${depth > 0 ? 'subdeck' : ''}`}
+              style={depth > 0 ? { marginLeft: depth * 28 } : undefined}
               onClick={() => selectDeck(deck.id)}
             >
               <button
@@ -315,7 +457,20 @@ export function DecksScreen() {
               </button>
               <div className="deck-card-info">
                 <div className="deck-card-heading">
-                  <h2>{deck.name}</h2>
+                  <h2>
+                    {hasChildren ? (
+                      <button
+                        type="button"
+                        className="deck-tree-toggle"
+                        aria-expanded={!isCollapsed}
+                        aria-label={isCollapsed ? 'Show subdecks' : 'Hide subdecks'}
+                        onClick={(event) => toggleCollapsed(event, deck.id)}
+                      >
+                        {isCollapsed ? '▸' : '▾'}
+                      </button>
+                    ) : null}
+                    {displayName}
+                  </h2>
                   <span className="deck-card-next">Next {formatNextDue(deck.nextDue)}</span>
                 </div>
                 <div className="deck-card-badges">
@@ -385,6 +540,14 @@ export function DecksScreen() {
                     {alternateModeLabel} available
                   </button>
                 ) : null}
+                <button
+                  type="button"
+                  className="subtle"
+                  onClick={(event) => handleOptions(event, deck)}
+                  disabled={busy || isDeleting}
+                >
+                  Options
+                </button>
               </div>
             </article>
           );
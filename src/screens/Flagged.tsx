@@ -0,0 +1,117 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import { CARD_FLAGS } from '../components/CardActions';
+import { useAppStore } from '../state';
+
+function stripHtml(html: string) {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+function flagLabel(flag: number) {
+  return CARD_FLAGS.find((option) => option.value === flag)?.label ?? `Flag ${flag}`;
+}
+
+export function FlaggedScreen() {
+  const { setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const [flag, setFlag] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { data, isLoading } = useQuery({
+    queryKey: ['flagged', flag],
+    queryFn: () => window.api.listFlagged(flag),
+  });
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      setError(null);
+      try {
+        await action();
+        await queryClient.invalidateQueries({ queryKey: ['flagged'] });
+        await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    },
+    [queryClient],
+  );
+
+  return (
+    <div className="screen leeches-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Flagged</h1>
+          <span className="lang-tag">{data ? data.length : 0} cards</span>
+        </div>
+        <div className="review-header-actions" />
+      </header>
+
+      <div className="segmented-control" role="group" aria-label="Filter by flag">
+        <button
+          type="button"
+          className={flag === null ? 'active' : ''}
+          onClick={() => setFlag(null)}
+        >
+          All
+        </button>
+        {CARD_FLAGS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={flag === option.value ? 'active' : ''}
+            onClick={() => setFlag(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? <p className="error">{error}</p> : null}
+      {isLoading ? <p>Loading flagged cards…</p> : null}
+      {!isLoading && data?.length === 0 ? (
+        <p className="muted">No flagged cards. Flag a card during review with Ctrl/Cmd+1–7.</p>
+      ) : null}
+      {data?.map((card) => (
+        <article key={card.id} className="leech-card">
+          <div className="leech-card-summary">
+            <div>
+              <h2>
+                <span
+                  className="card-flag active"
+                  style={{ backgroundColor: CARD_FLAGS[card.flag - 1]?.color }}
+                />{' '}
+                {stripHtml(card.targetLexeme) || stripHtml(card.frontHtml)}
+              </h2>
+              <p className="muted">
+                {card.deckName} · {card.kind === 'coding' ? 'Coding' : 'Vocab'} ·{' '}
+                {flagLabel(card.flag)}
+                {card.suspended ? ' · Suspended' : ''}
+              </p>
+            </div>
+            <div className="leech-card-actions">
+              <button
+                type="button"
+                className="subtle"
+                onClick={() => run(() => window.api.setCardFlag(card.id, 0)).catch(() => {})}
+              >
+                Unflag
+              </button>
+              {card.suspended ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    run(() => window.api.setCardSuspended(card.id, false)).catch(() => {})
+                  }
+                >
+                  Unsuspend
+                </button>
+              ) : null}
+            </div>
+          </div>
+        </article>
+      ))}
+    </div>
+  );
+}
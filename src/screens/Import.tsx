@@ -0,0 +1,302 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type {
+  ImportFieldMappingDTO,
+  ImportFieldRole,
+  ImportNoteTypeDTO,
+  StudyMode,
+} from '../../types/ipc';
+import { useAppStore } from '../state';
+
+const ROLE_LABELS: Record<StudyMode, Array<[ImportFieldRole, string]>> = {
+  vocab: [
+    ['target', 'Word'],
+    ['meaning', 'Meaning'],
+    ['pos', 'Part of speech'],
+    ['audio', 'Audio'],
+  ],
+  coding: [
+    ['target', 'Prompt'],
+    ['code', 'Code'],
+    ['expectedOutput', 'Expected output'],
+    ['meaning', 'Context'],
+  ],
+};
+
+const DEFAULT_LANG: Record<StudyMode, string> = { vocab: 'en', coding: 'javascript' };
+
+interface NoteTypeMappingProps {
+  noteType: ImportNoteTypeDTO;
+  mapping: ImportFieldMappingDTO;
+  disabled: boolean;
+  onChange: (mapping: ImportFieldMappingDTO) => void;
+}
+
+function NoteTypeMapping({ noteType, mapping, disabled, onChange }: NoteTypeMappingProps) {
+  const setKind = (kind: StudyMode) =>
+    onChange({
+      ...mapping,
+      kind,
+      lang: kind === noteType.mapping.kind ? noteType.mapping.lang : DEFAULT_LANG[kind],
+    });
+  const setField = (role: ImportFieldRole, fieldName: string) =>
+    onChange({ ...mapping, fields: { ...mapping.fields, [role]: fieldName || undefined } });
+
+  return (
+    <section className="deck-options-section">
+      <h2>{noteType.name}</h2>
+      <p className="muted">
+        {noteType.noteCount} {noteType.noteCount === 1 ? 'note' : 'notes'}
+        {noteType.remembered ? ' · mapping from the last import' : ''}
+      </p>
+      <div className="deck-options-row">
+        <div className="segmented-control" role="group" aria-label="Card kind">
+          {(['vocab', 'coding'] as const).map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              className={mapping.kind === kind ? 'active' : ''}
+              disabled={disabled}
+              onClick={() => setKind(kind)}
+            >
+              {kind === 'coding' ? 'Coding' : 'Vocab'}
+            </button>
+          ))}
+        </div>
+        <label>
+          <span className="toolbar-label">Language</span>
+          <input
+            type="text"
+            value={mapping.lang}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...mapping, lang: event.target.value })}
+          />
+        </label>
+      </div>
+      <div className="deck-options-grid">
+        {ROLE_LABELS[mapping.kind].map(([role, label]) => (
+          <label key={role}>
+            <span className="toolbar-label">{label}</span>
+            <select
+              value={mapping.fields[role] ?? ''}
+              disabled={disabled}
+              onChange={(event) => setField(role, event.target.value)}
+            >
+              <option value="">—</option>
+              {noteType.fieldNames.map((fieldName) => (
+                <option key={fieldName} value={fieldName}>
+                  {fieldName}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <table className="stats-table">
+        <thead>
+          <tr>
+            {noteType.fieldNames.map((fieldName) => (
+              <th key={fieldName}>{fieldName}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {noteType.samples.map((sample, index) => (
+            <tr key={index}>
+              {sample.map((value, fieldIndex) => (
+                <td key={noteType.fieldNames[fieldIndex]}>{value}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+export function ImportScreen() {
+  const { importFilePath, selectDeck, setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const [options, setOptions] = useState({ removeMissing: false, overwriteConflicts: false });
+  // Mappings changed on this screen; the rest keep what the preview suggested
+  const [mappings, setMappings] = useState<Record<number, ImportFieldMappingDTO>>({});
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    data: summary,
+    error: previewError,
+    isLoading,
+  } = useQuery({
+    queryKey: ['importPreview', importFilePath],
+    queryFn: () => window.api.previewImport(importFilePath ?? ''),
+    enabled: importFilePath !== null,
+    gcTime: 0,
+    retry: false,
+  });
+
+  const handleImport = useCallback(async () => {
+    if (!importFilePath || !summary) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await window.api.importApkg(importFilePath, {
+        ...options,
+        // Every mapping is sent so the main process remembers it for the next import
+        mappings: Object.fromEntries(
+          summary.noteTypes.map((noteType) => [
+            noteType.id,
+            mappings[noteType.id] ?? noteType.mapping,
+          ]),
+        ),
+      });
+      selectDeck(result.deckId);
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await queryClient.invalidateQueries({ queryKey: ['browse'] });
+      setActiveScreen('decks');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  }, [importFilePath, mappings, options, queryClient, selectDeck, setActiveScreen, summary]);
+
+  const nothingToDo =
+    summary !== undefined &&
+    summary.added === 0 &&
+    summary.updated === 0 &&
+    Object.keys(mappings).length === 0 &&
+    (summary.conflicting === 0 || !options.overwriteConflicts) &&
+    (summary.removed === 0 || !options.removeMissing);
+
+  return (
+    <div className="screen import-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')} disabled={importing}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Import</h1>
+          {summary ? <span className="muted">{summary.fileName}</span> : null}
+        </div>
+        <div className="review-header-actions">
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!summary || importing || nothingToDo}
+          >
+            {importing ? 'Importing…' : 'Import'}
+          </button>
+        </div>
+      </header>
+
+      {isLoading ? <p className="muted">Reading package…</p> : null}
+      {previewError ? <p className="error">{previewError.message}</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+
+      {summary ? (
+        <>
+          <section className="deck-options-section">
+            <h2>{summary.deckNames.length === 1 ? 'Deck' : 'Decks'}</h2>
+            <p>{summary.deckNames.join(', ')}</p>
+            {summary.mergedDeckNames.length > 0 ? (
+              <p className="muted">
+                These decks exist already, and the import adds to them:{' '}
+                {summary.mergedDeckNames.join(', ')}
+              </p>
+            ) : null}
+            <table className="stats-table">
+              <tbody>
+                <tr>
+                  <td>New notes</td>
+                  <td>{summary.added}</td>
+                </tr>
+                <tr>
+                  <td>Updated</td>
+                  <td>{summary.updated}</td>
+                </tr>
+                <tr>
+                  <td>Unchanged</td>
+                  <td>{summary.unchanged}</td>
+                </tr>
+                <tr>
+                  <td>Conflicting</td>
+                  <td>{summary.conflicting}</td>
+                </tr>
+                <tr>
+                  <td>Deleted from the package</td>
+                  <td>{summary.removed}</td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="muted">Review progress on existing cards is kept either way.</p>
+          </section>
+
+          <div className="deck-options-row">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={options.removeMissing}
+                disabled={importing || summary.removed === 0}
+                onChange={(event) =>
+                  setOptions({ ...options, removeMissing: event.target.checked })
+                }
+              />
+              Remove notes deleted from the package
+            </label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={options.overwriteConflicts}
+                disabled={importing || summary.conflicting === 0}
+                onChange={(event) =>
+                  setOptions({ ...options, overwriteConflicts: event.target.checked })
+                }
+              />
+              Use the package version for conflicting notes
+            </label>
+          </div>
+
+          {summary.noteTypes.map((noteType) => (
+            <NoteTypeMapping
+              key={noteType.id}
+              noteType={noteType}
+              mapping={mappings[noteType.id] ?? noteType.mapping}
+              disabled={importing}
+              onChange={(mapping) => setMappings({ ...mappings, [noteType.id]: mapping })}
+            />
+          ))}
+
+          {summary.conflicts.length > 0 ? (
+            <section className="deck-options-section">
+              <h2>Conflicts</h2>
+              <p className="muted">
+                These notes were edited here and changed in the package. Unless you choose the
+                package version, your edits are kept.
+              </p>
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th>Here</th>
+                    <th>In the package</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.conflicts.map((conflict) => (
+                    <tr key={conflict.guid}>
+                      <td>{conflict.local}</td>
+                      <td>{conflict.incoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {summary.conflicting > summary.conflicts.length ? (
+                <p className="muted">and {summary.conflicting - summary.conflicts.length} more</p>
+              ) : null}
+            </section>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { LeechCardDTO } from '../../types/ipc';
+import { useAppStore } from '../state';
+
+function stripHtml(html: string) {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+interface LeechRowProps {
+  card: LeechCardDTO;
+  onChanged: () => Promise<void>;
+}
+
+function LeechRow({ card, onChanged }: LeechRowProps) {
+  const { editCard } = useAppStore();
+  const [expanded, setExpanded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { data: detail } = useQuery({
+    queryKey: ['leechDetail', card.id],
+    queryFn: () => window.api.leechDetail(card.id),
+    enabled: expanded,
+  });
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      setBusy(true);
+      setError(null);
+      try {
+        await action();
+        await onChanged();
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onChanged],
+  );
+
+  const handleReset = useCallback(() => {
+    const confirmed = window.confirm(
+      'Reset this card to new? Its review history is kept but scheduling starts over.',
+    );
+    if (!confirmed) return;
+    run(() => window.api.resetCard(card.id)).catch(() => {});
+  }, [card.id, run]);
+
+  return (
+    <article className="leech-card">
+      <div className="leech-card-summary">
+        <div>
+          <h2>{stripHtml(card.targetLexeme) || stripHtml(card.frontHtml)}</h2>
+          <p className="muted">
+            {card.deckName} · {card.kind === 'coding' ? 'Coding' : 'Vocab'} · {card.lapses}{' '}
+            {card.lapses === 1 ? 'lapse' : 'lapses'}
+            {card.suspended ? ' · Suspended' : ''}
+          </p>
+        </div>
+        <div className="leech-card-actions">
+          <button type="button" className="subtle" onClick={() => setExpanded((value) => !value)}>
+            {expanded ? 'Hide history' : 'History'}
+          </button>
+          <button
+            type="button"
+            className="subtle"
+            onClick={() => editCard(card.id)}
+            disabled={busy}
+          >
+            Edit
+          </button>
+          <button type="button" className="subtle" onClick={handleReset} disabled={busy}>
+            Reset
+          </button>
+          {card.suspended ? (
+            <button
+              type="button"
+              onClick={() => run(() => window.api.setCardSuspended(card.id, false)).catch(() => {})}
+              disabled={busy}
+            >
+              Unsuspend
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {expanded && detail ? (
+        <div className="leech-card-history">
+          <section>
+            <h3>Lapses</h3>
+            {detail.lapses.length === 0 ? (
+              <p className="muted">No lapses recorded in the review log.</p>
+            ) : (
+              <ul>
+                {detail.lapses.map((lapse) => (
+                  <li key={lapse.reviewTs}>
+                    {formatDate(lapse.reviewTs)} — forgotten after {lapse.prevIvlDays} d
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+          <section>
+            <h3>Judge feedback</h3>
+            {detail.attempts.length === 0 ? (
+              <p className="muted">No sentence attempts yet.</p>
+            ) : (
+              <ul>
+                {detail.attempts.map((attempt) => (
+                  <li key={attempt.whenTs}>
+                    <span className={`verdict-tag verdict-${attempt.verdict}`}>
+                      {attempt.verdict}
+                    </span>{' '}
+                    “{attempt.sentence}” — {attempt.feedback}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      ) : null}
+
+      {error ? <p className="error">{error}</p> : null}
+    </article>
+  );
+}
+
+export function LeechesScreen() {
+  const { setActiveScreen } = useAppStore();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery({
+    queryKey: ['leeches'],
+    queryFn: () => window.api.listLeeches(),
+  });
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['leeches'] });
+    await queryClient.invalidateQueries({ queryKey: ['decks'] });
+  }, [queryClient]);
+
+  return (
+    <div className="screen leeches-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Leeches</h1>
+          <span className="lang-tag">{data ? data.length : 0} cards</span>
+        </div>
+        <div className="review-header-actions" />
+      </header>
+
+      {isLoading ? <p>Loading leeches…</p> : null}
+      {!isLoading && data?.length === 0 ? (
+        <p className="muted">No leeches. Cards that keep lapsing will show up here.</p>
+      ) : null}
+      {data?.map((card) => (
+        <LeechRow key={card.id} card={card} onChanged={refresh} />
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import type { FrontBackCard, JudgeResponseDTO, RatingValue } from '../../types/ipc';
+import type {
+  FrontBackCard,
+  JudgeResponseDTO,
+  LeechAction,
+  RateResultDTO,
+  RatingValue,
+} from '../../types/ipc';
 import { useAppStore } from '../state';
 import { ExplainButton } from '../components/ExplainButton';
 import { InsightsPanel } from '../components/InsightsPanel';
+import { LeechNotice } from '../components/LeechNotice';
+import { CardActions } from '../components/CardActions';
+import { CardFace } from '../components/CardFace';
 
 interface AttemptRecord extends JudgeResponseDTO {
   sentence: string;
@@ -36,15 +45,15 @@ export function ReviewScreen() {
   const [audioUrls, setAudioUrls] = useState<string[]>([]);
   const [awaitingRating, setAwaitingRating] = useState(false);
   const [showingFeedback, setShowingFeedback] = useState(false);
+  const [undoStack, setUndoStack] = useState<Array<{ revlogId: number; cardId: number }>>([]);
+  const [leech, setLeech] = useState<LeechAction | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const shownAtRef = useRef(Date.now());
 
   const lastAttempt = attempts.at(-1) ?? null;
   const attemptCount = attempts.length;
 
-  const loadNextCard = useCallback(async () => {
-    if (!selectedDeckId) {
-      return;
-    }
+  const loadCard = useCallback(async (fetchCard: () => Promise<FrontBackCard | null>) => {
     setLoadingCard(true);
     setError(null);
     setSentence('');
@@ -53,8 +62,9 @@ export function ReviewScreen() {
     setAwaitingRating(false);
     setShowingFeedback(false);
     try {
-      const next = await window.api.nextCard(selectedDeckId);
+      const next = await fetchCard();
       setCard(next);
+      shownAtRef.current = Date.now();
       setIsFront(true);
       setAudioUrls([]);
       if (next) {
@@ -65,7 +75,14 @@ export function ReviewScreen() {
     } finally {
       setLoadingCard(false);
     }
-  }, [selectedDeckId]);
+  }, []);
+
+  const loadNextCard = useCallback(async () => {
+    if (!selectedDeckId) {
+      return;
+    }
+    await loadCard(() => window.api.nextCard(selectedDeckId));
+  }, [loadCard, selectedDeckId]);
 
   useEffect(() => {
     if (!selectedDeckId) {
@@ -74,17 +91,56 @@ export function ReviewScreen() {
     loadNextCard().catch((err) => setError((err as Error).message));
   }, [loadNextCard, selectedDeckId]);
 
+  const recordRating = useCallback((cardId: number, result: RateResultDTO) => {
+    setUndoStack((stack) => [...stack, { revlogId: result.revlogId, cardId }]);
+    setLeech(result.leech);
+  }, []);
+
   const handleManualRate = useCallback(
     async (rating: RatingValue) => {
       if (!card || judging) return;
-      await window.api.rate(card.id, rating);
+      recordRating(
+        card.id,
+        await window.api.rate(card.id, rating, {
+          source: awaitingRating ? 'judge' : 'manual',
+          timeMs: Date.now() - shownAtRef.current,
+        }),
+      );
       await queryClient.invalidateQueries({ queryKey: ['decks'] });
       setAwaitingRating(false);
       await loadNextCard();
     },
-    [card, judging, loadNextCard, queryClient],
+    [awaitingRating, card, judging, loadNextCard, queryClient, recordRating],
   );
 
+  const handleCardRemoved = useCallback(
+    async (cardId: number) => {
+      // Burying, suspending and resetting leave no revlog entry, so undoing an
+      // earlier rating of the card would quietly revert them
+      setUndoStack((stack) => stack.filter((entry) => entry.cardId !== cardId));
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await loadNextCard();
+    },
+    [loadNextCard, queryClient],
+  );
+
+  const handleFlagChange = useCallback((flag: number) => {
+    setCard((current) => (current ? { ...current, flag } : current));
+  }, []);
+
+  const handleUndo = useCallback(async () => {
+    const revlogId = undoStack.at(-1)?.revlogId;
+    if (revlogId === undefined || judging) return;
+    try {
+      const { cardId } = await window.api.undoRate(revlogId);
+      setUndoStack((stack) => stack.slice(0, -1));
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await loadCard(() => window.api.cardForReview(cardId));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [judging, loadCard, queryClient, undoStack]);
+
   const handlePlayAudio = useCallback(async () => {
     if (!card) return;
     let urls = audioUrls;
@@ -138,7 +194,13 @@ export function ReviewScreen() {
       }
 
       if (result.verdict === 'wrong' && nextAttempts.length >= MAX_ATTEMPTS) {
-        await window.api.rate(card.id, 0);
+        recordRating(
+          card.id,
+          await window.api.rate(card.id, 0, {
+            source: 'auto_fail',
+            timeMs: Date.now() - shownAtRef.current,
+          }),
+        );
         await queryClient.invalidateQueries({ queryKey: ['decks'] });
         setSentence('');
         await loadNextCard();
@@ -161,6 +223,7 @@ export function ReviewScreen() {
     attempts,
     loadNextCard,
     queryClient,
+    recordRating,
   ]);
 
   const handleTryAgain = useCallback(() => {
@@ -172,9 +235,14 @@ export function ReviewScreen() {
 
   useEffect(() => {
     const handler = (event: KeyboardEvent) => {
-      if (!card) return;
       const target = event.target as HTMLElement;
       const isTyping = target && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT');
+      if (event.code === 'KeyZ' && (event.metaKey || event.ctrlKey) && !isTyping) {
+        event.preventDefault();
+        handleUndo().catch(() => {});
+        return;
+      }
+      if (!card) return;
       if (event.code === 'Space' && !isTyping) {
         event.preventDefault();
         setIsFront((prev) => !prev);
@@ -187,7 +255,12 @@ export function ReviewScreen() {
         event.preventDefault();
         handleSubmit().catch(() => {});
       }
-      if (['Digit1', 'Digit2', 'Digit3', 'Digit4'].includes(event.code) && !isTyping) {
+      if (
+        ['Digit1', 'Digit2', 'Digit3', 'Digit4'].includes(event.code) &&
+        !isTyping &&
+        !event.metaKey &&
+        !event.ctrlKey
+      ) {
         const ratingMap: Record<string, RatingValue> = {
           Digit1: 0,
           Digit2: 1,
@@ -203,7 +276,7 @@ export function ReviewScreen() {
 
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [card, handleManualRate, handlePlayAudio, handleSubmit]);
+  }, [card, handleManualRate, handlePlayAudio, handleSubmit, handleUndo]);
 
   if (!selectedDeckId) {
     return (
@@ -229,9 +302,16 @@ export function ReviewScreen() {
       <div className="screen review-screen">
         <h2>All caught up 🎉</h2>
         <p>Nothing due right now. Come back later for another round.</p>
+        {leech ? <LeechNotice action={leech} onDismiss={() => setLeech(null)} /> : null}
+        {error ? <p className="error">{error}</p> : null}
         <button type="button" onClick={() => setActiveScreen('decks')}>
           Back to Decks
         </button>
+        {undoStack.length > 0 ? (
+          <button type="button" className="subtle" onClick={handleUndo}>
+            Undo last rating
+          </button>
+        ) : null}
       </div>
     );
   }
@@ -249,15 +329,40 @@ export function ReviewScreen() {
             {card.pos ? ` · ${card.pos}` : ''}
           </span>
         </div>
-        <button type="button" onClick={handlePlayAudio}>
-          Play Audio
-        </button>
+        <div className="review-header-actions">
+          <button
+            type="button"
+            className="subtle"
+            onClick={handleUndo}
+            disabled={undoStack.length === 0 || judging}
+            title="Undo last rating (Ctrl/Cmd+Z)"
+          >
+            Undo
+          </button>
+          <button type="button" onClick={handlePlayAudio}>
+            Play Audio
+          </button>
+        </div>
       </header>
 
+      {leech ? <LeechNotice action={leech} onDismiss={() => setLeech(null)} /> : null}
+
+      <CardActions
+        cardId={card.id}
+        flag={card.flag}
+        disabled={judging}
+        onFlagChange={handleFlagChange}
+        onRemoved={() => {
+          handleCardRemoved(card.id).catch((err) => setError((err as Error).message));
+        }}
+      />
+
       <section className="card-pane">
-        <div className={`card-face ${isFront ? 'front' : 'back'}`}>
-          <article dangerouslySetInnerHTML={{ __html: isFront ? card.frontHtml : card.backHtml }} />
-        </div>
+        <CardFace
+          html={isFront ? card.frontHtml : card.backHtml}
+          side={isFront ? 'front' : 'back'}
+          css={card.css}
+        />
         <div className="card-controls">
           <button type="button" onClick={() => setIsFront((prev) => !prev)}>
             {isFront ? 'Show Answer (Space)' : 'Show Question'}
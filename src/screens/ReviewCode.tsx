@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import type { CodingCard, RatingValue } from '../../types/ipc';
-import { CodeEditor } from '../components/CodeEditor';
+import type { CodingCard, LeechAction, RateResultDTO, RatingValue } from '../../types/ipc';
+import { CodingPrompt } from '../components/CodingPrompt';
 import { ExplainButton } from '../components/ExplainButton';
 import { AssistantDrawer } from '../components/AssistantDrawer';
+import { LeechNotice } from '../components/LeechNotice';
+import { CardActions } from '../components/CardActions';
 import { useAppStore } from '../state';
 
 interface DiffLine {
@@ -61,16 +63,15 @@ export function ReviewCodeScreen() {
   const [comparing, setComparing] = useState(false);
   const [compareResult, setCompareResult] = useState<CompareResult | null>(null);
   const [awaitingRating, setAwaitingRating] = useState(false);
+  const [undoStack, setUndoStack] = useState<Array<{ revlogId: number; cardId: number }>>([]);
+  const [leech, setLeech] = useState<LeechAction | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const shownAtRef = useRef(Date.now());
   const queryClient = useQueryClient();
 
   const lastAttempt = attempts.at(-1) ?? null;
 
-  const loadNextCard = useCallback(async () => {
-    if (!selectedDeckId) {
-      setCard(null);
-      return;
-    }
+  const loadCard = useCallback(async (fetchCard: () => Promise<CodingCard | null>) => {
     setLoadingCard(true);
     setError(null);
     setComparing(false);
@@ -79,8 +80,9 @@ export function ReviewCodeScreen() {
     setAttempts([]);
     setAwaitingRating(false);
     try {
-      const next = await window.api.nextCodingCard(selectedDeckId);
+      const next = await fetchCard();
       setCard(next);
+      shownAtRef.current = Date.now();
       if (next) {
         requestAnimationFrame(() => textareaRef.current?.focus());
       }
@@ -89,12 +91,25 @@ export function ReviewCodeScreen() {
     } finally {
       setLoadingCard(false);
     }
-  }, [selectedDeckId]);
+  }, []);
+
+  const loadNextCard = useCallback(async () => {
+    if (!selectedDeckId) {
+      setCard(null);
+      return;
+    }
+    await loadCard(() => window.api.nextCodingCard(selectedDeckId));
+  }, [loadCard, selectedDeckId]);
 
   useEffect(() => {
     loadNextCard().catch((err) => setError((err as Error).message));
   }, [loadNextCard]);
 
+  const recordRating = useCallback((cardId: number, result: RateResultDTO) => {
+    setUndoStack((stack) => [...stack, { revlogId: result.revlogId, cardId }]);
+    setLeech(result.leech);
+  }, []);
+
   const handleCompare = useCallback(async () => {
     if (!card || !prediction.trim() || comparing || awaitingRating) {
       return;
@@ -122,7 +137,13 @@ export function ReviewCodeScreen() {
       setAwaitingRating(true);
     } else if (nextAttempts.length >= MAX_ATTEMPTS) {
       try {
-        await window.api.rate(card.id, 0);
+        recordRating(
+          card.id,
+          await window.api.rate(card.id, 0, {
+            source: 'auto_fail',
+            timeMs: Date.now() - shownAtRef.current,
+          }),
+        );
         await queryClient.invalidateQueries({ queryKey: ['decks'] });
       } catch (err) {
         setError((err as Error).message);
@@ -135,13 +156,28 @@ export function ReviewCodeScreen() {
     }
 
     setComparing(false);
-  }, [attempts, awaitingRating, card, comparing, prediction, loadNextCard, queryClient]);
+  }, [
+    attempts,
+    awaitingRating,
+    card,
+    comparing,
+    prediction,
+    loadNextCard,
+    queryClient,
+    recordRating,
+  ]);
 
   const handleManualRate = useCallback(
     async (rating: RatingValue) => {
       if (!card) return;
       try {
-        await window.api.rate(card.id, rating);
+        recordRating(
+          card.id,
+          await window.api.rate(card.id, rating, {
+            source: 'manual',
+            timeMs: Date.now() - shownAtRef.current,
+          }),
+        );
         await queryClient.invalidateQueries({ queryKey: ['decks'] });
         setAwaitingRating(false);
         await loadNextCard();
@@ -149,9 +185,51 @@ export function ReviewCodeScreen() {
         setError((err as Error).message);
       }
     },
-    [card, loadNextCard, queryClient],
+    [card, loadNextCard, queryClient, recordRating],
+  );
+
+  const handleCardRemoved = useCallback(
+    async (cardId: number) => {
+      // Burying, suspending and resetting leave no revlog entry, so undoing an
+      // earlier rating of the card would quietly revert them
+      setUndoStack((stack) => stack.filter((entry) => entry.cardId !== cardId));
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await loadNextCard();
+    },
+    [loadNextCard, queryClient],
   );
 
+  const handleFlagChange = useCallback((flag: number) => {
+    setCard((current) => (current ? { ...current, flag } : current));
+  }, []);
+
+  const handleUndo = useCallback(async () => {
+    const revlogId = undoStack.at(-1)?.revlogId;
+    if (revlogId === undefined) return;
+    try {
+      const { cardId } = await window.api.undoRate(revlogId);
+      setUndoStack((stack) => stack.slice(0, -1));
+      await queryClient.invalidateQueries({ queryKey: ['decks'] });
+      await loadCard(() => window.api.codingCardForReview(cardId));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [loadCard, queryClient, undoStack]);
+
+  useEffect(() => {
+    const handler = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const isTyping = target && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT');
+      if (event.code === 'KeyZ' && (event.metaKey || event.ctrlKey) && !isTyping) {
+        event.preventDefault();
+        handleUndo().catch(() => {});
+      }
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [handleUndo]);
+
   const refExpected = useMemo(() => (card ? normalizeOutput(card.expectedOutput) : ''), [card]);
 
   if (!selectedDeckId) {
@@ -177,25 +255,40 @@ export function ReviewCodeScreen() {
             {card ? card.prompt : 'Stay sharp with output prediction drills.'}
           </p>
         </div>
-        <div className="card-meta">
+        <div className="review-header-actions">
+          <button
+            type="button"
+            className="subtle"
+            onClick={handleUndo}
+            disabled={undoStack.length === 0}
+            title="Undo last rating (Ctrl/Cmd+Z)"
+          >
+            Undo
+          </button>
           <span className="lang-tag">{card?.language ?? '—'}</span>
         </div>
       </header>
 
       {error ? <p className="error">{error}</p> : null}
+      {leech ? <LeechNotice action={leech} onDismiss={() => setLeech(null)} /> : null}
       {loadingCard ? <p className="muted">Loading coding prompt…</p> : null}
       {!loadingCard && !card ? (
         <p className="muted">No coding cards available for this deck.</p>
       ) : null}
       {!card ? null : (
         <>
+          <CardActions
+            cardId={card.id}
+            flag={card.flag}
+            disabled={comparing}
+            onFlagChange={handleFlagChange}
+            onRemoved={() => {
+              handleCardRemoved(card.id).catch((err) => setError((err as Error).message));
+            }}
+          />
           <section className="coding-review-layout">
             <div className="code-pane">
-              <header>
-                <h2>{card.prompt}</h2>
-                <span className="lang-tag">{card.language}</span>
-              </header>
-              <CodeEditor value={card.code} readOnly language={card.language} minHeight={240} />
+              <CodingPrompt prompt={card.prompt} language={card.language} code={card.code} />
               <ExplainButton
                 cardId={card.id}
                 context={{
@@ -0,0 +1,337 @@
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import type { SimulationResultDTO } from '../../types/ipc';
+import { BarChart } from '../components/BarChart';
+import { Heatmap } from '../components/Heatmap';
+import { WritingAnalyticsPanel } from '../components/WritingAnalyticsPanel';
+import { useAppStore } from '../state';
+
+const FORECAST_RANGES = [7, 30, 90, 180, 365];
+
+function percent(passed: number, total: number) {
+  return total > 0 ? `${Math.round((passed / total) * 100)}%` : '—';
+}
+
+function dayLabel(dayStartTs: number, dayOffset: number) {
+  if (dayOffset === 0) return 'Today';
+  return new Date(dayStartTs).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+interface SimulationRun {
+  current: SimulationResultDTO;
+  whatIf: SimulationResultDTO;
+}
+
+export function StatsScreen() {
+  const { selectedDeckId, setActiveScreen } = useAppStore();
+  const [deckId, setDeckId] = useState<number | null>(selectedDeckId);
+  const [days, setDays] = useState(30);
+  const [recallRate, setRecallRate] = useState(0.9);
+  const [newPerDay, setNewPerDay] = useState(20);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: decks } = useQuery({
+    queryKey: ['decks'],
+    queryFn: () => window.api.listDecks(),
+  });
+  const { data: stats } = useQuery({
+    queryKey: ['stats', deckId],
+    queryFn: () => window.api.stats(deckId),
+  });
+  const { data: forecast, isLoading } = useQuery({
+    queryKey: ['forecast', deckId, days],
+    queryFn: () => window.api.forecast(deckId, days),
+  });
+
+  const handleSimulate = useCallback(async () => {
+    setSimulating(true);
+    setError(null);
+    try {
+      // Same inputs except the new card limit, so the difference is the cost of the change
+      const [current, whatIf] = await Promise.all([
+        window.api.simulateWorkload({ deckId, days, recallRate, newPerDay: null }),
+        window.api.simulateWorkload({ deckId, days, recallRate, newPerDay }),
+      ]);
+      setSimulation({ current, whatIf });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSimulating(false);
+    }
+  }, [days, deckId, newPerDay, recallRate]);
+
+  return (
+    <div className="screen stats-screen">
+      <header className="review-header">
+        <button type="button" onClick={() => setActiveScreen('decks')}>
+          ← Decks
+        </button>
+        <div className="card-meta">
+          <h1>Stats</h1>
+        </div>
+        <div className="review-header-actions" />
+      </header>
+
+      <div className="deck-options-row">
+        <label>
+          <span className="toolbar-label">Deck</span>
+          <select
+            value={deckId ?? ''}
+            onChange={(event) => {
+              setDeckId(event.target.value ? Number(event.target.value) : null);
+              setSimulation(null);
+            }}
+          >
+            <option value="">All decks</option>
+            {decks?.map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className="toolbar-label">Range</span>
+          <select
+            value={days}
+            onChange={(event) => {
+              setDays(Number(event.target.value));
+              setSimulation(null);
+            }}
+          >
+            {FORECAST_RANGES.map((range) => (
+              <option key={range} value={range}>
+                {range} days
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {stats ? (
+        <>
+          <section className="deck-options-section">
+            <h2>Cards</h2>
+            <div className="stats-tiles">
+              {(
+                [
+                  ['New', stats.cardStates.new],
+                  ['Learning', stats.cardStates.learning],
+                  ['Young', stats.cardStates.young],
+                  ['Mature', stats.cardStates.mature],
+                  ['Suspended', stats.cardStates.suspended],
+                ] as const
+              ).map(([label, count]) => (
+                <div key={label} className="stats-tile">
+                  <span className="stats-tile-value">{count}</span>
+                  <span className="toolbar-label">{label}</span>
+                </div>
+              ))}
+            </div>
+            <p className="muted">
+              Young cards have an interval under 21 days; mature cards 21 or more.
+            </p>
+          </section>
+
+          <section className="deck-options-section">
+            <h2>Reviews</h2>
+            <Heatmap days={stats.heatmap} today={stats.today} />
+          </section>
+
+          <section className="deck-options-section">
+            <h2>True retention</h2>
+            {stats.retention.length === 0 ? (
+              <p className="muted">No day-scale reviews yet.</p>
+            ) : (
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th>Deck</th>
+                    <th>Kind</th>
+                    <th>Last 30 days</th>
+                    <th>All time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.retention.map((row) => (
+                    <tr key={`${row.deckId}-${row.kind}`}>
+                      <td>{row.deckName}</td>
+                      <td>{row.kind === 'coding' ? 'Coding' : 'Vocab'}</td>
+                      <td>
+                        {percent(row.monthPassed, row.monthReviews)}{' '}
+                        <span className="muted">({row.monthReviews})</span>
+                      </td>
+                      <td>
+                        {percent(row.totalPassed, row.totalReviews)}{' '}
+                        <span className="muted">({row.totalReviews})</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      ) : null}
+
+      <section className="deck-options-section">
+        <h2>Forecast</h2>
+        <p className="muted">Cards already in rotation that come due each day.</p>
+        {isLoading ? <p>Loading forecast…</p> : null}
+        {forecast ? (
+          <BarChart
+            labels={forecast.days.map((day) => dayLabel(day.dayStartTs, day.dayOffset))}
+            series={[
+              {
+                name: 'Vocab',
+                color: '#60a5fa',
+                values: forecast.days.map((day) => day.vocab),
+              },
+              {
+                name: 'Coding',
+                color: '#a78bfa',
+                values: forecast.days.map((day) => day.coding),
+              },
+            ]}
+          />
+        ) : null}
+      </section>
+
+      <section className="deck-options-section">
+        <h2>What if</h2>
+        <p className="muted">
+          Replays the scheduler with a fixed recall rate to project the daily review load, compared
+          with the new card limits in your presets.
+        </p>
+        <div className="deck-options-row">
+          <label>
+            <span className="toolbar-label">Recall rate (%)</span>
+            <input
+              type="number"
+              min={50}
+              max={100}
+              step={1}
+              value={Math.round(recallRate * 100)}
+              disabled={simulating}
+              onChange={(event) => setRecallRate(Number(event.target.value) / 100)}
+            />
+          </label>
+          <label>
+            <span className="toolbar-label">New cards per day</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={newPerDay}
+              disabled={simulating}
+              onChange={(event) => setNewPerDay(Number(event.target.value))}
+            />
+          </label>
+          <button type="button" onClick={handleSimulate} disabled={simulating}>
+            {simulating ? 'Simulating…' : 'Simulate'}
+          </button>
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+        {simulation ? (
+          <>
+            <BarChart
+              labels={simulation.whatIf.days.map((day) => dayLabel(day.dayStartTs, day.dayOffset))}
+              series={[
+                {
+                  name: 'Reviews',
+                  color: '#60a5fa',
+                  values: simulation.whatIf.days.map((day) => day.reviews),
+                },
+                {
+                  name: 'New',
+                  color: '#4ade80',
+                  values: simulation.whatIf.days.map((day) => day.newCards),
+                },
+              ]}
+              line={{
+                name: 'Reviews at preset limits',
+                color: '#facc15',
+                values: simulation.current.days.map((day) => day.reviews),
+              }}
+            />
+            <p className="muted">
+              {newPerDay} new per day: peak of {simulation.whatIf.peakReviews} reviews,{' '}
+              {Math.round(simulation.whatIf.totalReviews / simulation.whatIf.days.length)} per day
+              on average, {simulation.whatIf.newCardsRemaining} new cards left after {days} days. At
+              preset limits: peak of {simulation.current.peakReviews},{' '}
+              {Math.round(simulation.current.totalReviews / simulation.current.days.length)} per day
+              on average.
+            </p>
+          </>
+        ) : null}
+      </section>
+
+      {stats ? (
+        <>
+          <section className="deck-options-section">
+            <h2>Intervals</h2>
+            <BarChart
+              labels={stats.intervals.map((bucket) => bucket.label)}
+              series={[
+                {
+                  name: 'Cards',
+                  color: '#60a5fa',
+                  values: stats.intervals.map((bucket) => bucket.count),
+                },
+              ]}
+              height={180}
+            />
+          </section>
+
+          <section className="deck-options-section">
+            <h2>Ease</h2>
+            {stats.eases.length === 0 ? (
+              <p className="muted">No reviewed cards yet.</p>
+            ) : (
+              <BarChart
+                labels={stats.eases.map((bucket) => bucket.label)}
+                series={[
+                  {
+                    name: 'Cards',
+                    color: '#4ade80',
+                    values: stats.eases.map((bucket) => bucket.count),
+                  },
+                ]}
+                height={180}
+              />
+            )}
+          </section>
+
+          <section className="deck-options-section">
+            <h2>Judge scores</h2>
+            {stats.judgeScores.length === 0 ? (
+              <p className="muted">No judged sentences yet.</p>
+            ) : (
+              <>
+                <BarChart
+                  labels={stats.judgeScores.map((week) => week.weekStart.slice(5))}
+                  series={[
+                    {
+                      name: 'Average score (%)',
+                      color: '#f472b6',
+                      values: stats.judgeScores.map((week) => Math.round(week.averageScore * 100)),
+                    },
+                  ]}
+                  height={180}
+                />
+                <p className="muted">Weekly average: right = 100%, unsure = 50%, wrong = 0%.</p>
+              </>
+            )}
+          </section>
+
+          <section className="deck-options-section">
+            <h2>Writing</h2>
+            <WritingAnalyticsPanel deckId={deckId} />
+          </section>
+        </>
+      ) : null}
+    </div>
+  );
+}
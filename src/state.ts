@@ -1,21 +1,46 @@
 import { create } from 'zustand';
 
-type Screen = 'decks' | 'review';
+type Screen =
+  | 'decks'
+  | 'review'
+  | 'deckOptions'
+  | 'leeches'
+  | 'flagged'
+  | 'stats'
+  | 'browse'
+  | 'cardEditor'
+  | 'addCard'
+  | 'import';
 
 interface AppState {
   activeScreen: Screen;
   activeMode: 'vocab' | 'coding';
   selectedDeckId: number | null;
+  editingCardId: number | null;
+  editorReturnScreen: Screen; // where the card editor goes back to
+  importFilePath: string | null;
   setActiveScreen: (screen: Screen) => void;
   setActiveMode: (mode: 'vocab' | 'coding') => void;
   selectDeck: (deckId: number | null) => void;
+  editCard: (cardId: number) => void;
+  startImport: (filePath: string) => void;
 }
 
 export const useAppStore = create<AppState>((set) => ({
   activeScreen: 'decks',
   activeMode: 'vocab',
   selectedDeckId: null,
+  editingCardId: null,
+  editorReturnScreen: 'browse',
+  importFilePath: null,
   setActiveScreen: (activeScreen) => set({ activeScreen }),
   setActiveMode: (activeMode) => set({ activeMode }),
   selectDeck: (selectedDeckId) => set({ selectedDeckId }),
+  editCard: (editingCardId) =>
+    set((state) => ({
+      editingCardId,
+      editorReturnScreen: state.activeScreen,
+      activeScreen: 'cardEditor',
+    })),
+  startImport: (importFilePath) => set({ importFilePath, activeScreen: 'import' }),
 }));
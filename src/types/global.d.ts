@@ -3,7 +3,11 @@ export {};
 declare global {
   interface Window {
     api: {
-      importApkg: (filePath: string) => Promise<import('../../types/ipc').ImportDeckResult>;
+      previewImport: (filePath: string) => Promise<import('../../types/ipc').ImportSummaryDTO>;
+      importApkg: (
+        filePath: string,
+        options: import('../../types/ipc').ImportOptionsDTO,
+      ) => Promise<import('../../types/ipc').ImportDeckResult>;
       listDecks: () => Promise<import('../../types/ipc').DeckSummaryDTO[]>;
       nextCard: (deckId: number) => Promise<import('../../types/ipc').FrontBackCard | null>;
       playAudio: (cardId: number) => Promise<string[]>;
@@ -11,9 +15,78 @@ declare global {
         cardId: number,
         sentence: string,
       ) => Promise<import('../../types/ipc').JudgeResponseDTO>;
-      rate: (cardId: number, rating: import('../../types/ipc').RatingValue) => Promise<void>;
+      rate: (
+        cardId: number,
+        rating: import('../../types/ipc').RatingValue,
+        options?: import('../../types/ipc').RateOptionsDTO,
+      ) => Promise<import('../../types/ipc').RateResultDTO>;
+      undoRate: (revlogId: number) => Promise<import('../../types/ipc').UndoRateResultDTO>;
+      cardForReview: (cardId: number) => Promise<import('../../types/ipc').FrontBackCard | null>;
+      codingCardForReview: (cardId: number) => Promise<import('../../types/ipc').CodingCard | null>;
       chooseApkg: () => Promise<string | null>;
+      chooseAudioFile: () => Promise<string | null>;
+      createDeck: (name: string) => Promise<number>;
+      addNote: (
+        deckId: number,
+        input: import('../../types/ipc').NewNoteInputDTO,
+      ) => Promise<{ noteId: number; cardId: number }>;
       deleteDeck: (deckId: number) => Promise<void>;
+      getDeckScheduler: (deckId: number) => Promise<import('../../types/ipc').DeckSchedulerDTO>;
+      setDeckScheduler: (
+        deckId: number,
+        config: import('../../types/ipc').DeckSchedulerDTO,
+      ) => Promise<void>;
+      optimizeScheduler: (
+        deckId: number | null,
+      ) => Promise<import('../../types/ipc').OptimizeResultDTO>;
+      applySchedulerWeights: (deckId: number | null, weights: number[] | null) => Promise<void>;
+      forecast: (
+        deckId: number | null,
+        days: number,
+      ) => Promise<import('../../types/ipc').WorkloadForecastDTO>;
+      simulateWorkload: (
+        input: import('../../types/ipc').SimulationInputDTO,
+      ) => Promise<import('../../types/ipc').SimulationResultDTO>;
+      stats: (deckId: number | null) => Promise<import('../../types/ipc').StatsDashboardDTO>;
+      writingAnalytics: (
+        deckId: number | null,
+      ) => Promise<import('../../types/ipc').WritingAnalyticsDTO>;
+      listPresets: () => Promise<import('../../types/ipc').DeckPresetDTO[]>;
+      createPreset: (preset: import('../../types/ipc').DeckPresetInputDTO) => Promise<number>;
+      updatePreset: (
+        presetId: number,
+        preset: import('../../types/ipc').DeckPresetInputDTO,
+      ) => Promise<void>;
+      deletePreset: (presetId: number) => Promise<void>;
+      setDeckPreset: (deckId: number, presetId: number) => Promise<void>;
+      getAppSettings: () => Promise<import('../../types/ipc').AppSettingsDTO>;
+      setAppSettings: (settings: import('../../types/ipc').AppSettingsDTO) => Promise<void>;
+      listLeeches: () => Promise<import('../../types/ipc').LeechCardDTO[]>;
+      leechDetail: (cardId: number) => Promise<import('../../types/ipc').LeechDetailDTO>;
+      setCardSuspended: (cardId: number, suspended: boolean) => Promise<void>;
+      resetCard: (cardId: number) => Promise<void>;
+      buryCard: (cardId: number) => Promise<void>;
+      setCardFlag: (cardId: number, flag: number) => Promise<void>;
+      listFlagged: (flag: number | null) => Promise<import('../../types/ipc').FlaggedCardDTO[]>;
+      browseCards: (
+        query: import('../../types/ipc').BrowseQueryDTO,
+      ) => Promise<import('../../types/ipc').BrowsePageDTO>;
+      quickSearch: (query: string) => Promise<import('../../types/ipc').QuickSearchHitDTO[]>;
+      suspendCards: (cardIds: number[], suspended: boolean) => Promise<number>;
+      resetCards: (cardIds: number[]) => Promise<void>;
+      moveCards: (cardIds: number[], deckId: number) => Promise<number>;
+      addCardTag: (cardIds: number[], tag: string) => Promise<void>;
+      removeCardTag: (cardIds: number[], tag: string) => Promise<void>;
+      deleteCards: (cardIds: number[]) => Promise<number>;
+      cardEditor: (cardId: number) => Promise<import('../../types/ipc').CardEditorDTO>;
+      previewCardEdit: (
+        cardId: number,
+        input: import('../../types/ipc').CardEditInputDTO,
+      ) => Promise<import('../../types/ipc').CardPreviewDTO>;
+      saveCardEdit: (
+        cardId: number,
+        input: import('../../types/ipc').CardEditInputDTO,
+      ) => Promise<void>;
     };
   }
 }
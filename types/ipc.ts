@@ -3,6 +3,51 @@ export type StudyMode = 'vocab' | 'coding';
 export interface ImportDeckResult {
   deckId: number;
   count: number;
+  updated: number;
+  removed: number;
+}
+
+export type ImportFieldRole = 'target' | 'meaning' | 'pos' | 'audio' | 'code' | 'expectedOutput';
+
+export interface ImportFieldMappingDTO {
+  kind: StudyMode;
+  lang: string;
+  fields: Partial<Record<ImportFieldRole, string>>;
+}
+
+export interface ImportNoteTypeDTO {
+  id: number;
+  name: string;
+  fieldNames: string[];
+  noteCount: number;
+  samples: string[][];
+  mapping: ImportFieldMappingDTO;
+  remembered: boolean;
+}
+
+export interface ImportOptionsDTO {
+  removeMissing: boolean;
+  overwriteConflicts: boolean;
+  mappings: Record<number, ImportFieldMappingDTO>;
+}
+
+export interface ImportConflictDTO {
+  guid: string;
+  local: string;
+  incoming: string;
+}
+
+export interface ImportSummaryDTO {
+  fileName: string;
+  deckNames: string[];
+  mergedDeckNames: string[]; // existing decks from elsewhere that the import adds to
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicting: number;
+  removed: number;
+  conflicts: ImportConflictDTO[];
+  noteTypes: ImportNoteTypeDTO[];
 }
 
 export interface FrontBackCard {
@@ -10,6 +55,7 @@ export interface FrontBackCard {
   targetLexeme: string;
   frontHtml: string;
   backHtml: string;
+  css?: string | null; // the note type's styling, when it has any
   audioRefs: string[];
   lang: string;
   pos?: string | null;
@@ -19,11 +65,157 @@ export interface FrontBackCard {
   ease: number;
   reps: number;
   lapses: number;
+  flag: number;
 }
 
-export interface DeckSummaryDTO {
+export type SchedulerAlgorithm = 'classic' | 'fsrs';
+
+export interface DeckSchedulerDTO {
+  algorithm: SchedulerAlgorithm;
+  desiredRetention: number;
+  weights?: number[] | null;
+}
+
+export interface FitMetricsDTO {
+  logLoss: number;
+  rmse: number;
+}
+
+export interface OptimizeResultDTO {
+  deckId: number | null;
+  cardCount: number;
+  reviewCount: number;
+  before: FitMetricsDTO;
+  after: FitMetricsDTO;
+  weights: number[];
+}
+
+export interface ForecastDayDTO {
+  dayOffset: number; // 0 = today, including overdue cards
+  dayStartTs: number;
+  vocab: number;
+  coding: number;
+}
+
+export interface WorkloadForecastDTO {
+  deckId: number | null;
+  days: ForecastDayDTO[];
+}
+
+export interface SimulationInputDTO {
+  deckId: number | null;
+  days: number;
+  recallRate: number; // 0.5..1
+  newPerDay: number | null; // null keeps each deck's preset limit
+}
+
+export interface SimulationDayDTO {
+  dayOffset: number;
+  dayStartTs: number;
+  reviews: number;
+  newCards: number;
+}
+
+export interface SimulationResultDTO {
+  deckId: number | null;
+  days: SimulationDayDTO[];
+  totalReviews: number;
+  peakReviews: number;
+  newCardsRemaining: number;
+}
+
+export interface StatsDashboardDTO {
+  deckId: number | null;
+  today: string; // current study day, YYYY-MM-DD
+  heatmap: Array<{ date: string; count: number }>; // study day YYYY-MM-DD, last year
+  retention: Array<{
+    deckId: number;
+    deckName: string;
+    kind: StudyMode;
+    monthReviews: number;
+    monthPassed: number;
+    totalReviews: number;
+    totalPassed: number;
+  }>;
+  intervals: Array<{ label: string; count: number }>;
+  eases: Array<{ label: string; count: number }>;
+  cardStates: { new: number; learning: number; young: number; mature: number; suspended: number };
+  judgeScores: Array<{ weekStart: string; attempts: number; averageScore: number }>;
+}
+
+export type ScoreDimension =
+  | 'form'
+  | 'mechanics'
+  | 'grammar'
+  | 'style'
+  | 'sophistication'
+  | 'naturalness';
+
+export interface WritingAnalyticsDTO {
+  deckId: number | null;
+  dimensions: Array<{
+    dimension: ScoreDimension;
+    average: number | null; // 0..1
+    count: number;
+    recentAverage: number | null; // last four weeks
+    previousAverage: number | null; // the four weeks before that
+  }>;
+  weakest: ScoreDimension | null;
+  weeks: Array<{
+    weekStart: string;
+    attempts: number;
+    averages: Record<ScoreDimension, number | null>;
+  }>;
+  lowNaturalness: Array<{
+    cardId: number;
+    deckName: string;
+    targetLexeme: string;
+    attempts: number;
+    averageNaturalness: number;
+    latestQuickTip: string | null;
+  }>;
+}
+
+export interface AppSettingsDTO {
+  dayRolloverHour: number; // hour of the day at which daily limits reset
+  loadBalancing: boolean; // spread new intervals onto the least busy day in their fuzz range
+}
+
+export type LeechAction = 'suspend' | 'tag';
+
+export type NewCardOrder = 'due' | 'random' | 'tag' | 'frequency';
+
+export type ReviewOrder = 'due' | 'overdueness' | 'retrievability';
+
+export interface DeckPresetDTO {
   id: number;
   name: string;
+  learningSteps: number[]; // minutes
+  relearningSteps: number[]; // minutes
+  graduatingIvlDays: number;
+  easyIvlDays: number; // 0 = 2 + 2 × ease
+  maxIvlDays: number;
+  newPerDay: number;
+  reviewsPerDay: number;
+  leechThreshold: number;
+  leechAction: LeechAction;
+  newCardOrder: NewCardOrder;
+  reviewOrder: ReviewOrder;
+  buryNew: boolean;
+  buryReviews: boolean;
+  buryLearning: boolean;
+  easyDays: number[]; // review load multiplier per weekday, Sunday first; 1, 0.5 or 0
+  deckCount: number;
+}
+
+export type DeckPresetInputDTO = Omit<DeckPresetDTO, 'id' | 'deckCount'>;
+
+export interface DeckSummaryDTO {
+  id: number;
+  name: string; // full `Parent::Child` path
+  parentId: number | null;
+  scheduler: SchedulerAlgorithm;
+  presetId: number;
   dueCount: number;
   totalCount: number;
   nextDue: number | null;
@@ -47,6 +239,163 @@ export interface DeckSummaryDTO {
 
 export type RatingValue = 0 | 1 | 2 | 3;
 
+export type RatingSource = 'manual' | 'auto_fail' | 'judge';
+
+export interface RateOptionsDTO {
+  source?: RatingSource;
+  timeMs?: number;
+}
+
+export interface RateResultDTO {
+  revlogId: number;
+  leech: LeechAction | null; // set when this rating turned the card into a leech
+}
+
+export interface LeechCardDTO {
+  id: number;
+  deckId: number;
+  deckName: string;
+  kind: StudyMode;
+  targetLexeme: string;
+  frontHtml: string;
+  backHtml: string;
+  lapses: number;
+  suspended: boolean;
+}
+
+export interface CodingExtraDTO {
+  prompt: string;
+  code: string;
+  language: string;
+  expectedOutput: string;
+  explainContext: string | null;
+}
+
+export interface CardEditorDTO {
+  cardId: number;
+  noteId: number;
+  deckId: number;
+  kind: StudyMode;
+  noteTypeName: string | null;
+  fieldNames: string[];
+  fields: string[];
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  coding: CodingExtraDTO | null;
+}
+
+export interface CardEditInputDTO {
+  fields: string[];
+  targetLexeme: string;
+  lang: string;
+  pos: string | null;
+  senseHint: string | null;
+  coding: CodingExtraDTO | null;
+}
+
+export interface CardPreviewDTO {
+  frontHtml: string;
+  backHtml: string;
+  css: string | null;
+  coding: CodingExtraDTO | null;
+}
+
+export interface NewVocabNoteDTO {
+  kind: 'vocab';
+  word: string;
+  meaning: string;
+  pos: string | null;
+  example: string | null;
+  lang: string;
+  audioPath: string | null;
+  tags: string[];
+}
+
+export interface NewCodingNoteDTO {
+  kind: 'coding';
+  coding: CodingExtraDTO;
+  tags: string[];
+}
+
+export type NewNoteInputDTO = NewVocabNoteDTO | NewCodingNoteDTO;
+
+export interface FlaggedCardDTO {
+  id: number;
+  deckId: number;
+  deckName: string;
+  kind: StudyMode;
+  targetLexeme: string;
+  frontHtml: string;
+  flag: number;
+  suspended: boolean;
+}
+
+export type BrowseSortColumn =
+  | 'lexeme'
+  | 'deck'
+  | 'kind'
+  | 'due'
+  | 'interval'
+  | 'ease'
+  | 'lapses'
+  | 'created';
+
+export interface BrowseQueryDTO {
+  search: string;
+  sort: BrowseSortColumn;
+  descending: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface BrowseCardDTO {
+  id: number;
+  noteId: number;
+  deckId: number;
+  deckName: string;
+  kind: StudyMode;
+  targetLexeme: string;
+  frontHtml: string;
+  dueTs: number;
+  ivlDays: number;
+  ease: number;
+  reps: number;
+  lapses: number;
+  learningStage: number;
+  tags: string[];
+  flag: number;
+  suspended: boolean;
+  buried: boolean;
+}
+
+export interface BrowsePageDTO {
+  cards: BrowseCardDTO[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface QuickSearchHitDTO {
+  cardId: number;
+  deckId: number;
+  deckName: string;
+  kind: StudyMode;
+  targetLexeme: string;
+  snippet: string; // matched words are wrapped in \u0002 … \u0003
+}
+
+export interface LeechDetailDTO {
+  lapses: Array<{ reviewTs: number; prevIvlDays: number }>;
+  attempts: Array<{ whenTs: number; sentence: string; verdict: string; feedback: string }>;
+}
+
+export interface UndoRateResultDTO {
+  cardId: number;
+  kind: StudyMode;
+}
+
 export interface JudgeScoresDTO {
   form: number;
   mechanics: number;
@@ -54,9 +403,9 @@ export interface JudgeScoresDTO {
 }
 
 export interface QualityScoresDTO {
-  style: number;         // Generic (0) vs creative (1)
+  style: number; // Generic (0) vs creative (1)
   sophistication: number; // Learner-like (0) vs native-like (1)
-  naturalness: number;   // Awkward (0) vs natural (1) collocations
+  naturalness: number; // Awkward (0) vs natural (1) collocations
 }
 
 export interface JudgeResponseDTO {
@@ -106,6 +455,7 @@ export interface CodingCard {
   ease: number;
   reps: number;
   lapses: number;
+  flag: number;
 }
 
 export interface ExplainResponseDTO {